@@ -0,0 +1,194 @@
+import { randomUUID } from 'node:crypto';
+import { GameTable, type TableSummary } from './models/GameTable';
+import type { GameSettings } from './models/GameSettings';
+import type { Player } from './models/Player';
+
+/**
+ * Keeps track of every connected player and every active GameTable.
+ * Each player is seated at no more than one table at a time.
+ */
+export class TableManager {
+	tables: Map<string, GameTable>; // Map of GameTable.id to GameTable
+	players: Map<string, Player>; // Map of Player.id to every connected Player
+
+	/**
+	 * Creates a new, empty TableManager.
+	 */
+	constructor() {
+		this.tables = new Map<string, GameTable>();
+		this.players = new Map<string, Player>();
+	}
+
+	/**
+	 * Creates a new table and registers it with the manager.
+	 * @param {string} [id] - Optional ID for the table. A UUID is generated when omitted.
+	 * @param {GameSettings} [gameSettings] - Optional settings for the table.
+	 * @returns {GameTable} The newly created table.
+	 */
+	createTable(id?: string, gameSettings?: GameSettings): GameTable {
+		const tableId = id ?? randomUUID();
+		if (this.tables.has(tableId)) {
+			throw new Error(`Table ${tableId} already exists.`);
+		}
+		const gameTable = new GameTable(tableId, gameSettings);
+		this.tables.set(tableId, gameTable);
+		console.log(`Game table ${tableId} created. Total tables: ${this.tables.size}`);
+		return gameTable;
+	}
+
+	/**
+	 * Looks up a table by its ID.
+	 * @param {string} tableId - The ID of the table.
+	 * @returns {GameTable | undefined} The table or undefined if not found.
+	 */
+	getTable(tableId: string): GameTable | undefined {
+		return this.tables.get(tableId);
+	}
+
+	/**
+	 * Returns every active table.
+	 * @returns {GameTable[]} All tables managed by this instance.
+	 */
+	getTables(): GameTable[] {
+		return Array.from(this.tables.values());
+	}
+
+	/**
+	 * Builds the lobby summaries of every active table.
+	 * @returns {TableSummary[]} One summary per table.
+	 */
+	getTableSummaries(): TableSummary[] {
+		return this.getTables().map((gameTable) => gameTable.getSummary());
+	}
+
+	/**
+	 * Disposes of a table, unseating any players still bound to it.
+	 * @param {string} tableId - The ID of the table to remove.
+	 * @returns {boolean} True if a table was removed.
+	 */
+	removeTable(tableId: string): boolean {
+		const gameTable = this.tables.get(tableId);
+		if (!gameTable) {
+			return false;
+		}
+		gameTable.players.forEach((player) => {
+			player.tableId = null;
+		});
+		gameTable.clearPhaseTimer();
+		this.tables.delete(tableId);
+		console.log(`Game table ${tableId} disposed. Total tables: ${this.tables.size}`);
+		return true;
+	}
+
+	/**
+	 * Registers a newly connected player. The player is not seated at any table yet.
+	 * @param {Player} player - The player to register.
+	 */
+	registerPlayer(player: Player) {
+		this.players.set(player.id, player);
+	}
+
+	/**
+	 * Removes a disconnected player from the manager and from their table.
+	 * @param {string} playerId - The ID of the player to remove.
+	 * @returns {Player | undefined} The removed player, if one was registered.
+	 */
+	unregisterPlayer(playerId: string): Player | undefined {
+		const player = this.players.get(playerId);
+		if (!player) {
+			return undefined;
+		}
+		this.leaveTable(playerId);
+		this.players.delete(playerId);
+		return player;
+	}
+
+	/**
+	 * Retrieves a connected player by ID, regardless of which table they are seated at.
+	 * @param {string} playerId - The ID of the player.
+	 * @returns {Player | undefined} The player or undefined if not found.
+	 */
+	getPlayer(playerId: string): Player | undefined {
+		return this.players.get(playerId);
+	}
+
+	/**
+	 * Resolves the table a player is currently seated at.
+	 * @param {string} playerId - The ID of the player.
+	 * @returns {GameTable | undefined} The player's table or undefined if they are not seated.
+	 */
+	getTableForPlayer(playerId: string): GameTable | undefined {
+		const tableId = this.players.get(playerId)?.tableId;
+		return tableId ? this.tables.get(tableId) : undefined;
+	}
+
+	/**
+	 * Seats a registered player at a table.
+	 * @param {string} playerId - The ID of the player.
+	 * @param {string} tableId - The ID of the table to join.
+	 * @returns {GameTable} The table the player joined.
+	 */
+	joinTable(playerId: string, tableId: string): GameTable {
+		const player = this.players.get(playerId);
+		if (!player) {
+			throw new Error(`Player ${playerId} is not registered.`);
+		}
+		const gameTable = this.tables.get(tableId);
+		if (!gameTable) {
+			throw new Error(`Table ${tableId} does not exist.`);
+		}
+		// A player can only be bound to one table at a time
+		if (player.tableId && player.tableId !== tableId) {
+			throw new Error(`Player ${playerId} is already seated at table ${player.tableId}.`);
+		}
+		gameTable.addPlayer(player);
+		player.tableId = tableId;
+		return gameTable;
+	}
+
+	/**
+	 * Unseats a player from their current table. Empty tables are disposed, unless a restored table
+	 * still holds reserved seats for players who have not come back yet.
+	 * @param {string} playerId - The ID of the player.
+	 * @returns {GameTable | undefined} The table the player left, if they were seated.
+	 */
+	leaveTable(playerId: string): GameTable | undefined {
+		const player = this.players.get(playerId);
+		const gameTable = this.getTableForPlayer(playerId);
+		if (!player || !gameTable) {
+			return undefined;
+		}
+		gameTable.removePlayer(playerId);
+		player.tableId = null;
+		if (gameTable.players.size === 0 && gameTable.reservedSeats.size === 0) {
+			this.removeTable(gameTable.id);
+		}
+		return gameTable;
+	}
+
+	/**
+	 * Checks whether a username is already used by any other connected player.
+	 * @param {string} username - The username to check.
+	 * @param {string} [excludePlayerId] - A player ID to ignore (usually the requester).
+	 * @returns {boolean} True if the username is taken.
+	 */
+	isUsernameTaken(username: string, excludePlayerId?: string): boolean {
+		for (const player of this.players.values()) {
+			if (player.id !== excludePlayerId && player.username === username) {
+				return true;
+			}
+		}
+		return false;
+	}
+}
+
+// Create a single instance of TableManager
+const tableManager = new TableManager();
+
+/**
+ * Provides access to the singleton TableManager instance.
+ * @returns {TableManager} The single instance of the table manager.
+ */
+export function getTableManager(): TableManager {
+	return tableManager;
+}
@@ -0,0 +1,67 @@
+import { getHouseWayIds, setHandHouseWay } from '../houseWays/registry';
+import type { Card } from '../models/Card';
+import { formatCard, formatCards, parseCards } from '../utils/cardNotation';
+import { describeHand } from '../utils/handDescriber';
+import { evaluate2CardHand, evaluate5CardHand, evaluate7CardBest, markJokerSubstitutions } from '../utils/handEvaluator';
+
+const USAGE = 'Usage: pnpm cards "As Kh Td Jk 9c 8c 7c" [--house-way <id>]';
+
+/**
+ * Writes a hand with each Joker's substitution after it, e.g. "K♥ Q♥ 🃏 (as A♥) 6♥ 2♥".
+ * @param {Card[]} hand - A 5-card or 2-card hand.
+ * @returns {string} The hand in Unicode notation.
+ */
+function formatPlayedHand(hand: Card[]): string {
+	return markJokerSubstitutions(hand)
+		.map(card => {
+			const written = formatCard(card, 'unicode');
+			if (!card.playsAs) return written;
+			const playsAs = card.playsAs.suit ? formatCard({ rank: card.playsAs.rank, suit: card.playsAs.suit }, 'unicode') : card.playsAs.rank;
+			return `${written} (as ${playsAs})`;
+		})
+		.join(' ');
+}
+
+/**
+ * Describes the cards given on the command line: a 2-card or 5-card hand is evaluated as it stands;
+ * seven cards get their best five and the split a house way would play.
+ * @param {string[]} args - Command-line arguments after the script name.
+ * @returns {string[]} The lines to print.
+ * @throws {Error} If the arguments or cards are invalid.
+ */
+export function runCardsCli(args: string[]): string[] {
+	const houseWayFlag = args.indexOf('--house-way');
+	const houseWay = houseWayFlag === -1 ? 'MaximizeLow' : args[houseWayFlag + 1];
+	const cardArgs = houseWayFlag === -1 ? args : args.filter((_, index) => index !== houseWayFlag && index !== houseWayFlag + 1);
+	if (!houseWay || !getHouseWayIds().includes(houseWay)) {
+		throw new Error(`Unknown house way '${houseWay ?? ''}'. Choose from: ${getHouseWayIds().join(', ')}.`);
+	}
+	const cards = parseCards(cardArgs.join(' '));
+
+	const lines = [`Cards: ${formatCards(cards, 'unicode')}`];
+	if (cards.length === 2) {
+		lines.push(`Low hand: ${describeHand(evaluate2CardHand(cards), 'low')}`);
+	} else if (cards.length === 5) {
+		lines.push(`High hand: ${describeHand(evaluate5CardHand(cards))}`);
+	} else if (cards.length === 7) {
+		const best = evaluate7CardBest(cards);
+		lines.push(`Best five: ${formatPlayedHand(best.cards)}, ${describeHand(best.evaluation)}`);
+		const { highHand, lowHand } = setHandHouseWay(cards, houseWay);
+		lines.push(`House way (${houseWay}):`);
+		lines.push(`  High: ${formatPlayedHand(highHand)}, ${describeHand(evaluate5CardHand(highHand))}`);
+		lines.push(`  Low:  ${formatPlayedHand(lowHand)}, ${describeHand(evaluate2CardHand(lowHand), 'low')}`);
+	} else {
+		throw new Error(`Expected 2, 5 or 7 cards, got ${cards.length}. ${USAGE}`);
+	}
+	return lines;
+}
+
+// Run only when executed directly (tsx src/cli/cards.ts ...), not when imported by tests
+if (require.main === module) {
+	try {
+		console.log(runCardsCli(process.argv.slice(2)).join('\n'));
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : String(error));
+		process.exitCode = 1;
+	}
+}
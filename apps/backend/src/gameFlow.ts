@@ -0,0 +1,479 @@
+import type { Card } from './models/Card';
+import type { GameTable } from './models/GameTable';
+import { getTableManager } from './TableManager';
+import { broadcast, sendFullGameState, sendTableList } from './websocketUtils';
+import { evaluate5CardHand, evaluate2CardHand, compareEvaluatedHands, markJokerSubstitutions } from './utils/handEvaluator';
+import { setHandHouseWay } from './houseWays/registry';
+import { autosaveTable } from './utils/autosave';
+import { resolveFortuneBets, type FortuneBetResult } from './utils/fortuneBonus';
+import { determineOutcome } from './variants/Variant';
+import { combineRoundSeed } from './utils/provablyFair';
+import { describeHand, reportHand, type HandReport } from './utils/handDescriber';
+
+/**
+ * Works out how long the table's current phase may last.
+ * @param {GameTable} gameTable - The table.
+ * @returns {number} The phase duration in milliseconds, or 0 if the phase has no timer.
+ */
+export function getPhaseDurationMs(gameTable: GameTable): number {
+	const settings = gameTable.gameSettings;
+	switch (gameTable.gameState) {
+		case 'Betting':
+			return settings.bettingSeconds * 1000;
+		case 'PlayerAction':
+			return settings.handSettingSeconds * 1000;
+		case 'AceHighPush': // Nothing to decide, so the push is shown like a result
+		case 'RoundOver':
+			return settings.resultDisplaySeconds * 1000;
+		default:
+			return 0;
+	}
+}
+
+/**
+ * (Re)starts the timer for the table's current phase, or stops it if the phase has none.
+ * Call this right after every phase transition, before the new state is broadcast,
+ * so that 'gameStateUpdate' carries the new phaseDeadline.
+ * @param {GameTable} gameTable - The table that just changed phase.
+ * @param {number} [durationMs] - Override for the duration, e.g. the time left when a pause ended.
+ */
+export function schedulePhaseTimer(gameTable: GameTable, durationMs: number = getPhaseDurationMs(gameTable)) {
+	gameTable.clearPhaseTimer();
+	// Nobody is seated (e.g., a table restored on boot), so there is nobody to wait for
+	if (durationMs <= 0 || gameTable.isPaused() || gameTable.players.size === 0) {
+		return;
+	}
+	const phase = gameTable.gameState;
+	gameTable.startPhaseTimer(durationMs, () => handlePhaseTimerExpired(gameTable, phase));
+	console.log(`Table ${gameTable.id}: ${phase} ends in ${Math.round(durationMs / 1000)}s.`);
+}
+
+/**
+ * Starts the timer for the current phase if none is running, e.g. when a player sits down at a restored table.
+ * @param {GameTable} gameTable - The table.
+ */
+export function ensurePhaseTimer(gameTable: GameTable) {
+	if (!gameTable.phaseTimer) {
+		schedulePhaseTimer(gameTable);
+	}
+}
+
+/**
+ * Moves the game on when a phase timer runs out.
+ * @param {GameTable} gameTable - The table whose timer fired.
+ * @param {string} phase - The phase the timer was started for.
+ */
+function handlePhaseTimerExpired(gameTable: GameTable, phase: string) {
+	if (gameTable.gameState !== phase) {
+		return; // The phase already ended some other way
+	}
+	console.log(`Table ${gameTable.id}: ${phase} timer expired.`);
+
+	switch (phase) {
+		case 'Betting': {
+			const hasBets = Array.from(gameTable.players.values()).some(p => p.username && p.currentBet !== null && p.currentBet > 0);
+			if (hasBets) {
+				dealRound(gameTable);
+			} else {
+				// Nobody wants to play; stop the clock until the host starts again
+				gameTable.gameState = 'WaitingForPlayers';
+				gameTable.clearPhaseTimer();
+				sendFullGameState(gameTable, undefined, 'Nobody bet before betting closed. Waiting for the host to start.');
+				sendTableList(getTableManager());
+			}
+			break;
+		}
+		case 'PlayerAction':
+		case 'AceHighPush':
+			autoSetRemainingHands(gameTable);
+			handleShowdown(gameTable);
+			break;
+		case 'RoundOver':
+			startNextRound(gameTable);
+			break;
+	}
+}
+
+/**
+ * Sets the hand of every player who bet (and of the banker) but has not set their hand yet, using the House Way.
+ * Each affected player is told that their hand was set for them.
+ * @param {GameTable} gameTable - The table.
+ */
+export function autoSetRemainingHands(gameTable: GameTable) {
+	gameTable.players.forEach((player) => {
+		const isDealtIn = player.currentBet !== null || gameTable.isBanker(player);
+		if (!player.username || !isDealtIn || !player.currentHand || player.hasSetHand) {
+			return;
+		}
+		const { highHand, lowHand } = setHandHouseWay(player.currentHand, gameTable.gameSettings.houseWay);
+		player.setHighHand = highHand;
+		player.setLowHand = lowHand;
+		player.hasSetHand = true;
+		console.log(`Player ${player.id} (${player.username}) ran out of time; hand set using the House Way.`);
+		if (player.ws.readyState === player.ws.OPEN) {
+			player.ws.send(JSON.stringify({
+				type: 'setHandSuccess',
+				payload: { message: 'Time is up: your hand was set using the House Way.', highHand, lowHand },
+			}));
+		}
+	});
+}
+
+/**
+ * Opens betting for a new round: clears bets, passes the bank on and starts the betting timer.
+ * @param {GameTable} gameTable - The table.
+ */
+export function startBettingPhase(gameTable: GameTable) {
+	gameTable.gameState = 'Betting';
+	// Reset bets from any previous rounds for all players
+	gameTable.players.forEach((p) => {
+		p.currentBet = null;
+		p.sideBet = null;
+	});
+	const banker = gameTable.rotateBanker();
+	const { seedCommitment } = gameTable.prepareShoe();
+	gameTable.recordTurn();
+	schedulePhaseTimer(gameTable);
+	broadcast(gameTable, { type: 'gameStateUpdate', payload: {
+		gameState: gameTable.gameState,
+		phaseDeadline: gameTable.phaseDeadline,
+		bankerUsername: gameTable.bankerUsername,
+		seedCommitment, // Hash of the secret server seed the coming deal is shuffled with
+		newShoe: gameTable.roundSeed === null, // Client seeds are only taken when a new shoe is shuffled
+		message: banker ? `Betting phase started. ${banker.username} banks this round.` : 'Betting phase started. Please place your bets.',
+	} }); // Pass gameTable
+	sendTableList(getTableManager()); // Table state is shown in the lobby
+	autosaveTable(gameTable);
+}
+
+/**
+ * Closes betting and deals the round to every player who bet.
+ * @param {GameTable} gameTable - The table, in the Betting phase with at least one bet placed.
+ */
+export function dealRound(gameTable: GameTable) {
+	// Transition state *before* dealing
+	gameTable.gameState = 'Dealing';
+	gameTable.clearPhaseTimer();
+	const { serverSeed, seedCommitment, clientSeeds } = gameTable.prepareShoe(); // Normally done when betting opened
+	broadcast(gameTable, { type: 'gameStateUpdate', payload: { gameState: gameTable.gameState, phaseDeadline: null, seedCommitment, message: 'Dealing cards...' } }); // Pass gameTable
+
+	// Deal cards etc.
+	// A new shoe is shuffled by the committed server seed mixed with every client seed sent while betting was open
+	gameTable.startNewRound(combineRoundSeed(serverSeed, clientSeeds)); // This will shuffle, deal, set dealer hand, and change state further
+	schedulePhaseTimer(gameTable);
+
+	// Broadcast the full updated game state using the helper function
+	sendFullGameState(
+		gameTable, // Pass gameTable
+		undefined, // Broadcast to all
+		gameTable.gameState === 'AceHighPush'
+			? `Dealer has ${gameTable.getVariantRules().dealerPushLabel}! Round is a push.`
+			: gameTable.bankerUsername !== null
+				? `${gameTable.bankerUsername} banks this round. Please set your hand.`
+				: gameTable.isDealerHandHidden()
+					? 'Dealer hand dealt face down. Please set your hand.'
+					: 'Dealer hand set. Please set your hand.'
+	);
+	sendTableList(getTableManager());
+	autosaveTable(gameTable);
+	// Individual player hands were sent within startNewRound
+}
+
+/**
+ * Clears the finished round, passes the bank on and opens betting for the next one.
+ * @param {GameTable} gameTable - The table, in the RoundOver phase.
+ */
+export function startNextRound(gameTable: GameTable) {
+	// --- Reset Player and Dealer State for Next Round ---
+	console.log("Resetting player and dealer states for betting...");
+	gameTable.players.forEach(p => {
+		// Reset round-specific states for ALL players
+		p.currentHand = null;
+		p.setHighHand = null;
+		p.setLowHand = null;
+		p.currentBet = null;
+		p.sideBet = null;
+		p.hasSetHand = false;
+		p.isReadyForNextRound = false; // Reset readiness
+	});
+	gameTable.dealerHand = { // Reset dealer state
+		dealtCards: null,
+		highHand: null,
+		lowHand: null,
+		isAceHighPaiGow: false,
+	};
+	// --- End Reset Logic ---
+
+	// Transition back to Betting state
+	gameTable.gameState = 'Betting';
+	const banker = gameTable.rotateBanker();
+	gameTable.prepareShoe(); // A finished shoe gets a new commitment, sent with the full game state below
+	gameTable.recordTurn();
+	schedulePhaseTimer(gameTable);
+	console.log(`--- New Round Ready. Game state transitioned to: ${gameTable.gameState} ---`);
+
+	// Broadcast the full game state update using the helper function
+	sendFullGameState(
+		gameTable,
+		undefined,
+		banker ? `Place your bets for the next round! ${banker.username} banks this round.` : 'Place your bets for the next round!'
+	); // Pass gameTable
+	sendTableList(getTableManager());
+	autosaveTable(gameTable);
+}
+
+/**
+ * One seat's line in the round result: a player who bet, or the banker.
+ */
+interface SeatResult {
+	playerId: string;
+	username: string | null;
+	outcome: string;
+	betAmount: number | null;
+	sideBet: FortuneBetResult | null; // Fortune side bet result, null without a side bet
+	winnings: number;
+	commission?: number;
+	newBalance: number;
+	playerHighHand: Card[] | null;
+	playerLowHand: Card[] | null;
+	handReports?: { high: HandReport; low: HandReport };
+	error?: string;
+}
+
+/**
+	* Handles the showdown phase: comparing hands, determining outcomes, updating balances.
+	* Note: This function doesn't take ws/playerId/message as it's triggered internally
+	* (by the last player setting their hand, or by the hand-setting timer).
+	* @param {GameTable} gameTable - The table whose round is being resolved.
+	*/
+export function handleShowdown(gameTable: GameTable) {
+	console.log(`--- Starting Showdown for table ${gameTable.id} ---`);
+	gameTable.gameState = 'Showdown'; // Ensure state is correct
+	gameTable.recordTurn();
+
+	const activePlayers = Array.from(gameTable.players.values()).filter(
+		p => p.username && p.currentBet !== null && p.hasSetHand // Players involved in the showdown
+	);
+	const dealer = gameTable.dealerHand;
+	const results: SeatResult[] = []; // Store results for broadcasting
+
+	// --- Player-Banked Round: the banker's set hand stands in for the dealer's ---
+	const banker = gameTable.getBanker();
+	const bankerMissing = gameTable.bankerUsername !== null && !banker?.hasSetHand; // Left the table after the deal
+	if (banker?.hasSetHand) {
+		dealer.highHand = banker.setHighHand;
+		dealer.lowHand = banker.setLowHand;
+	}
+	const bankStart = banker?.dannyBucks ?? 0;
+
+	if (!bankerMissing && (!dealer.highHand || !dealer.lowHand)) {
+		console.error("CRITICAL: Dealer hands are not set during showdown.");
+		gameTable.gameState = 'WaitingForPlayers'; // Reset state
+		gameTable.clearPhaseTimer();
+		broadcast(gameTable, { type: 'error', payload: { message: 'Internal server error: Dealer hand missing during showdown.' } }); // Pass gameTable
+		return;
+	}
+
+	// --- Settle Fortune Side Bets ---
+	// Paid on each player's 7 dealt cards, independently of the main bet (so also on Ace-High pushes)
+	const fortuneEntries = Array.from(gameTable.players.values()).flatMap(p =>
+		p.username && p.currentBet !== null && p.currentHand?.length === 7
+			? [{ playerId: p.id, username: p.username, cards: p.currentHand, sideBet: p.sideBet }]
+			: []
+	);
+	const fortuneResults = resolveFortuneBets(fortuneEntries, gameTable.gameSettings);
+	fortuneResults.forEach((fortune, playerId) => {
+		const player = gameTable.players.get(playerId);
+		if (!player) return; // Every entry came from a seated player
+		player.dannyBucks += fortune.totalReturn;
+		console.log(`Player ${playerId} (${player.username}) Fortune bet ${fortune.betAmount}: ${fortune.hand ?? 'no qualifying hand'}, ${fortune.payout} DB, Envy ${fortune.envyBonus} DB.`);
+	});
+
+	const variant = gameTable.getVariantRules();
+
+	// --- Handle Dealer Push Case (e.g., Ace-High Pai Gow, or the banker left the table) ---
+	if (dealer.isAceHighPaiGow || bankerMissing) {
+		console.log(bankerMissing ? 'Banker left the table; every bet pushes.' : `Processing ${variant.dealerPushLabel} push outcome.`);
+		activePlayers.forEach(player => {
+			const outcome = 'Push';
+			// Return the bet amount
+			player.dannyBucks += player.currentBet ?? 0; // Add bet back
+
+			results.push({
+				playerId: player.id,
+				username: player.username,
+				outcome: outcome,
+				betAmount: player.currentBet,
+				sideBet: fortuneResults.get(player.id) ?? null, // Fortune side bet result, null without a side bet
+				winnings: 0, // No winnings on push
+				newBalance: player.dannyBucks,
+				playerHighHand: player.setHighHand, // Show hands even on push
+				playerLowHand: player.setLowHand,
+			});
+			console.log(`Player ${player.id} (${player.username}): ${outcome} (dealer push). Returned ${player.currentBet} DB. New balance: ${player.dannyBucks}`);
+		});
+	} else if (dealer.highHand && dealer.lowHand) { // Checked above, unless the banker is missing
+		// --- Handle Normal Comparison ---
+		console.log(banker ? `Processing hand comparisons against banker ${banker.username}.` : "Processing normal hand comparisons.");
+
+		// Evaluate dealer (or banker) hands once
+		const dealerHighEval = evaluate5CardHand(dealer.highHand);
+		const dealerLowEval = evaluate2CardHand(dealer.lowHand);
+
+		activePlayers.forEach(player => {
+			if (!player.setHighHand || !player.setLowHand) {
+				console.warn(`Player ${player.id} (${player.username}) reached showdown without set hands. Skipping.`);
+				results.push({
+					playerId: player.id,
+					username: player.username,
+					outcome: 'Error', // Indicate an issue
+					betAmount: player.currentBet,
+					sideBet: fortuneResults.get(player.id) ?? null,
+					winnings: 0,
+					newBalance: player.dannyBucks,
+					playerHighHand: null,
+					playerLowHand: null,
+				});
+				return; // Skip this player
+			}
+
+			const bet = player.currentBet ?? 0; // Everyone in activePlayers has bet
+			try {
+				// Evaluate player hands
+				const playerHighEval = evaluate5CardHand(player.setHighHand);
+				const playerLowEval = evaluate2CardHand(player.setLowHand);
+
+				// Compare hands (Player vs Dealer)
+				const highHandComparison = compareEvaluatedHands(playerHighEval, dealerHighEval); // 1: P > D, -1: P < D, 0: Copy
+				const lowHandComparison = compareEvaluatedHands(playerLowEval, dealerLowEval);   // 1: P > D, -1: P < D, 0: Copy
+
+				// Determine Win/Loss/Push; the variant decides who takes copies and what a win pays
+				const outcome = determineOutcome(highHandComparison, lowHandComparison, variant.copyRule);
+				let winnings = 0;
+				let commission = 0;
+
+				if (outcome === 'Win') {
+					({ winnings, commission } = variant.settleWin(bet, gameTable.gameSettings));
+					player.dannyBucks += bet + winnings; // Original bet back + winnings
+					if (banker) {
+						banker.dannyBucks -= bet; // The banker pays even money; any commission goes to the house
+					}
+				} else if (outcome === 'Loss') {
+					winnings = -bet; // Lost the bet
+					// DB already deducted, no change needed here for loss
+					if (banker) {
+						banker.dannyBucks += bet; // The banker collects the lost bet
+					}
+				} else {
+					player.dannyBucks += bet; // Return original bet
+				}
+
+				results.push({
+					playerId: player.id,
+					username: player.username,
+					outcome: outcome,
+					betAmount: player.currentBet,
+					sideBet: fortuneResults.get(player.id) ?? null,
+					winnings: winnings,
+					commission: commission, // Charged on top of the net winnings above, 0 if none
+					newBalance: player.dannyBucks,
+					playerHighHand: player.setHighHand,
+					playerLowHand: player.setLowHand,
+					handReports: { // Each hand described, with who won it and why
+						high: reportHand(playerHighEval, dealerHighEval, 'high'),
+						low: reportHand(playerLowEval, dealerLowEval, 'low'),
+					},
+				});
+				console.log(`Player ${player.id} (${player.username}): ${outcome}. High: ${highHandComparison > 0 ? 'Win' : 'Lose/Tie'}, Low: ${lowHandComparison > 0 ? 'Win' : 'Lose/Tie'}. Winnings: ${winnings}. Commission: ${commission}. New balance: ${player.dannyBucks}`);
+
+			} catch (evalError) {
+				console.error(`Error comparing hands for player ${player.id}:`, evalError);
+				results.push({
+					playerId: player.id,
+					username: player.username,
+					outcome: 'Error',
+					betAmount: player.currentBet,
+					sideBet: fortuneResults.get(player.id) ?? null,
+					winnings: 0,
+					newBalance: player.dannyBucks,
+					playerHighHand: player.setHighHand,
+					playerLowHand: player.setLowHand,
+					error: `Evaluation/Comparison Error: ${evalError instanceof Error ? evalError.message : String(evalError)}`
+				});
+			}
+		});
+	}
+
+	// --- Banker Result ---
+	if (banker && !bankerMissing) {
+		results.push({
+			playerId: banker.id,
+			username: banker.username,
+			outcome: 'Bank',
+			betAmount: null,
+			sideBet: null,
+			winnings: banker.dannyBucks - bankStart, // Net result of the bank
+			commission: 0,
+			newBalance: banker.dannyBucks,
+			playerHighHand: banker.setHighHand,
+			playerLowHand: banker.setLowHand,
+		});
+		console.log(`Banker ${banker.id} (${banker.username}): ${banker.dannyBucks - bankStart} DB. New balance: ${banker.dannyBucks}`);
+	}
+
+	// --- Reveal the Server Seed ---
+	// Only once the shoe is finished, since the seed gives away every card left in it,
+	// and only if it produced this deal: stepping back can leave a later shuffle's commitment on the table
+	const shoeFinished = gameTable.isShoeFinished();
+	const fairness = gameTable.fairness;
+	const fairnessReveal = shoeFinished && fairness && gameTable.roundSeed === combineRoundSeed(fairness.serverSeed, fairness.clientSeeds)
+		? { serverSeed: fairness.serverSeed, seedCommitment: fairness.seedCommitment, clientSeeds: fairness.clientSeeds, shoe: fairness.shoe }
+		: null;
+	if (shoeFinished) {
+		gameTable.fairness = null; // The next betting phase commits to a new shuffle
+	}
+
+	// --- Broadcast Results ---
+	broadcast(gameTable, { // Pass gameTable
+		type: 'roundResult',
+		payload: {
+			// Set hands mark each Joker with the card it played as (`playsAs`)
+			results: results.map(result => ({
+				...result,
+				playerHighHand: result.playerHighHand && markJokerSubstitutions(result.playerHighHand),
+				playerLowHand: result.playerLowHand && markJokerSubstitutions(result.playerLowHand),
+			})),
+			dealerDealtCards: dealer.dealtCards, // Show what dealer had
+			dealerHighHand: dealer.highHand && markJokerSubstitutions(dealer.highHand),
+			dealerLowHand: dealer.lowHand && markJokerSubstitutions(dealer.lowHand),
+			dealerHandDescriptions: dealer.highHand && dealer.lowHand ? {
+				high: describeHand(evaluate5CardHand(dealer.highHand)),
+				low: describeHand(evaluate2CardHand(dealer.lowHand), 'low'),
+			} : null,
+			isAceHighPaiGow: dealer.isAceHighPaiGow,
+			bankerUsername: gameTable.bankerUsername, // Player who banked the round, null if the dealer did
+			roundSeed: shoeFinished ? gameTable.roundSeed : null, // Deck.fromSeed(roundSeed, shoe) replays the shoe's deals; withheld until it is finished
+			shoeFinished, // False while a multi-deck shoe is dealt on next round
+			fairness: fairnessReveal, // Check with verifyRound(); null until the shoe is finished, or if it was not committed to
+		}
+	});
+	console.log("Round results broadcasted.");
+
+	// --- Reset logic moved to handleReadyForNextRound ---
+
+	// Transition state to indicate round is over, waiting for players to ready up
+	gameTable.gameState = 'RoundOver';
+	gameTable.recordTurn();
+	schedulePhaseTimer(gameTable);
+	broadcast(gameTable, { // Pass gameTable
+		type: 'gameStateUpdate',
+		payload: {
+			gameState: gameTable.gameState,
+			phaseDeadline: gameTable.phaseDeadline,
+			message: 'Round over. Click "Start Next Round" when ready.'
+		}
+	});
+	console.log(`--- Showdown Complete. Game state transitioned to: ${gameTable.gameState} ---`);
+	sendTableList(getTableManager());
+	autosaveTable(gameTable); // Payouts are settled, so this is the save that matters most
+}
\ No newline at end of file
@@ -0,0 +1,120 @@
+import type { PlayerWebSocket } from './types/websocket';
+import type { GameTable } from './models/GameTable';
+import { getTableManager } from './TableManager';
+import { broadcast, sendFullGameState, sendTableList } from './websocketUtils';
+import { DOWNLOADABLE_STATES, createDownloadSnapshot } from './utils/tableSnapshot';
+import { autosaveTable } from './utils/autosave';
+import { schedulePhaseTimer } from './gameFlow';
+
+/**
+ * Resolves the sender's table and checks that the sender is its host.
+ * Sends an error back to the client if they are not seated or not the host.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ * @param {string} action - Description of the attempted action, used in the error message.
+ * @returns {GameTable | undefined} The host's table, or undefined if the sender is not a host.
+ */
+function getHostTable(playerId: string, ws: PlayerWebSocket, action: string): GameTable | undefined {
+	const gameTable = getTableManager().getTableForPlayer(playerId);
+	if (!gameTable) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'You are not seated at a table.' } }));
+		return undefined;
+	}
+	if (gameTable.hostId !== playerId) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Only the host can ${action}.` } }));
+		return undefined;
+	}
+	return gameTable;
+}
+
+/**
+ * Handles the 'saveTable' message: sends the host a versioned JSON snapshot of their table to download.
+ * Only allowed between rounds, since the file would show hidden hands; the shoe is never in it.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleSaveTable(playerId: string, ws: PlayerWebSocket) {
+	const gameTable = getHostTable(playerId, ws, 'save the table');
+	if (!gameTable) return;
+	const phase = gameTable.pausedState ?? gameTable.gameState;
+	if (!DOWNLOADABLE_STATES.includes(phase)) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `The table can only be saved between rounds, not during ${phase}.` } }));
+		return;
+	}
+
+	const snapshot = createDownloadSnapshot(gameTable);
+	const fileName = `pai-gow-${gameTable.id}-${snapshot.savedAt.replace(/[:.]/g, '-')}.json`;
+	console.log(`Host ${playerId} saved table ${gameTable.id}.`);
+
+	ws.send(JSON.stringify({
+		type: 'tableSnapshot',
+		payload: { fileName, snapshot },
+	}));
+}
+
+/**
+ * Handles the 'pauseGame' message: freezes the host's table in its current phase.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handlePauseGame(playerId: string, ws: PlayerWebSocket) {
+	const gameTable = getHostTable(playerId, ws, 'pause the game');
+	if (!gameTable) return;
+
+	if (!gameTable.pause()) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'The game is already paused.' } }));
+		return;
+	}
+	sendFullGameState(gameTable, undefined, 'The host paused the game.');
+	sendTableList(getTableManager());
+}
+
+/**
+ * Handles the 'resumeGame' message: picks the game up in the phase the pause interrupted.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleResumeGame(playerId: string, ws: PlayerWebSocket) {
+	const gameTable = getHostTable(playerId, ws, 'resume the game');
+	if (!gameTable) return;
+
+	if (!gameTable.resume()) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'The game is not paused.' } }));
+		return;
+	}
+	// Give the phase back the time it had left, with a moment to get going again
+	const timeLeftMs = gameTable.pausedTimeLeftMs;
+	gameTable.pausedTimeLeftMs = null;
+	schedulePhaseTimer(gameTable, timeLeftMs !== null ? Math.max(timeLeftMs, 1000) : undefined);
+	sendFullGameState(gameTable, undefined, 'The host resumed the game.');
+	sendTableList(getTableManager());
+}
+
+/**
+ * Handles the 'stepBack' message: rewinds the host's table to the previous phase
+ * and sends everyone the restored state, their hand and their balance.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleStepBack(playerId: string, ws: PlayerWebSocket) {
+	const gameTable = getHostTable(playerId, ws, 'step back');
+	if (!gameTable) return;
+
+	const restoredState = gameTable.stepBack();
+	if (!restoredState) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'There is no earlier phase to step back to.' } }));
+		return;
+	}
+	schedulePhaseTimer(gameTable); // The restored phase gets its full time (no-op while paused)
+
+	// Clients drop anything from the undone phases (results, dealer cards) before the restored state arrives
+	broadcast(gameTable, { type: 'tableRewound', payload: { gameState: restoredState } });
+	sendFullGameState(gameTable, undefined, `The host stepped back to the ${restoredState} phase.`);
+	gameTable.players.forEach((player) => {
+		if (player.ws.readyState !== player.ws.OPEN) return;
+		player.ws.send(JSON.stringify({ type: 'dealHand', payload: { hand: player.currentHand } }));
+		player.ws.send(JSON.stringify({ type: 'balanceUpdate', payload: { dannyBucks: player.dannyBucks } }));
+	});
+	sendTableList(getTableManager());
+	autosaveTable(gameTable);
+}
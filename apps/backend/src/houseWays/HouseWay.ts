@@ -0,0 +1,88 @@
+import type { Card } from '../models/Card';
+import { compareEvaluatedHands, evaluate2CardHand, evaluate5CardHand, getRankValue } from '../utils/handEvaluator';
+import type { SetHand } from '../utils/houseWay';
+
+/**
+ * A named strategy for setting 7 cards into a 5-card high hand and a 2-card low hand.
+ */
+export interface HouseWay {
+	id: string; // Value of GameSettings.houseWay
+	label: string; // Name shown to players
+	/**
+	 * Sets a hand following the house way's rules.
+	 * @param {Card[]} sevenCards - The 7 cards to set.
+	 * @returns {SetHand | null} The split, or null if no rule covers the hand (the caller falls back to maximize-low).
+	 */
+	setHand(sevenCards: Card[]): SetHand | null;
+}
+
+/**
+ * The 7 cards sorted into rank groups, the way house way rules talk about them.
+ * The Joker counts as an Ace here; rules that use it to complete a straight or flush look at the cards directly.
+ */
+export interface HandAnalysis {
+	cards: Card[];
+	fiveAces: Card[] | null; // Four Aces plus the Joker
+	quads: Card[][]; // Highest first, as are all groups below
+	trips: Card[][];
+	pairs: Card[][];
+	singles: Card[];
+}
+
+/**
+ * Works out the value of a rank group, counting the Joker as an Ace.
+ * @param {Card[]} group - Cards of one rank, possibly including the Joker.
+ * @returns {number} The group's rank value (2-14).
+ */
+export function groupValue(group: Card[]): number {
+	const natural = group.find(card => card.rank !== 'Joker');
+	return natural ? getRankValue(natural.rank) : getRankValue('A');
+}
+
+/**
+ * Sorts 7 cards into rank groups.
+ * @param {Card[]} sevenCards - The cards to analyze.
+ * @returns {HandAnalysis} The cards grouped by rank.
+ */
+export function analyzeHand(sevenCards: Card[]): HandAnalysis {
+	const byValue = new Map<number, Card[]>();
+	for (const card of sevenCards) {
+		const value = card.rank === 'Joker' ? getRankValue('A') : getRankValue(card.rank);
+		byValue.set(value, [...(byValue.get(value) ?? []), card]);
+	}
+	// Natural cards come first in each group, so rules that take part of a group leave the Joker in the high hand
+	const groups = [...byValue.values()]
+		.map(group => [...group].sort((a, b) => Number(a.rank === 'Joker') - Number(b.rank === 'Joker')))
+		.sort((a, b) => groupValue(b) - groupValue(a));
+
+	return {
+		cards: sevenCards,
+		fiveAces: groups.find(group => group.length === 5) ?? null,
+		quads: groups.filter(group => group.length === 4),
+		trips: groups.filter(group => group.length === 3),
+		pairs: groups.filter(group => group.length === 2),
+		singles: groups.filter(group => group.length === 1).map(group => group[0]),
+	};
+}
+
+/**
+ * Builds a split from the cards that go in the low hand; every other card goes in the high hand.
+ * @param {Card[]} sevenCards - All 7 cards.
+ * @param {Card[]} lowHand - The 2 cards for the low hand.
+ * @returns {SetHand} The split.
+ */
+export function splitWithLow(sevenCards: Card[], lowHand: Card[]): SetHand {
+	return { highHand: sevenCards.filter(card => !lowHand.includes(card)), lowHand };
+}
+
+/**
+ * Checks the fundamental Pai Gow rule for a split: the high hand must outrank the low hand.
+ * @param {SetHand} split - The split to check.
+ * @returns {boolean} True if the split may be played.
+ */
+export function isValidSplit(split: SetHand): boolean {
+	if (split.highHand.length !== 5 || split.lowHand.length !== 2) {
+		return false;
+	}
+	return compareEvaluatedHands(evaluate5CardHand(split.highHand), evaluate2CardHand(split.lowHand)) > 0;
+}
@@ -0,0 +1,153 @@
+import type { Card } from '../models/Card';
+import { compareEvaluatedHands, evaluate2CardHand, evaluate5CardHand, HAND_RANK } from '../utils/handEvaluator';
+import { getAllValidSplits, type SetHand } from '../utils/houseWay';
+import { analyzeHand, groupValue, isValidSplit, splitWithLow, type HandAnalysis } from './HouseWay';
+
+/**
+ * The decisions in which published casino house ways differ. Everything else is shared by every casino way.
+ * Rank values run from 2 to 14 (Ace); the Joker counts as an Ace.
+ */
+export interface CasinoRuleOptions {
+	/**
+	 * Decides whether two pair (no Aces) stay together in the high hand, with the top singles in the low hand.
+	 * @param {number} highPair - Value of the higher pair.
+	 * @param {number} lowPair - Value of the lower pair.
+	 * @param {number | null} topSingle - Value of the highest single card, null if there is none.
+	 * @returns {boolean} True to keep both pairs high, false to split them.
+	 */
+	keepTwoPairTogether(highPair: number, lowPair: number, topSingle: number | null): boolean;
+	/**
+	 * Decides whether Four of a Kind (with no other pair) stays together in the high hand.
+	 * @param {number} quadValue - Value of the Four of a Kind.
+	 * @param {number | null} topSingle - Value of the highest single card.
+	 * @returns {boolean} True to keep the four together, false to split them into two pairs.
+	 */
+	keepQuadsTogether(quadValue: number, topSingle: number | null): boolean;
+	/**
+	 * Decides whether a full house stays together in the high hand, with the two singles in the low hand.
+	 * @param {number} tripsValue - Value of the Three of a Kind.
+	 * @param {number} pairValue - Value of the pair.
+	 * @param {number[]} singles - Values of the two single cards, highest first.
+	 * @returns {boolean} True to keep the full house, false to play the pair low.
+	 */
+	keepFullHouseTogether(tripsValue: number, pairValue: number, singles: number[]): boolean;
+	straightOverTwoPair: boolean; // Play a straight or flush over two pair
+	straightOverTrips: boolean; // Play a straight or flush over Three of a Kind (a pair from the trips goes low)
+}
+
+const STRAIGHT_OR_FLUSH_RANKS: number[] = [HAND_RANK.STRAIGHT, HAND_RANK.FLUSH, HAND_RANK.STRAIGHT_FLUSH, HAND_RANK.ROYAL_FLUSH];
+
+/**
+ * Finds the split that keeps a straight or flush in the high hand with the strongest low hand.
+ * @param {Card[]} sevenCards - The 7 cards.
+ * @returns {SetHand | null} The split, or null if the cards hold no straight or flush.
+ */
+export function bestStraightOrFlushSplit(sevenCards: Card[]): SetHand | null {
+	const candidates = getAllValidSplits(sevenCards)
+		.map(split => ({ split, highEval: evaluate5CardHand(split.highHand), lowEval: evaluate2CardHand(split.lowHand) }))
+		.filter(candidate => STRAIGHT_OR_FLUSH_RANKS.includes(candidate.highEval.rank));
+	if (candidates.length === 0) {
+		return null;
+	}
+	candidates.sort((a, b) => compareEvaluatedHands(b.lowEval, a.lowEval) || compareEvaluatedHands(b.highEval, a.highEval));
+	return candidates[0].split;
+}
+
+/**
+ * Applies the casino rules to a hand, from the strongest holding down.
+ * @param {HandAnalysis} hand - The analyzed cards.
+ * @param {CasinoRuleOptions} options - The house way's choices.
+ * @returns {SetHand} The split the rules call for.
+ */
+function chooseSplit(hand: HandAnalysis, options: CasinoRuleOptions): SetHand {
+	const { cards, fiveAces, quads, trips, pairs, singles } = hand;
+	const singleValues = singles.map(card => groupValue([card]));
+	const topSingle = singleValues[0] ?? null;
+	const topTwoSingles = singles.slice(0, 2);
+
+	// Five Aces: three Aces high, a pair of Aces low
+	if (fiveAces) {
+		return splitWithLow(cards, fiveAces.slice(0, 2));
+	}
+
+	// Four of a Kind: another pair (or a pair out of trips) goes low; otherwise keep together or split by rank
+	if (quads.length > 0) {
+		if (trips.length > 0) {
+			return splitWithLow(cards, trips[0].slice(0, 2));
+		}
+		if (pairs.length > 0) {
+			return splitWithLow(cards, pairs[0]);
+		}
+		return options.keepQuadsTogether(groupValue(quads[0]), topSingle)
+			? splitWithLow(cards, topTwoSingles)
+			: splitWithLow(cards, quads[0].slice(0, 2));
+	}
+
+	// Two Three of a Kinds: a pair from the higher one goes low
+	if (trips.length >= 2) {
+		return splitWithLow(cards, trips[0].slice(0, 2));
+	}
+
+	// Full house: the highest pair goes low, unless the house way keeps this full house together
+	if (trips.length === 1 && pairs.length > 0) {
+		if (pairs.length === 1 && options.keepFullHouseTogether(groupValue(trips[0]), groupValue(pairs[0]), singleValues)) {
+			return splitWithLow(cards, topTwoSingles);
+		}
+		return splitWithLow(cards, pairs[0]);
+	}
+
+	// Straights and flushes: kept with the strongest low hand, unless trips or two pair take priority
+	const straightSplit = bestStraightOrFlushSplit(cards);
+	if (straightSplit) {
+		if (trips.length === 1) {
+			if (options.straightOverTrips) return straightSplit;
+		} else if (pairs.length >= 2) {
+			if (options.straightOverTwoPair) return straightSplit;
+		} else {
+			return straightSplit;
+		}
+	}
+
+	// Three of a Kind: kept high, except three Aces, which put one Ace low with the top single
+	if (trips.length === 1) {
+		return groupValue(trips[0]) === 14
+			? splitWithLow(cards, [trips[0][0], singles[0]])
+			: splitWithLow(cards, topTwoSingles);
+	}
+
+	// Three pair: the highest pair goes low
+	if (pairs.length >= 3) {
+		return splitWithLow(cards, pairs[0]);
+	}
+
+	// Two pair: always split Aces and any pair; otherwise the house way decides by rank class
+	if (pairs.length === 2) {
+		const [highPair, lowPair] = pairs;
+		if (groupValue(highPair) !== 14 && options.keepTwoPairTogether(groupValue(highPair), groupValue(lowPair), topSingle)) {
+			return splitWithLow(cards, topTwoSingles);
+		}
+		return splitWithLow(cards, lowPair);
+	}
+
+	// One pair: the pair stays high, the top two singles go low
+	if (pairs.length === 1) {
+		return splitWithLow(cards, topTwoSingles);
+	}
+
+	// No pair: the highest card stays high, the next two go low
+	return splitWithLow(cards, singles.slice(1, 3));
+}
+
+/**
+ * Sets a hand by the rule-by-rule casino house way described by the options.
+ * @param {Card[]} sevenCards - The 7 cards to set.
+ * @param {CasinoRuleOptions} options - The house way's choices.
+ * @returns {SetHand | null} The split, or null if the rules produce a split that is not allowed.
+ */
+export function setHandByCasinoRules(sevenCards: Card[], options: CasinoRuleOptions): SetHand | null {
+	if (sevenCards.length !== 7) {
+		throw new Error('A house way requires exactly 7 cards.');
+	}
+	const split = chooseSplit(analyzeHand(sevenCards), options);
+	return isValidSplit(split) ? split : null;
+}
@@ -0,0 +1,19 @@
+import { setHandByCasinoRules } from './casinoRules';
+import type { HouseWay } from './HouseWay';
+
+/**
+ * The house way of commission-free casino tables. Two pair (no Aces, no pair above 10s) stay together
+ * only with an Ace single; Four of a Kind stays together up to 6s; full houses are always split.
+ * A straight or flush is played over Three of a Kind and over two pair.
+ */
+export const commissionFreeCasinoHouseWay: HouseWay = {
+	id: 'CommissionFreeCasino',
+	label: 'Commission-Free Casino',
+	setHand: (sevenCards) => setHandByCasinoRules(sevenCards, {
+		keepTwoPairTogether: (highPair, _lowPair, topSingle) => highPair <= 10 && topSingle === 14,
+		keepQuadsTogether: (quadValue) => quadValue <= 6,
+		keepFullHouseTogether: () => false,
+		straightOverTwoPair: true,
+		straightOverTrips: true,
+	}),
+};
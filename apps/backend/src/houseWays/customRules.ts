@@ -0,0 +1,343 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Card } from '../models/Card';
+import { getRankValue } from '../utils/handEvaluator';
+import { setDealerHandHouseWay, type SetHand } from '../utils/houseWay';
+import { bestStraightOrFlushSplit } from './casinoRules';
+import { analyzeHand, groupValue, isValidSplit, splitWithLow, type HandAnalysis, type HouseWay } from './HouseWay';
+import { registerHouseWay } from './registry';
+
+/**
+ * Directory the custom house way files (*.json) are loaded from when the server starts.
+ */
+export const HOUSE_WAYS_DIR = process.env.HOUSE_WAYS_DIR || path.join(process.cwd(), 'houseWays');
+
+/**
+ * Hand patterns a rule can be keyed by, named after the rank groups in the 7 cards (the Joker counts as an Ace).
+ */
+export const HAND_PATTERNS = [
+	'NoPair',
+	'OnePair',
+	'TwoPair',
+	'ThreePair',
+	'ThreeOfAKind',
+	'TwoThreeOfAKind',
+	'FullHouse',
+	'FourOfAKind',
+	'FiveAces',
+] as const;
+export type HandPattern = (typeof HAND_PATTERNS)[number];
+
+/**
+ * Split actions, each naming the cards that go in the low hand.
+ */
+export const SPLIT_ACTIONS = [
+	'TopSingles', // The two highest unpaired cards
+	'NextTwoSingles', // The second and third highest unpaired cards (the top card stays high)
+	'HighPair', // The highest pair
+	'LowPair', // The lowest of two or more pairs
+	'PairFromTrips', // Two cards of the highest Three of a Kind
+	'TripsCardAndTopSingle', // One card of the Three of a Kind with the highest unpaired card
+	'PairFromQuads', // Two cards of the Four of a Kind
+	'PairFromFiveAces', // Two of the five Aces
+	'StraightOrFlush', // Keep a straight or flush high with the strongest low hand left over
+	'MaximizeLow', // The strongest possible low hand
+] as const;
+export type SplitAction = (typeof SPLIT_ACTIONS)[number];
+
+const RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+const CONDITION_KEYS = ['hand', 'highPair', 'lowPair', 'trips', 'quads', 'topSingle', 'straightOrFlush', 'joker'];
+const RANGE_CONDITIONS = ['highPair', 'lowPair', 'trips', 'quads', 'topSingle'] as const;
+
+/**
+ * An inclusive range of rank values (2-14). In the JSON file it is written as a rank ("A")
+ * or as { "min": "J", "max": "K" } with either end optional.
+ */
+export interface RankRange {
+	min: number;
+	max: number;
+}
+
+/**
+ * The hand pattern a rule applies to. Every listed condition must hold; conditions left out always hold.
+ */
+export interface RuleCondition {
+	hand?: HandPattern[]; // Any of these patterns
+	highPair?: RankRange; // The highest pair
+	lowPair?: RankRange; // The lowest pair
+	trips?: RankRange; // The highest Three of a Kind
+	quads?: RankRange; // The Four of a Kind
+	topSingle?: RankRange; // The highest unpaired card
+	straightOrFlush?: boolean; // Whether the 7 cards hold a straight or flush
+	joker?: boolean; // Whether the Joker is among the 7 cards
+}
+
+/**
+ * One rule of a custom house way: when the hand matches, set it by the split action.
+ */
+export interface HouseWayRule {
+	name: string; // Plain-language summary, e.g. "Two pair J-K with an Ace: Ace low"
+	when: RuleCondition;
+	split: SplitAction;
+}
+
+/**
+ * A validated custom house way file.
+ */
+export interface HouseWayRuleSet {
+	id: string; // Value of GameSettings.houseWay
+	label: string; // Name shown to players
+	rules: HouseWayRule[]; // Tried in order; the first that matches and gives a valid split wins
+}
+
+/**
+ * Reads a rank range condition.
+ * @param {unknown} value - The raw condition.
+ * @param {string} field - Name of the field, used in error messages.
+ * @returns {RankRange} The validated range.
+ */
+function parseRankRange(value: unknown, field: string): RankRange {
+	if (typeof value === 'string') {
+		if (!RANKS.includes(value)) {
+			throw new Error(`Invalid house way rules: '${field}' must be a rank (2-10, J, Q, K, A).`);
+		}
+		return { min: getRankValue(value), max: getRankValue(value) };
+	}
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw new Error(`Invalid house way rules: '${field}' must be a rank or { "min", "max" }.`);
+	}
+	const raw = value as Record<string, unknown>;
+	const unknownKey = Object.keys(raw).find(key => key !== 'min' && key !== 'max');
+	if (unknownKey) {
+		throw new Error(`Invalid house way rules: '${field}.${unknownKey}' is not a range bound.`);
+	}
+	for (const bound of ['min', 'max']) {
+		if (raw[bound] !== undefined && !RANKS.includes(raw[bound] as string)) {
+			throw new Error(`Invalid house way rules: '${field}.${bound}' must be a rank (2-10, J, Q, K, A).`);
+		}
+	}
+	const range = {
+		min: raw.min === undefined ? 2 : getRankValue(raw.min as string),
+		max: raw.max === undefined ? 14 : getRankValue(raw.max as string),
+	};
+	if (range.min > range.max) {
+		throw new Error(`Invalid house way rules: '${field}.min' is above '${field}.max'.`);
+	}
+	return range;
+}
+
+/**
+ * Validates the hand pattern of one rule.
+ * @param {unknown} value - The raw "when" object.
+ * @param {string} field - Name of the field, used in error messages.
+ * @returns {RuleCondition} The validated condition.
+ */
+function parseCondition(value: unknown, field: string): RuleCondition {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw new Error(`Invalid house way rules: '${field}' must be an object.`);
+	}
+	const raw = value as Record<string, unknown>;
+	const unknownKey = Object.keys(raw).find(key => !CONDITION_KEYS.includes(key));
+	if (unknownKey) {
+		throw new Error(`Invalid house way rules: '${field}.${unknownKey}' is not a condition. Use ${CONDITION_KEYS.join(', ')}.`);
+	}
+
+	const condition: RuleCondition = {};
+	if (raw.hand !== undefined) {
+		const hands = Array.isArray(raw.hand) ? raw.hand : [raw.hand];
+		if (hands.length === 0 || hands.some(hand => !HAND_PATTERNS.includes(hand))) {
+			throw new Error(`Invalid house way rules: '${field}.hand' must be one or more of ${HAND_PATTERNS.join(', ')}.`);
+		}
+		condition.hand = hands;
+	}
+	for (const key of RANGE_CONDITIONS) {
+		if (raw[key] !== undefined) {
+			condition[key] = parseRankRange(raw[key], `${field}.${key}`);
+		}
+	}
+	for (const key of ['straightOrFlush', 'joker'] as const) {
+		if (raw[key] !== undefined) {
+			if (typeof raw[key] !== 'boolean') {
+				throw new Error(`Invalid house way rules: '${field}.${key}' must be true or false.`);
+			}
+			condition[key] = raw[key];
+		}
+	}
+	return condition;
+}
+
+/**
+ * Validates untrusted data (e.g., a house way file) as a custom house way.
+ * @param {unknown} data - The parsed JSON.
+ * @returns {HouseWayRuleSet} The validated rules.
+ * @throws {Error} If the data is not a valid house way.
+ */
+export function parseHouseWayRules(data: unknown): HouseWayRuleSet {
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		throw new Error('Invalid house way rules: expected a JSON object.');
+	}
+	const raw = data as Record<string, unknown>;
+
+	if (typeof raw.id !== 'string' || !/^[A-Za-z][A-Za-z0-9]*$/.test(raw.id)) {
+		throw new Error("Invalid house way rules: 'id' must be letters and digits, starting with a letter.");
+	}
+	if (typeof raw.label !== 'string' || raw.label.trim().length === 0) {
+		throw new Error("Invalid house way rules: 'label' must be a non-empty string.");
+	}
+	if (!Array.isArray(raw.rules) || raw.rules.length === 0) {
+		throw new Error("Invalid house way rules: 'rules' must be a non-empty array.");
+	}
+
+	const rules = raw.rules.map((value: unknown, index: number): HouseWayRule => {
+		const field = `rules[${index}]`;
+		if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+			throw new Error(`Invalid house way rules: '${field}' must be an object.`);
+		}
+		const rule = value as Record<string, unknown>;
+		if (typeof rule.name !== 'string' || rule.name.trim().length === 0) {
+			throw new Error(`Invalid house way rules: '${field}.name' must be a non-empty string.`);
+		}
+		const split = rule.split as SplitAction;
+		if (!SPLIT_ACTIONS.includes(split)) {
+			throw new Error(`Invalid house way rules: '${field}.split' must be one of ${SPLIT_ACTIONS.join(', ')}.`);
+		}
+		return { name: rule.name, when: parseCondition(rule.when, `${field}.when`), split };
+	});
+
+	return { id: raw.id, label: raw.label, rules };
+}
+
+/**
+ * Names the rank-group pattern of an analyzed hand.
+ * @param {HandAnalysis} hand - The analyzed cards.
+ * @returns {HandPattern} The pattern rules are keyed by.
+ */
+function getHandPattern(hand: HandAnalysis): HandPattern {
+	if (hand.fiveAces) return 'FiveAces';
+	if (hand.quads.length > 0) return 'FourOfAKind';
+	if (hand.trips.length >= 2) return 'TwoThreeOfAKind';
+	if (hand.trips.length === 1) return hand.pairs.length > 0 ? 'FullHouse' : 'ThreeOfAKind';
+	if (hand.pairs.length >= 3) return 'ThreePair';
+	if (hand.pairs.length === 2) return 'TwoPair';
+	if (hand.pairs.length === 1) return 'OnePair';
+	return 'NoPair';
+}
+
+/**
+ * Checks a rank group against a range condition. A missing group never matches a range.
+ * @param {Card[] | undefined} group - The rank group, if the hand has one.
+ * @param {RankRange} [range] - The condition, if the rule sets one.
+ * @returns {boolean} True if the condition holds.
+ */
+function groupInRange(group: Card[] | undefined, range?: RankRange): boolean {
+	if (!range) return true;
+	if (!group) return false;
+	const value = groupValue(group);
+	return value >= range.min && value <= range.max;
+}
+
+/**
+ * Checks whether a hand matches a rule's pattern.
+ * @param {HandAnalysis} hand - The analyzed cards.
+ * @param {RuleCondition} condition - The rule's pattern.
+ * @returns {boolean} True if every condition holds.
+ */
+function matchesCondition(hand: HandAnalysis, condition: RuleCondition): boolean {
+	if (condition.hand && !condition.hand.includes(getHandPattern(hand))) return false;
+	if (!groupInRange(hand.pairs[0], condition.highPair)) return false;
+	if (!groupInRange(hand.pairs[hand.pairs.length - 1], condition.lowPair)) return false;
+	if (!groupInRange(hand.trips[0], condition.trips)) return false;
+	if (!groupInRange(hand.quads[0], condition.quads)) return false;
+	if (!groupInRange(hand.singles.length > 0 ? [hand.singles[0]] : undefined, condition.topSingle)) return false;
+	if (condition.straightOrFlush !== undefined && (bestStraightOrFlushSplit(hand.cards) !== null) !== condition.straightOrFlush) return false;
+	if (condition.joker !== undefined && hand.cards.some(card => card.rank === 'Joker') !== condition.joker) return false;
+	return true;
+}
+
+/**
+ * Carries out a split action.
+ * @param {HandAnalysis} hand - The analyzed cards.
+ * @param {SplitAction} action - The rule's split action.
+ * @returns {SetHand | null} The split, or null if the hand lacks the cards the action names.
+ */
+function applySplitAction(hand: HandAnalysis, action: SplitAction): SetHand | null {
+	const { cards, fiveAces, quads, trips, pairs, singles } = hand;
+	switch (action) {
+		case 'TopSingles':
+			return singles.length >= 2 ? splitWithLow(cards, singles.slice(0, 2)) : null;
+		case 'NextTwoSingles':
+			return singles.length >= 3 ? splitWithLow(cards, singles.slice(1, 3)) : null;
+		case 'HighPair':
+			return pairs.length >= 1 ? splitWithLow(cards, pairs[0]) : null;
+		case 'LowPair':
+			return pairs.length >= 2 ? splitWithLow(cards, pairs[pairs.length - 1]) : null;
+		case 'PairFromTrips':
+			return trips.length >= 1 ? splitWithLow(cards, trips[0].slice(0, 2)) : null;
+		case 'TripsCardAndTopSingle':
+			return trips.length >= 1 && singles.length >= 1 ? splitWithLow(cards, [trips[0][0], singles[0]]) : null;
+		case 'PairFromQuads':
+			return quads.length >= 1 ? splitWithLow(cards, quads[0].slice(0, 2)) : null;
+		case 'PairFromFiveAces':
+			return fiveAces ? splitWithLow(cards, fiveAces.slice(0, 2)) : null;
+		case 'StraightOrFlush':
+			return bestStraightOrFlushSplit(cards);
+		case 'MaximizeLow':
+			return setDealerHandHouseWay(cards);
+	}
+}
+
+/**
+ * Turns validated rules into a house way. Rules are tried in order; a rule whose split action
+ * does not fit the hand, or would put a stronger hand low than high, is passed over.
+ * When no rule applies, the house way returns null and the caller falls back to maximize-low.
+ * @param {HouseWayRuleSet} ruleSet - The validated rules.
+ * @returns {HouseWay} The house way.
+ */
+export function createRuleHouseWay(ruleSet: HouseWayRuleSet): HouseWay {
+	return {
+		id: ruleSet.id,
+		label: ruleSet.label,
+		setHand: (sevenCards) => {
+			if (sevenCards.length !== 7) {
+				throw new Error('A house way requires exactly 7 cards.');
+			}
+			const hand = analyzeHand(sevenCards);
+			for (const rule of ruleSet.rules) {
+				if (!matchesCondition(hand, rule.when)) continue;
+				const split = applySplitAction(hand, rule.split);
+				if (split && isValidSplit(split)) {
+					return split;
+				}
+			}
+			return null;
+		},
+	};
+}
+
+/**
+ * Loads and registers every custom house way file in a directory, e.g. when the server starts.
+ * Files that cannot be read, fail validation or reuse a registered id are skipped with an error in the log.
+ * @param {string} [dir] - The house way directory.
+ * @returns {HouseWay[]} The registered house ways.
+ */
+export function loadHouseWayFiles(dir: string = HOUSE_WAYS_DIR): HouseWay[] {
+	if (!fs.existsSync(dir)) {
+		return [];
+	}
+
+	const loaded: HouseWay[] = [];
+	fs.readdirSync(dir)
+		.filter((fileName) => fileName.endsWith('.json'))
+		.sort()
+		.forEach((fileName) => {
+			try {
+				const houseWay = createRuleHouseWay(parseHouseWayRules(JSON.parse(fs.readFileSync(path.join(dir, fileName), 'utf8'))));
+				registerHouseWay(houseWay);
+				loaded.push(houseWay);
+				console.log(`Loaded house way ${houseWay.id} from ${fileName}.`);
+			} catch (error) {
+				console.error(`Skipping house way file ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		});
+	return loaded;
+}
@@ -0,0 +1,24 @@
+import { setHandByCasinoRules } from './casinoRules';
+import type { HouseWay } from './HouseWay';
+
+/**
+ * The standard Las Vegas house way. Two pair are split by rank class:
+ * low pairs (2-6) stay together with a King or Ace single, medium pairs (7-10) only with an Ace single,
+ * and high pairs (J-K) are always split. Four of a Kind stays together up to 6s, and 7s-10s with an Ace single.
+ * A full house with a pair of 2s stays together when an Ace and a King can go low.
+ */
+export const lasVegasHouseWay: HouseWay = {
+	id: 'LasVegas',
+	label: 'Las Vegas',
+	setHand: (sevenCards) => setHandByCasinoRules(sevenCards, {
+		keepTwoPairTogether: (highPair, _lowPair, topSingle) => {
+			if (highPair >= 11) return false;
+			if (highPair <= 6) return topSingle !== null && topSingle >= 13;
+			return topSingle === 14;
+		},
+		keepQuadsTogether: (quadValue, topSingle) => quadValue <= 6 || (quadValue <= 10 && topSingle === 14),
+		keepFullHouseTogether: (_tripsValue, pairValue, singles) => pairValue === 2 && singles[0] === 14 && singles[1] === 13,
+		straightOverTwoPair: false,
+		straightOverTrips: false,
+	}),
+};
@@ -0,0 +1,12 @@
+import { setDealerHandHouseWay } from '../utils/houseWay';
+import type { HouseWay } from './HouseWay';
+
+/**
+ * Plays the strongest possible low hand, breaking ties with the strongest high hand.
+ * Simple and never invalid, but not how casinos set hands.
+ */
+export const maximizeLowHouseWay: HouseWay = {
+	id: 'MaximizeLow',
+	label: 'Maximize Low Hand',
+	setHand: (sevenCards) => setDealerHandHouseWay(sevenCards),
+};
@@ -0,0 +1,65 @@
+import type { Card } from '../models/Card';
+import { setDealerHandHouseWay, type SetHand } from '../utils/houseWay';
+import { commissionFreeCasinoHouseWay } from './commissionFreeCasino';
+import type { HouseWay } from './HouseWay';
+import { lasVegasHouseWay } from './lasVegas';
+import { maximizeLowHouseWay } from './maximizeLow';
+
+/**
+ * Every house way a table can be created with, keyed by id. Custom house ways are added when the server starts.
+ */
+const HOUSE_WAYS = new Map<string, HouseWay>(
+	[maximizeLowHouseWay, lasVegasHouseWay, commissionFreeCasinoHouseWay].map((houseWay) => [houseWay.id, houseWay])
+);
+
+/**
+ * Lists the ids of all registered house ways.
+ * @returns {string[]} The ids accepted in GameSettings.houseWay.
+ */
+export function getHouseWayIds(): string[] {
+	return [...HOUSE_WAYS.keys()];
+}
+
+/**
+ * Adds a house way, e.g. one loaded from a custom rules file.
+ * @param {HouseWay} houseWay - The house way to add.
+ * @throws {Error} If a house way is already registered under its id.
+ */
+export function registerHouseWay(houseWay: HouseWay): void {
+	if (HOUSE_WAYS.has(houseWay.id)) {
+		throw new Error(`A house way is already registered as '${houseWay.id}'.`);
+	}
+	HOUSE_WAYS.set(houseWay.id, houseWay);
+}
+
+/**
+ * Lists every registered house way for the lobby.
+ * @returns {{ id: string; label: string }[]} The id and label of each house way.
+ */
+export function getHouseWayOptions(): { id: string; label: string }[] {
+	return [...HOUSE_WAYS.values()].map(({ id, label }) => ({ id, label }));
+}
+
+/**
+ * Looks up a house way by id.
+ * @param {string} id - The house way id from the table settings.
+ * @returns {HouseWay} The house way.
+ * @throws {Error} If no house way is registered under the id.
+ */
+export function getHouseWay(id: string): HouseWay {
+	const houseWay = HOUSE_WAYS.get(id);
+	if (!houseWay) {
+		throw new Error(`Unknown house way '${id}'.`);
+	}
+	return houseWay;
+}
+
+/**
+ * Sets 7 cards using a named house way, falling back to maximize-low when its rules do not cover the hand.
+ * @param {Card[]} sevenCards - The 7 cards to set.
+ * @param {string} houseWayId - The house way from the table settings.
+ * @returns {SetHand} The split.
+ */
+export function setHandHouseWay(sevenCards: Card[], houseWayId: string): SetHand {
+	return getHouseWay(houseWayId).setHand(sevenCards) ?? setDealerHandHouseWay(sevenCards);
+}
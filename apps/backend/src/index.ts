@@ -1,26 +1,49 @@
 import express from 'express';
 import expressWs from 'express-ws';
 import { WebSocket } from 'ws'; // Import WebSocket type if needed for type hints
-import { randomUUID } from 'crypto'; // For generating unique IDs
+import { randomUUID } from 'node:crypto'; // For generating unique IDs
 import { Player } from './models/Player'; // Import Player model
-import { WebSocketMessage } from './types/messages'; // Import WebSocket message interface
+import type { WebSocketMessage } from './types/messages'; // Import WebSocket message interface
 import {
   handleSetUsername,
   handleStartGame,
   handlePlaceBet,
+  handleWithdrawBet,
+  handleAddClientSeed,
   handleSetPlayerHand,
+  handleSetHandHouseWay,
+  handleRequestSplitAnalysis,
   handleRequestPlayerList,
   handleReadyForNextRound
 } from './messageHandlers'; // Import handlers
-import { broadcast } from './websocketUtils'; // Import broadcast utility
-import { PlayerWebSocket } from './types/websocket'; // Import our extended type
-import { getGameTable } from './GameManager'; // Import the getter function
+import {
+  handleListTables,
+  handleCreateTable,
+  handleJoinTable,
+  handleLeaveTable,
+  handleLoadTable
+} from './lobbyHandlers'; // Import lobby handlers
+import { handleSaveTable, handleStepBack, handlePauseGame, handleResumeGame } from './hostHandlers'; // Import host-only handlers
+import { broadcast, broadcastPlayerList, sendTableList } from './websocketUtils'; // Import broadcast utilities
+import type { PlayerWebSocket } from './types/websocket'; // Import our extended type
+import { getTableManager } from './TableManager'; // Import the getter function
+import { autosaveAllTables, restoreAutosavedTables, startAutosaveTimer, AUTOSAVE_DIR } from './utils/autosave'; // Crash recovery
+import { loadHouseWayFiles, HOUSE_WAYS_DIR } from './houseWays/customRules'; // Host-authored house ways
 
 const app = express();
 const { app: wsApp } = expressWs(app); // Apply express-ws to the app and get the modified app instance
 
 const PORT = process.env.PORT || 8080; // Use environment variable or default to 8080
 
+// Load the custom house ways first: restored tables may be set by one of them
+const customHouseWays = loadHouseWayFiles();
+console.log(`Loaded ${customHouseWays.length} custom house way(s) from ${HOUSE_WAYS_DIR}.`);
+
+// Bring back the tables that were running before a restart or crash, then keep saving them
+const restoredTables = restoreAutosavedTables(getTableManager());
+console.log(`Restored ${restoredTables.length} table(s) from ${AUTOSAVE_DIR}.`);
+startAutosaveTimer(getTableManager());
+
 // Basic root route
 wsApp.get('/', (req: express.Request, res: express.Response) => {
   res.send('Server running');
@@ -33,12 +56,9 @@ wsApp.ws('/ws', (ws: PlayerWebSocket, req: express.Request) => {
   ws.playerId = playerId; // Store playerId on the WebSocket object
   console.log(`Client connected with ID: ${playerId}`);
 
-  // Access the game table instance
-  const gameTable = getGameTable();
-
-  // Create a new Player instance and add it to the table
+  // Create a new Player instance and register it. The player stays in the lobby until they join a table.
   const player = new Player(playerId, ws);
-  gameTable.addPlayer(player);
+  getTableManager().registerPlayer(player);
 
   // Send a welcome message including the assigned player ID
   ws.send(
@@ -47,7 +67,6 @@ wsApp.ws('/ws', (ws: PlayerWebSocket, req: express.Request) => {
       payload: {
         message: 'Welcome to the Pai Gow Poker server!',
         playerId: playerId, // Send the client their ID
-        tableId: gameTable.id,
       },
     }),
   );
@@ -78,15 +97,54 @@ wsApp.ws('/ws', (ws: PlayerWebSocket, req: express.Request) => {
         case 'placeBet': // Add handler for placing bets
           handlePlaceBet(currentPlayerId, parsedMessage, ws);
           break;
+        case 'withdrawBet':
+          handleWithdrawBet(currentPlayerId, parsedMessage, ws);
+          break;
+        case 'addClientSeed': // Mix the player's entropy into the coming shuffle
+          handleAddClientSeed(currentPlayerId, parsedMessage, ws);
+          break;
         case 'setPlayerHand': // Add handler for setting player hand
           handleSetPlayerHand(currentPlayerId, parsedMessage, ws);
           break;
+        case 'setHandHouseWay': // Suggest (and optionally submit) the house way split
+          handleSetHandHouseWay(currentPlayerId, parsedMessage, ws);
+          break;
+        case 'requestSplitAnalysis': // Hint: rank every split of the player's hand
+          handleRequestSplitAnalysis(currentPlayerId, parsedMessage, ws);
+          break;
         case 'requestPlayerList': // Handle request for player list
           handleRequestPlayerList(currentPlayerId, ws);
           break;
         case 'readyForNextRound': // Add handler for ready signal
           handleReadyForNextRound(currentPlayerId, parsedMessage, ws);
           break;
+        case 'listTables': // Lobby: request the table list
+          handleListTables(currentPlayerId, ws);
+          break;
+        case 'createTable': // Lobby: create a table and become its host
+          handleCreateTable(currentPlayerId, parsedMessage, ws);
+          break;
+        case 'joinTable': // Lobby: sit down at an existing table
+          handleJoinTable(currentPlayerId, parsedMessage, ws);
+          break;
+        case 'leaveTable': // Return to the lobby
+          handleLeaveTable(currentPlayerId, ws);
+          break;
+        case 'loadTable': // Lobby: rebuild a table from an uploaded snapshot
+          handleLoadTable(currentPlayerId, parsedMessage, ws);
+          break;
+        case 'saveTable': // Host: download a snapshot of the table
+          handleSaveTable(currentPlayerId, ws);
+          break;
+        case 'stepBack': // Host: undo back to the previous phase
+          handleStepBack(currentPlayerId, ws);
+          break;
+        case 'pauseGame': // Host: freeze the table
+          handlePauseGame(currentPlayerId, ws);
+          break;
+        case 'resumeGame': // Host: continue the interrupted phase
+          handleResumeGame(currentPlayerId, ws);
+          break;
         default:
           console.warn(`Unknown message type received: ${parsedMessage.type}`);
       }
@@ -109,15 +167,20 @@ wsApp.ws('/ws', (ws: PlayerWebSocket, req: express.Request) => {
     const closingPlayerId = ws.playerId;
     if (closingPlayerId) {
       console.log(`Client disconnected: ${closingPlayerId}`);
-      const gameTable = getGameTable(); // Get game table instance
-      const removedPlayer = gameTable.getPlayerByConnectionId(closingPlayerId);
-      // const wasHost = removedPlayer?.isHost; // Not needed for MVP broadcast logic
+      const tableManager = getTableManager();
+      const removedPlayer = tableManager.getPlayer(closingPlayerId);
 
-      // Remove the player from the game table (this might reassign host)
-      gameTable.removePlayer(closingPlayerId);
+      // Remove the player from the manager and their table (this might reassign host or dispose the table)
+      const gameTable = tableManager.leaveTable(closingPlayerId);
+      tableManager.unregisterPlayer(closingPlayerId);
+
+      if (!gameTable) {
+        return; // Player was not seated, so there is nobody to notify
+      }
+      sendTableList(tableManager); // Player counts changed (or the table was disposed)
 
       // Broadcast player left message to remaining clients
-      if (removedPlayer && removedPlayer.username) {
+      if (removedPlayer?.username) {
         broadcast(
           gameTable, // Pass gameTable
           {
@@ -133,18 +196,7 @@ wsApp.ws('/ws', (ws: PlayerWebSocket, req: express.Request) => {
 
       // Always broadcast the updated player list after someone leaves
       console.log('Player left, broadcasting updated player list.');
-      broadcast(gameTable, { // Pass gameTable
-        type: 'playerListUpdate',
-        payload: {
-          players: Array.from(gameTable.players.values())
-            .filter(p => p.username) // Only send players with usernames
-            .map(p => ({
-              id: p.id,
-              username: p.username,
-              isHost: p.isHost // Include host status
-            }))
-        }
-      });
+      broadcastPlayerList(gameTable);
     } else {
       console.log('Client disconnected (unknown ID)');
     }
@@ -159,7 +211,7 @@ wsApp.ws('/ws', (ws: PlayerWebSocket, req: express.Request) => {
 });
 
 // Basic error handling middleware
-wsApp.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+wsApp.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
   console.error(err.stack);
   res.status(500).send('Something broke!');
 });
@@ -168,3 +220,16 @@ wsApp.use((err: any, req: express.Request, res: express.Response, next: express.
 app.listen(PORT, () => {
   console.log(`Express server listening on port ${PORT}`);
 });
+
+/**
+ * Saves every table one last time before the process exits (e.g., `docker stop` sends SIGTERM).
+ * @param {NodeJS.Signals} signal - The signal that stopped the server.
+ */
+function shutdown(signal: NodeJS.Signals) {
+  console.log(`Received ${signal}, saving tables before shutting down...`);
+  const saved = autosaveAllTables(getTableManager());
+  console.log(`Saved ${saved} table(s). Goodbye.`);
+  process.exit(0);
+}
+process.on('SIGTERM', shutdown);
+process.on('SIGINT', shutdown);
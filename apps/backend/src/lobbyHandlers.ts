@@ -0,0 +1,207 @@
+import type { PlayerWebSocket } from './types/websocket';
+import type { WebSocketMessage } from './types/messages';
+import type { GameTable } from './models/GameTable';
+import type { Player } from './models/Player';
+import type { GameSettings } from './models/GameSettings';
+import { getTableManager } from './TableManager';
+import { broadcast, broadcastPlayerList, sendFullGameState, sendTableList } from './websocketUtils';
+import { parseGameSettings } from './utils/gameSettings';
+import { applyTableSnapshot, parseTableSnapshot, type TableSnapshot } from './utils/tableSnapshot';
+import { ensurePhaseTimer } from './gameFlow';
+
+/**
+ * Clears everything a player carries for the current round and their table balance.
+ * @param {Player} player - The player to reset.
+ */
+function resetSeatState(player: Player) {
+	player.dannyBucks = 0;
+	player.currentHand = null;
+	player.setHighHand = null;
+	player.setLowHand = null;
+	player.currentBet = null;
+	player.sideBet = null;
+	player.hasSetHand = false;
+	player.isReadyForNextRound = false;
+}
+
+/**
+ * Finds the sender and checks they have picked a username and are not already seated.
+ * Sends an error back to the client when they cannot enter a table.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ * @returns {Player | undefined} The player, or undefined if they cannot enter a table.
+ */
+function getLobbyPlayer(playerId: string, ws: PlayerWebSocket): Player | undefined {
+	const player = getTableManager().getPlayer(playerId);
+	if (!player || !player.username) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Cannot enter a table: Player not found or username not set.' } }));
+		return undefined;
+	}
+	if (player.tableId) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'You are already seated at a table. Leave it first.' } }));
+		return undefined;
+	}
+	return player;
+}
+
+/**
+ * Seats a lobby player at a table and notifies the player, the table and the lobby.
+ * @param {Player} player - The player taking the seat.
+ * @param {GameTable} gameTable - The table being joined.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the player.
+ */
+function seatPlayer(player: Player, gameTable: GameTable, ws: PlayerWebSocket) {
+	const tableManager = getTableManager();
+	resetSeatState(player);
+	tableManager.joinTable(player.id, gameTable.id);
+	const reclaimedSeat = gameTable.claimReservedSeat(player);
+	if (!reclaimedSeat) {
+		player.dannyBucks = gameTable.gameSettings.startingDB; // Each table hands out its own starting balance
+	}
+
+	console.log(`Player ${player.id} (${player.username}) joined table ${gameTable.id}${reclaimedSeat ? ' and reclaimed their seat' : ''}.`);
+
+	// 1. Confirm the seat to the joining player
+	ws.send(JSON.stringify({
+		type: 'joinTableSuccess',
+		payload: {
+			tableId: gameTable.id,
+			dannyBucks: player.dannyBucks,
+			gameSettings: gameTable.gameSettings,
+			reclaimedSeat,
+		}
+	}));
+
+	// 2. Send the full current game state to the joining player, plus their hand if the seat had one.
+	// A restored table's phase timer only starts once somebody is back.
+	ensurePhaseTimer(gameTable);
+	sendFullGameState(gameTable, ws);
+	if (player.currentHand) {
+		ws.send(JSON.stringify({ type: 'dealHand', payload: { hand: player.currentHand } }));
+	}
+
+	// 3. Let the rest of the table know
+	broadcast(gameTable, {
+		type: 'playerJoined',
+		payload: { username: player.username, id: player.id, isHost: player.isHost },
+	}, player.id);
+	broadcastPlayerList(gameTable);
+
+	// 4. Player counts changed, so refresh the lobby
+	sendTableList(tableManager);
+}
+
+/**
+ * Handles the 'listTables' message: replies with the current lobby table list.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleListTables(playerId: string, ws: PlayerWebSocket) {
+	console.log(`Received listTables from ${playerId}`);
+	sendTableList(getTableManager(), ws);
+}
+
+/**
+ * Handles the 'createTable' message: creates a table with the requested settings and seats the creator as host.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {WebSocketMessage} message - The parsed message object. Payload: { settings?: Partial<GameSettings> }.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleCreateTable(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
+	const player = getLobbyPlayer(playerId, ws);
+	if (!player) return;
+
+	let gameSettings: GameSettings;
+	try {
+		gameSettings = parseGameSettings(message.payload?.settings);
+	} catch (settingsError) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: settingsError instanceof Error ? settingsError.message : String(settingsError) } }));
+		return;
+	}
+
+	const gameTable = getTableManager().createTable(undefined, gameSettings);
+	seatPlayer(player, gameTable, ws); // First player at a table becomes its host
+}
+
+/**
+ * Handles the 'joinTable' message: seats the sender at an existing table.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {WebSocketMessage} message - The parsed message object. Payload: { tableId: string }.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleJoinTable(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
+	const player = getLobbyPlayer(playerId, ws);
+	if (!player) return;
+
+	const tableId = message.payload?.tableId;
+	const gameTable = typeof tableId === 'string' ? getTableManager().getTable(tableId) : undefined;
+	if (!gameTable) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Table "${tableId}" does not exist.` } }));
+		return;
+	}
+
+	seatPlayer(player, gameTable, ws);
+}
+
+/**
+ * Handles the 'loadTable' message: validates an uploaded table snapshot and rebuilds the table from it.
+ * The sender is seated at the restored table as its host; other players reclaim their seats by username.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {WebSocketMessage} message - The parsed message object. Payload: { snapshot: TableSnapshot }.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleLoadTable(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
+	const player = getLobbyPlayer(playerId, ws);
+	if (!player) return;
+
+	let snapshot: TableSnapshot;
+	try {
+		snapshot = parseTableSnapshot(message.payload?.snapshot);
+	} catch (snapshotError) {
+		console.warn(`Rejected table snapshot from ${playerId}: ${snapshotError instanceof Error ? snapshotError.message : String(snapshotError)}`);
+		ws.send(JSON.stringify({ type: 'error', payload: { message: snapshotError instanceof Error ? snapshotError.message : String(snapshotError) } }));
+		return;
+	}
+
+	const tableManager = getTableManager();
+	// Keep the saved ID unless a live table is already using it
+	const tableId = tableManager.getTable(snapshot.tableId) ? undefined : snapshot.tableId;
+	const gameTable = tableManager.createTable(tableId, snapshot.gameSettings);
+	applyTableSnapshot(gameTable, snapshot);
+	console.log(`Table ${gameTable.id} loaded from snapshot saved at ${snapshot.savedAt} by ${player.username}.`);
+
+	gameTable.reservedHostUsername = player.username; // Whoever loads the table runs it
+	seatPlayer(player, gameTable, ws);
+}
+
+/**
+ * Handles the 'leaveTable' message: unseats the sender and returns them to the lobby.
+ * Any bet still on the table is forfeited along with the table balance.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleLeaveTable(playerId: string, ws: PlayerWebSocket) {
+	const tableManager = getTableManager();
+	const player = tableManager.getPlayer(playerId);
+	if (!player || !player.tableId) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'You are not seated at a table.' } }));
+		return;
+	}
+
+	const gameTable = tableManager.leaveTable(playerId);
+	resetSeatState(player);
+	console.log(`Player ${playerId} (${player.username}) left table ${gameTable?.id}.`);
+
+	ws.send(JSON.stringify({ type: 'leaveTableSuccess', payload: { tableId: gameTable?.id ?? null } }));
+
+	if (gameTable && gameTable.players.size > 0) {
+		broadcast(gameTable, {
+			type: 'playerLeft',
+			payload: { username: player.username, playerId: playerId },
+		});
+		broadcastPlayerList(gameTable);
+	}
+
+	// The player is back in the lobby, so this also sends them the fresh list
+	sendTableList(tableManager);
+}
@@ -1,9 +1,48 @@
 import type { PlayerWebSocket } from './types/websocket';
 import type { WebSocketMessage } from './types/messages';
 import type { Card } from './models/Card';
-import { getGameTable } from './GameManager';
-import { broadcast, sendFullGameState } from './websocketUtils';
+import type { GameTable } from './models/GameTable';
+import { getTableManager } from './TableManager';
+import { broadcast, sendTableList } from './websocketUtils';
 import { evaluate5CardHand, evaluate2CardHand, compareEvaluatedHands } from './utils/handEvaluator';
+import { autosaveTable } from './utils/autosave';
+import { validateBetAmount, validateSideBetAmount } from './utils/betting';
+import { getHouseWay, setHandHouseWay } from './houseWays/registry';
+import { solveFaceUpSplits } from './utils/splitSolver';
+import { ADVISOR_COOLDOWN_MS, DEFAULT_ADVISOR_TIME_BUDGET_MS, MAX_ADVISOR_TIME_BUDGET_MS, estimateHiddenDealerSplits } from './utils/splitAdvisor';
+import { addClientSeed, validateClientSeed } from './utils/provablyFair';
+import { dealRound, handleShowdown, startBettingPhase, startNextRound } from './gameFlow';
+
+/**
+ * Resolves the table the sending player is seated at.
+ * Sends an error back to the client if the player is not seated anywhere.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ * @returns {GameTable | undefined} The sender's table, or undefined if they are not seated.
+ */
+function getSenderTable(playerId: string, ws: PlayerWebSocket): GameTable | undefined {
+	const gameTable = getTableManager().getTableForPlayer(playerId);
+	if (!gameTable) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'You are not seated at a table.' } }));
+	}
+	return gameTable;
+}
+
+/**
+ * Rejects a game action while the host has the table paused.
+ * Sends an error back to the client if the table is paused.
+ * @param {GameTable} gameTable - The sender's table.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ * @param {string} action - Description of the attempted action, used in the error message.
+ * @returns {boolean} True if the action was rejected.
+ */
+function rejectIfPaused(gameTable: GameTable, ws: PlayerWebSocket, action: string): boolean {
+	if (!gameTable.isPaused()) {
+		return false;
+	}
+	ws.send(JSON.stringify({ type: 'error', payload: { message: `The game is paused by the host. You cannot ${action} until it resumes.` } }));
+	return true;
+}
 
 /**
  * Handles the 'setUsername' message from a client.
@@ -12,7 +51,7 @@ import { evaluate5CardHand, evaluate2CardHand, compareEvaluatedHands } from './u
  * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
  */
 export function handleSetUsername(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
-	const gameTable = getGameTable(); // Get game table instance
+	const tableManager = getTableManager();
 	const requestedUsername = message.payload?.username;
 
 	if (typeof requestedUsername !== 'string' || requestedUsername.trim().length === 0) {
@@ -26,7 +65,7 @@ export function handleSetUsername(playerId: string, message: WebSocketMessage, w
 	}
 
 	const trimmedUsername = requestedUsername.trim();
-	const player = gameTable.getPlayerByConnectionId(playerId);
+	const player = tableManager.getPlayer(playerId);
 
 	if (!player) {
 		console.error(`Player not found for ID ${playerId} during setUsername`);
@@ -39,20 +78,21 @@ export function handleSetUsername(playerId: string, message: WebSocketMessage, w
 		return;
 	}
 
-	// Check for uniqueness
-	let isUnique = true;
-	for (const otherPlayer of gameTable.players.values()) {
-		if (otherPlayer.id !== playerId && otherPlayer.username === trimmedUsername) {
-			isUnique = false;
-			break;
-		}
+	// Usernames identify seats, so they cannot change while seated at a table
+	if (player.tableId) {
+		ws.send(
+			JSON.stringify({
+				type: 'usernameFailure',
+				payload: { message: 'Cannot change username while seated at a table. Leave the table first.' },
+			}),
+		);
+		return;
 	}
 
-	if (isUnique) {
-		// Update player state
+	// Check for uniqueness across every connected player, not just one table
+	if (!tableManager.isUsernameTaken(trimmedUsername, playerId)) {
+		// Update player state. Balances are assigned when joining a table.
 		player.username = trimmedUsername;
-		player.dannyBucks = gameTable.gameSettings.startingDB; // Assign starting balance
-		// Reset bet status from previous potential rounds
 		player.currentBet = null;
 
 		console.log(`Player ${playerId} set username to: ${trimmedUsername}`);
@@ -69,34 +109,8 @@ export function handleSetUsername(playerId: string, message: WebSocketMessage, w
 			})
 		);
 
-		// 2. Send the full current game state to the joining player
-		sendFullGameState(gameTable, ws); // Pass gameTable
-
-		// 3. Broadcast playerJoined to other clients (still useful for specific join notification)
-		broadcast(
-			gameTable, // Pass gameTable
-			{
-				type: 'playerJoined',
-				payload: { username: trimmedUsername, id: playerId, isHost: player.isHost }, // Include isHost
-			},
-			playerId, // Exclude the player who just joined
-		);
-
-		// 4. Broadcast the updated player list to ALL clients
-		console.log('Broadcasting updated player list after join.');
-		broadcast(gameTable, { // Pass gameTable
-			type: 'playerListUpdate',
-			payload: {
-				players: Array.from(gameTable.players.values())
-					.filter(p => p.username) // Only send players with usernames
-					.map(p => ({
-						id: p.id,
-						username: p.username,
-						isHost: p.isHost // Include host status
-					}))
-			}
-		});
-
+		// 2. Send the lobby's table list so the player can pick or create a table
+		sendTableList(tableManager, ws);
 	} else {
 		// Send failure response
 		ws.send(
@@ -115,7 +129,8 @@ export function handleSetUsername(playerId: string, message: WebSocketMessage, w
 	* @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
 	*/
 export function handleRequestPlayerList(playerId: string, ws: PlayerWebSocket) {
-	const gameTable = getGameTable(); // Get game table instance
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
 	console.log(`Received requestPlayerList from ${playerId}`);
 	const playersWithUsernames = Array.from(gameTable.players.values())
 		.filter((p) => p.id !== playerId && p.username) // Filter out self AND ensure username is set
@@ -131,13 +146,18 @@ export function handleRequestPlayerList(playerId: string, ws: PlayerWebSocket) {
 
 
 /**
-	* Handles the 'placeBet' message from a client.
+ * Handles the 'placeBet' message from a client.
+ * Expects payload: { amount: number, sideBet?: number }. sideBet is the optional Fortune bonus wager.
+ * A player who already bet can send new amounts to change both bets;
+ * the old bets are refunded before the new ones are charged. Bets can be changed until dealing starts.
  * @param {string} playerId - The ID of the player sending the message.
  * @param {WebSocketMessage} message - The parsed message object.
  * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
  */
 export function handlePlaceBet(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
-	const gameTable = getGameTable(); // Get game table instance
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
+	if (rejectIfPaused(gameTable, ws, 'place a bet')) return;
 	const player = gameTable.getPlayerByConnectionId(playerId);
 
 	if (!player || !player.username) {
@@ -145,38 +165,53 @@ export function handlePlaceBet(playerId: string, message: WebSocketMessage, ws:
 		return;
 	}
 
-	// For MVP, use the fixed bet amount defined in game settings
-	const betAmount = gameTable.gameSettings.fixedBetAmount;
-
 	// Validate game state (allow betting only in 'Betting' state now)
 	if (gameTable.gameState !== 'Betting') {
 		ws.send(JSON.stringify({ type: 'error', payload: { message: `Cannot place bet. Game state must be 'Betting', but is currently '${gameTable.gameState}'.` } }));
 		return;
 	}
 
-	// Check if player already placed a bet this round
-	if (player.currentBet !== null) {
-		ws.send(JSON.stringify({ type: 'error', payload: { message: 'You have already placed a bet for this round.' } }));
+	if (gameTable.isBanker(player)) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'You are banking this round and cannot bet against your own bank.' } }));
 		return;
 	}
 
-	// Check sufficient balance
-	if (player.dannyBucks < betAmount) {
-		ws.send(JSON.stringify({ type: 'error', payload: { message: `Insufficient funds. You need ${betAmount} DB, but have ${player.dannyBucks} DB.` } }));
+	// A changed bet can use the DannyBucks of the bets it replaces
+	const previousBet = player.currentBet ?? 0;
+	const previousSideBet = player.sideBet ?? 0;
+	const available = player.dannyBucks + previousBet + previousSideBet;
+	let betAmount: number;
+	let sideBet: number | null;
+	try {
+		betAmount = validateBetAmount(message.payload?.amount, gameTable.gameSettings, available);
+		sideBet = validateSideBetAmount(message.payload?.sideBet, gameTable.gameSettings, available - betAmount);
+		const variant = gameTable.getVariantRules();
+		if (sideBet !== null && !variant.allowedSideBets.includes('Fortune')) {
+			throw new Error(`The Fortune bonus is not offered in ${variant.label}.`);
+		}
+		const openBank = gameTable.getOpenBank(player.id);
+		if (openBank !== null && betAmount > openBank) {
+			throw new Error(`The bank only covers ${openBank} DB more this round.`);
+		}
+	} catch (betError) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: betError instanceof Error ? betError.message : String(betError) } }));
 		return;
 	}
 
 	// --- Place the Bet ---
+	player.dannyBucks = available - betAmount - (sideBet ?? 0);
 	player.currentBet = betAmount;
-	player.dannyBucks -= betAmount;
+	player.sideBet = sideBet;
 
-	console.log(`Player ${playerId} (${player.username}) placed bet of ${betAmount}. Remaining DB: ${player.dannyBucks}`);
+	console.log(`Player ${playerId} (${player.username}) ${previousBet ? `changed bet from ${previousBet} to` : 'placed bet of'} ${betAmount} (Fortune: ${sideBet ?? 'none'}). Remaining DB: ${player.dannyBucks}`);
+	autosaveTable(gameTable); // Balances changed
 
 	// Send confirmation back to the player
 	ws.send(JSON.stringify({
 		type: 'betSuccess',
 		payload: {
 			betAmount: player.currentBet,
+			sideBet: player.sideBet,
 			dannyBucks: player.dannyBucks,
 		}
 	}));
@@ -188,17 +223,109 @@ export function handlePlaceBet(playerId: string, message: WebSocketMessage, ws:
 			playerId: playerId,
 			username: player.username,
 			betAmount: player.currentBet,
+			sideBet: player.sideBet,
 		}
 	}, playerId); // Exclude the player who just bet
+}
+
+/**
+ * Handles the 'withdrawBet' message from a client.
+ * Refunds the player's bet and any Fortune side bet so they sit out the round. Only allowed until dealing starts.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {WebSocketMessage} message - The parsed message object.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleWithdrawBet(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
+	if (rejectIfPaused(gameTable, ws, 'withdraw a bet')) return;
+	const player = gameTable.getPlayerByConnectionId(playerId);
+
+	if (!player || !player.username) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Cannot withdraw bet: Player not found or username not set.' } }));
+		return;
+	}
+	if (gameTable.gameState !== 'Betting') {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Cannot withdraw bet. Game state must be 'Betting', but is currently '${gameTable.gameState}'.` } }));
+		return;
+	}
+	if (player.currentBet === null) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'You have no bet to withdraw.' } }));
+		return;
+	}
+
+	const refund = player.currentBet + (player.sideBet ?? 0);
+	player.dannyBucks += refund;
+	player.currentBet = null;
+	player.sideBet = null; // A side bet needs a main bet
+
+	console.log(`Player ${playerId} (${player.username}) withdrew bet of ${refund}. DB: ${player.dannyBucks}`);
+	autosaveTable(gameTable); // Balances changed
+
+	ws.send(JSON.stringify({
+		type: 'betWithdrawn',
+		payload: {
+			refund,
+			dannyBucks: player.dannyBucks,
+		}
+	}));
+
+	broadcast(gameTable, {
+		type: 'playerBet',
+		payload: {
+			playerId: playerId,
+			username: player.username,
+			betAmount: null, // No bet this round
+			sideBet: null,
+		}
+	}, playerId);
+}
+
+/**
+ * Handles the 'addClientSeed' message from a client.
+ * Mixes the player's own entropy into the coming deal's shuffle. Only allowed while betting is open,
+ * after the server seed's commitment was announced, and before a new deck or shoe is shuffled;
+ * a player who sends again replaces their seed.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {WebSocketMessage} message - The parsed message object, with payload.clientSeed.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleAddClientSeed(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
+	if (rejectIfPaused(gameTable, ws, 'add a client seed')) return;
+	const player = gameTable.getPlayerByConnectionId(playerId);
+
+	if (!player || !player.username) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Cannot add client seed: Player not found or username not set.' } }));
+		return;
+	}
+	if (gameTable.gameState !== 'Betting' || !gameTable.fairness) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Cannot add client seed. Game state must be 'Betting', but is currently '${gameTable.gameState}'.` } }));
+		return;
+	}
+	if (gameTable.roundSeed !== null) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Cannot add client seed: the next round is dealt on from the shoe in play, which is not reshuffled.' } }));
+		return;
+	}
+
+	let clientSeed: string;
+	try {
+		clientSeed = validateClientSeed(message.payload?.clientSeed);
+	} catch (seedError) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: seedError instanceof Error ? seedError.message : String(seedError) } }));
+		return;
+	}
+	addClientSeed(gameTable.fairness, player.username, clientSeed);
+	console.log(`Player ${playerId} (${player.username}) added a client seed for table ${gameTable.id}.`);
 
-	// Optional: Auto-start logic (commented out for now, rely on manual startGame)
-	// const allPlayersBet = Array.from(gameTable.players.values())
-	// 	.filter(p => p.username)
-	// 	.every(p => p.currentBet !== null);
-	// if (allPlayersBet && gameTable.players.size > 0 && gameTable.gameState === 'Betting') {
-	// 	console.log("All active players have placed bets. Starting game automatically...");
-	// 	handleStartGame(playerId, { type: 'startGame', payload: {} }, ws); // Need to adapt this call if used
-	// }
+	ws.send(JSON.stringify({
+		type: 'clientSeedAccepted',
+		payload: {
+			clientSeed,
+			seedCommitment: gameTable.fairness.seedCommitment, // The commitment the seed is mixed with
+		}
+	}));
 }
 
 
@@ -210,7 +337,9 @@ export function handlePlaceBet(playerId: string, message: WebSocketMessage, ws:
  * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
  */
 export function handleStartGame(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
-	const gameTable = getGameTable(); // Get game table instance
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
+	if (rejectIfPaused(gameTable, ws, 'start the game')) return;
 	console.log(`Received startGame request from ${playerId}`);
 
 	// Validate game state and sender
@@ -234,10 +363,7 @@ export function handleStartGame(playerId: string, message: WebSocketMessage, ws:
 		}
 
 		console.log(`Host ${playerId} is starting the betting phase.`);
-		gameTable.gameState = 'Betting';
-		// Reset bets from any previous rounds for all players
-		gameTable.players.forEach(p => p.currentBet = null);
-		broadcast(gameTable, { type: 'gameStateUpdate', payload: { gameState: gameTable.gameState, message: 'Betting phase started. Please place your bets.' } }); // Pass gameTable
+		startBettingPhase(gameTable);
 
 	// --- Transition from Betting to Dealing ---
 	} else if (gameTable.gameState === 'Betting') {
@@ -248,22 +374,7 @@ export function handleStartGame(playerId: string, message: WebSocketMessage, ws:
 
 		if (playersReady.length > 0) {
 			console.log(`Attempting to start new round with ${playersReady.length} players who have bet...`);
-			// Transition state *before* dealing
-			gameTable.gameState = 'Dealing';
-			broadcast(gameTable, { type: 'gameStateUpdate', payload: { gameState: gameTable.gameState, message: 'Dealing cards...' } }); // Pass gameTable
-
-			// Deal cards etc.
-			gameTable.startNewRound(); // This will shuffle, deal, set dealer hand, and change state further
-
-			// Broadcast the full updated game state using the helper function
-			sendFullGameState(
-				gameTable, // Pass gameTable
-				undefined, // Broadcast to all
-				gameTable.dealerHand.isAceHighPaiGow
-					? 'Dealer has Ace-High Pai Gow! Round is a push.'
-					: 'Dealer hand set. Please set your hand.'
-			);
-			// Individual player hands were sent within startNewRound
+			dealRound(gameTable);
 		} else {
 			// If in Betting state but no one has bet
 			ws.send(JSON.stringify({ type: 'error', payload: { message: 'Cannot start dealing. No players have placed a bet.' } }));
@@ -276,6 +387,31 @@ export function handleStartGame(playerId: string, message: WebSocketMessage, ws:
 }
 
 
+/**
+ * Matches the cards of a submitted split to the player's dealt cards, each dealt card used once.
+ * A card with an id must be that dealt card; one without (e.g. from an older client) takes any
+ * unused dealt card of the same rank and suit, since a multi-deck shoe can deal the same card twice.
+ * @param {Card[]} dealtCards - The player's dealt hand.
+ * @param {unknown[]} submittedCards - The cards of the split, high hand first.
+ * @returns {Card[] | null} The matching dealt cards in the submitted order, or null if a card was not dealt to the player.
+ */
+function matchDealtCards(dealtCards: Card[], submittedCards: unknown[]): Card[] | null {
+	const unused = [...dealtCards];
+	const matched: Card[] = [];
+	for (const submitted of submittedCards) {
+		if (typeof submitted !== 'object' || submitted === null) {
+			return null;
+		}
+		const { id, rank, suit } = submitted as Record<string, unknown>;
+		const index = unused.findIndex(card => (id !== undefined ? card.id === id : card.rank === rank && card.suit === suit));
+		if (index === -1) {
+			return null;
+		}
+		matched.push(...unused.splice(index, 1));
+	}
+	return matched;
+}
+
 /**
  * Handles the 'setPlayerHand' message from a client.
  * @param {string} playerId - The ID of the player sending the message.
@@ -283,7 +419,9 @@ export function handleStartGame(playerId: string, message: WebSocketMessage, ws:
  * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
  */
 export function handleSetPlayerHand(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
-	const gameTable = getGameTable(); // Get game table instance
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
+	if (rejectIfPaused(gameTable, ws, 'set your hand')) return;
 	const player = gameTable.getPlayerByConnectionId(playerId);
 
 	if (!player || !player.username || !player.currentHand) {
@@ -298,7 +436,7 @@ export function handleSetPlayerHand(playerId: string, message: WebSocketMessage,
 	}
 
 	// Validate payload structure
-	const { highHand, lowHand } = message.payload;
+	const { highHand, lowHand } = message.payload ?? {};
 	if (!Array.isArray(highHand) || !Array.isArray(lowHand)) {
 		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Invalid payload format. Expecting { highHand: Card[], lowHand: Card[] }.' } }));
 		return;
@@ -317,18 +455,18 @@ export function handleSetPlayerHand(playerId: string, message: WebSocketMessage,
 		return;
 	}
 
-	const dealtHandString = player.currentHand.map(card => `${card.rank}-${card.suit}`).sort().join(',');
-	const setHandString = combinedSetHand.map(card => `${card.rank}-${card.suit}`).sort().join(',');
-
-	if (dealtHandString !== setHandString) {
+	const matchedCards = matchDealtCards(player.currentHand, combinedSetHand);
+	if (!matchedCards) {
 		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Invalid cards in split. Cards do not match the originally dealt hand.' } }));
 		return;
 	}
+	const setHighHand = matchedCards.slice(0, 5);
+	const setLowHand = matchedCards.slice(5);
 
 	// Validate Pai Gow Rule: High Hand > Low Hand
 	try {
-		const highHandEval = evaluate5CardHand(highHand as Card[]);
-		const lowHandEval = evaluate2CardHand(lowHand as Card[]);
+		const highHandEval = evaluate5CardHand(setHighHand);
+		const lowHandEval = evaluate2CardHand(setLowHand);
 		const comparison = compareEvaluatedHands(highHandEval, lowHandEval);
 
 		if (comparison < 0) { // Low hand is stronger than high hand
@@ -339,15 +477,15 @@ export function handleSetPlayerHand(playerId: string, message: WebSocketMessage,
 			ws.send(JSON.stringify({ type: 'error', payload: { message: 'Invalid hand split: The 5-card High Hand must rank strictly higher than the 2-card Low Hand (cannot be equal rank).' } }));
 			return;
 		}
-	} catch (evalError: any) {
+	} catch (evalError) {
 		console.error(`Hand evaluation error for player ${playerId}:`, evalError);
-		ws.send(JSON.stringify({ type: 'error', payload: { message: `Internal server error during hand validation: ${evalError.message}` } }));
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Internal server error during hand validation: ${evalError instanceof Error ? evalError.message : String(evalError)}` } }));
 		return;
 	}
 
 	// --- Hand is Valid ---
-	player.setHighHand = highHand as Card[];
-	player.setLowHand = lowHand as Card[];
+	player.setHighHand = setHighHand;
+	player.setLowHand = setLowHand;
 	player.hasSetHand = true;
 
 	console.log(`Player ${playerId} (${player.username}) set their hand successfully.`);
@@ -365,16 +503,134 @@ export function handleSetPlayerHand(playerId: string, message: WebSocketMessage,
 	}, playerId);
 
 	// --- Check if all players are ready for showdown ---
-	const activePlayers = Array.from(gameTable.players.values()).filter(p => p.username && p.currentBet !== null);
+	const activePlayers = Array.from(gameTable.players.values()).filter(
+		p => p.username && (p.currentBet !== null || gameTable.isBanker(p)) // The banker sets a hand too
+	);
 	const allPlayersReady = activePlayers.every(p => p.hasSetHand);
 
 	if (allPlayersReady && activePlayers.length > 0) {
 		console.log("All active players have set their hands. Proceeding to showdown...");
 		// Trigger the next phase (comparison/outcome)
-		handleShowdown(); // Call the next step function (defined below)
+		handleShowdown(gameTable); // Call the next step function (in gameFlow)
+	}
+}
+
+/**
+ * Handles the 'setHandHouseWay' message from a client: sets the player's dealt cards by the table's house way
+ * and replies with the split. With { submit: true } the split is also submitted as the player's hand,
+ * through the same checks as a 'setPlayerHand' message.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {WebSocketMessage} message - The parsed message object.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleSetHandHouseWay(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
+	const player = gameTable.getPlayerByConnectionId(playerId);
+
+	if (!player || !player.username || !player.currentHand) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Cannot set hand: Player not found, username not set, or hand not dealt.' } }));
+		return;
+	}
+	if (gameTable.gameState !== 'PlayerAction') {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Cannot set hand in current game state: ${gameTable.gameState}. Waiting for 'PlayerAction'.` } }));
+		return;
+	}
+	const submit = message.payload?.submit ?? false;
+	if (typeof submit !== 'boolean') {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Invalid payload format. Expecting { submit?: boolean }.' } }));
+		return;
+	}
+
+	const houseWay = getHouseWay(gameTable.gameSettings.houseWay);
+	const { highHand, lowHand } = setHandHouseWay(player.currentHand, houseWay.id);
+	ws.send(JSON.stringify({
+		type: 'houseWaySuggestion',
+		payload: { highHand, lowHand, houseWay: houseWay.label },
+	}));
+
+	if (submit) {
+		handleSetPlayerHand(playerId, { type: 'setPlayerHand', payload: { highHand, lowHand } }, ws);
 	}
 }
 
+/**
+ * Handles the 'requestSplitAnalysis' message from a client: replies with every valid split of the player's cards,
+ * best first. Against a face-up dealer each split's result is known; against a hidden dealer hand the results are
+ * estimated by sampling dealer hands for up to { timeBudgetMs } milliseconds, in the background. Each player has one
+ * analysis at a time and waits ADVISOR_COOLDOWN_MS after it before the next. The estimate is dropped if the player's
+ * hand or the phase changed meanwhile.
+ * @param {string} playerId - The ID of the player sending the message.
+ * @param {WebSocketMessage} message - The parsed message object.
+ * @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
+ */
+export function handleRequestSplitAnalysis(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
+	if (rejectIfPaused(gameTable, ws, 'analyze splits')) return;
+	const player = gameTable.getPlayerByConnectionId(playerId);
+
+	if (!player || !player.username || !player.currentHand) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: 'Cannot analyze splits: Player not found, username not set, or hand not dealt.' } }));
+		return;
+	}
+	if (gameTable.gameState !== 'PlayerAction') {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Cannot analyze splits in current game state: ${gameTable.gameState}. Waiting for 'PlayerAction'.` } }));
+		return;
+	}
+	if (gameTable.isBanker(player)) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: "Cannot analyze splits: the banker's hand plays against every player." } }));
+		return;
+	}
+	const timeBudgetMs = message.payload?.timeBudgetMs ?? DEFAULT_ADVISOR_TIME_BUDGET_MS;
+	if (typeof timeBudgetMs !== 'number' || !Number.isInteger(timeBudgetMs) || timeBudgetMs <= 0 || timeBudgetMs > MAX_ADVISOR_TIME_BUDGET_MS) {
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Invalid time budget. Expecting whole milliseconds from 1 to ${MAX_ADVISOR_TIME_BUDGET_MS}.` } }));
+		return;
+	}
+
+	const variant = gameTable.getVariantRules();
+	const { highHand, lowHand } = gameTable.dealerHand;
+	if (!gameTable.isDealerHandHidden() && highHand && lowHand) {
+		ws.send(JSON.stringify({
+			type: 'splitAnalysis',
+			payload: { method: 'FaceUp', splits: solveFaceUpSplits(player.currentHand, { highHand, lowHand }, variant.copyRule) },
+		}));
+		return;
+	}
+
+	// Sampling shares the server with every table, so each player gets it only so often
+	const now = Date.now();
+	if (now < player.splitAnalysisAvailableAt) {
+		const waitSeconds = Math.ceil((player.splitAnalysisAvailableAt - now) / 1000);
+		ws.send(JSON.stringify({ type: 'error', payload: { message: `Split analysis is busy or was just run. Try again in ${waitSeconds}s.` } }));
+		return;
+	}
+	player.splitAnalysisAvailableAt = now + timeBudgetMs + ADVISOR_COOLDOWN_MS;
+
+	const hand = player.currentHand;
+	estimateHiddenDealerSplits(hand, {
+		variant,
+		houseWay: gameTable.gameSettings.houseWay,
+		settings: gameTable.gameSettings,
+		betAmount: player.currentBet ?? gameTable.gameSettings.minBet,
+		dealerPushes: gameTable.bankerUsername === null,
+		timeBudgetMs,
+	})
+		.then(({ splits, samples }) => {
+			console.log(`Split analysis for ${player.username}: ${samples} dealer hands sampled.`);
+			if (player.currentHand !== hand || gameTable.gameState !== 'PlayerAction') {
+				return; // The round moved on while sampling
+			}
+			ws.send(JSON.stringify({
+				type: 'splitAnalysis',
+				payload: { method: 'ExpectedValue', splits, samples },
+			}));
+		})
+		.catch((error) => {
+			console.error(`Split analysis for ${player.username} failed:`, error);
+		});
+}
+
 /**
 	* Handles the 'readyForNextRound' message from a client.
 	* @param {string} playerId - The ID of the player sending the message.
@@ -382,7 +638,9 @@ export function handleSetPlayerHand(playerId: string, message: WebSocketMessage,
 	* @param {PlayerWebSocket} ws - The WebSocket connection of the sender.
 	*/
 export function handleReadyForNextRound(playerId: string, message: WebSocketMessage, ws: PlayerWebSocket) {
-	const gameTable = getGameTable(); // Get game table instance
+	const gameTable = getSenderTable(playerId, ws);
+	if (!gameTable) return;
+	if (rejectIfPaused(gameTable, ws, 'ready up for the next round')) return;
 	const player = gameTable.getPlayerByConnectionId(playerId);
 
 	if (!player || !player.username) {
@@ -414,187 +672,9 @@ export function handleReadyForNextRound(playerId: string, message: WebSocketMess
 	if (allActivePlayersReady && activePlayers.length > 0) {
 		console.log("All active players are ready. Starting next round...");
 
-		// --- Reset Player and Dealer State for Next Round ---
-		console.log("Resetting player and dealer states for betting...");
-		gameTable.players.forEach(p => {
-			// Reset round-specific states for ALL players
-			p.currentHand = null;
-			p.setHighHand = null;
-			p.setLowHand = null;
-			p.currentBet = null;
-			p.hasSetHand = false;
-			p.isReadyForNextRound = false; // Reset readiness
-		});
-		gameTable.dealerHand = { // Reset dealer state
-			dealtCards: null,
-			highHand: null,
-			lowHand: null,
-			isAceHighPaiGow: false,
-		};
-		// --- End Reset Logic ---
-
-		// Transition back to Betting state
-		gameTable.gameState = 'Betting';
-		console.log(`--- New Round Ready. Game state transitioned to: ${gameTable.gameState} ---`);
-
-		// Broadcast the full game state update using the helper function
-		sendFullGameState(gameTable, undefined, 'Place your bets for the next round!'); // Pass gameTable
+		startNextRound(gameTable);
 
 	} else {
 		console.log(`Waiting for other players to be ready. Total active: ${activePlayers.length}, Ready: ${activePlayers.filter(p => p.isReadyForNextRound).length}`);
 	}
 }
-
-
-/**
-	* Handles the showdown phase: comparing hands, determining outcomes, updating balances.
-	* Note: This function doesn't take ws/playerId/message as it's triggered internally.
-	*/
-export function handleShowdown() {
-	const gameTable = getGameTable(); // Get game table instance
-	console.log(`--- Starting Showdown for table ${gameTable.id} ---`);
-	gameTable.gameState = 'Showdown'; // Ensure state is correct
-
-	const activePlayers = Array.from(gameTable.players.values()).filter(
-		p => p.username && p.currentBet !== null && p.hasSetHand // Players involved in the showdown
-	);
-	const dealer = gameTable.dealerHand;
-	const results: any[] = []; // Store results for broadcasting
-
-	if (!dealer.highHand || !dealer.lowHand) {
-		console.error("CRITICAL: Dealer hands are not set during showdown.");
-		gameTable.gameState = 'WaitingForPlayers'; // Reset state
-		broadcast(gameTable, { type: 'error', payload: { message: 'Internal server error: Dealer hand missing during showdown.' } }); // Pass gameTable
-		return;
-	}
-
-	// Evaluate dealer hands once
-	const dealerHighEval = evaluate5CardHand(dealer.highHand);
-	const dealerLowEval = evaluate2CardHand(dealer.lowHand);
-
-	// --- Handle Ace-High Push Case ---
-	if (dealer.isAceHighPaiGow) {
-		console.log("Processing Ace-High Pai Gow Push outcome.");
-		activePlayers.forEach(player => {
-			const outcome = 'Push';
-			// Return the bet amount
-			player.dannyBucks += player.currentBet!; // Add bet back
-
-			results.push({
-				playerId: player.id,
-				username: player.username,
-				outcome: outcome,
-				betAmount: player.currentBet,
-				winnings: 0, // No winnings on push
-				newBalance: player.dannyBucks,
-				playerHighHand: player.setHighHand, // Show hands even on push
-				playerLowHand: player.setLowHand,
-			});
-			console.log(`Player ${player.id} (${player.username}): ${outcome} (Ace-High). Returned ${player.currentBet} DB. New balance: ${player.dannyBucks}`);
-		});
-	} else {
-		// --- Handle Normal Comparison ---
-		console.log("Processing normal hand comparisons.");
-		activePlayers.forEach(player => {
-			if (!player.setHighHand || !player.setLowHand) {
-				console.warn(`Player ${player.id} (${player.username}) reached showdown without set hands. Skipping.`);
-				results.push({
-					playerId: player.id,
-					username: player.username,
-					outcome: 'Error', // Indicate an issue
-					betAmount: player.currentBet,
-					winnings: 0,
-					newBalance: player.dannyBucks,
-					playerHighHand: null,
-					playerLowHand: null,
-				});
-				return; // Skip this player
-			}
-
-			try {
-				// Evaluate player hands
-				const playerHighEval = evaluate5CardHand(player.setHighHand);
-				const playerLowEval = evaluate2CardHand(player.setLowHand);
-
-				// Compare hands (Player vs Dealer)
-				const highHandComparison = compareEvaluatedHands(playerHighEval, dealerHighEval); // 1: P > D, -1: P < D, 0: Tie (D wins)
-				const lowHandComparison = compareEvaluatedHands(playerLowEval, dealerLowEval);   // 1: P > D, -1: P < D, 0: Tie (D wins)
-
-				let outcome: string;
-				let winnings = 0;
-
-				// Determine Win/Loss/Push (Dealer wins ties)
-				const playerWinsHigh = highHandComparison > 0;
-				const playerWinsLow = lowHandComparison > 0;
-				const dealerWinsHigh = highHandComparison <= 0; // Includes tie
-				const dealerWinsLow = lowHandComparison <= 0;  // Includes tie
-
-				if (playerWinsHigh && playerWinsLow) {
-					outcome = 'Win';
-					winnings = player.currentBet!; // MVP: Even money, no commission
-					player.dannyBucks += player.currentBet! + winnings; // Original bet back + winnings
-				} else if (dealerWinsHigh && dealerWinsLow) {
-					outcome = 'Loss';
-					winnings = -player.currentBet!; // Lost the bet
-					// DB already deducted, no change needed here for loss
-				} else {
-					outcome = 'Push';
-					winnings = 0;
-					player.dannyBucks += player.currentBet!; // Return original bet
-				}
-
-				results.push({
-					playerId: player.id,
-					username: player.username,
-					outcome: outcome,
-					betAmount: player.currentBet,
-					winnings: winnings,
-					newBalance: player.dannyBucks,
-					playerHighHand: player.setHighHand,
-					playerLowHand: player.setLowHand,
-				});
-				console.log(`Player ${player.id} (${player.username}): ${outcome}. High: ${highHandComparison > 0 ? 'Win' : 'Lose/Tie'}, Low: ${lowHandComparison > 0 ? 'Win' : 'Lose/Tie'}. Winnings: ${winnings}. New balance: ${player.dannyBucks}`);
-
-			} catch (evalError: any) {
-				console.error(`Error comparing hands for player ${player.id}:`, evalError);
-				results.push({
-					playerId: player.id,
-					username: player.username,
-					outcome: 'Error',
-					betAmount: player.currentBet,
-					winnings: 0,
-					newBalance: player.dannyBucks,
-					playerHighHand: player.setHighHand,
-					playerLowHand: player.setLowHand,
-					error: `Evaluation/Comparison Error: ${evalError.message}`
-				});
-			}
-		});
-	}
-
-	// --- Broadcast Results ---
-	broadcast(gameTable, { // Pass gameTable
-		type: 'roundResult',
-		payload: {
-			results: results,
-			dealerDealtCards: dealer.dealtCards, // Show what dealer had
-			dealerHighHand: dealer.highHand,
-			dealerLowHand: dealer.lowHand,
-			isAceHighPaiGow: dealer.isAceHighPaiGow,
-		}
-	});
-	console.log("Round results broadcasted.");
-
-	// --- Reset logic moved to handleReadyForNextRound ---
-
-	// Transition state to indicate round is over, waiting for players to ready up
-	gameTable.gameState = 'RoundOver';
-	broadcast(gameTable, { // Pass gameTable
-		type: 'gameStateUpdate',
-		payload: {
-			gameState: gameTable.gameState,
-			message: 'Round over. Click "Start Next Round" when ready.'
-		}
-	});
-	console.log(`--- Showdown Complete. Game state transitioned to: ${gameTable.gameState} ---`);
-}
\ No newline at end of file
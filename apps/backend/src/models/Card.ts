@@ -4,4 +4,15 @@
 export interface Card {
 	rank: string; // '2', '3', ..., 'K', 'A', 'Joker'
 	suit: string; // 'Spades', 'Hearts', 'Diamonds', 'Clubs', 'Joker'
-}
\ No newline at end of file
+	id?: string; // Unique within the table's shoe (e.g. '2:A:Spades'); set on every dealt card
+	playsAs?: JokerSubstitution; // Set on a Joker in a hand reported at the showdown
+}
+
+/**
+ * What a Joker played as. The Joker is semi-wild: it plays as an Ace, or as whatever card
+ * completes a straight, flush or straight flush. The suit is null when it does not matter.
+ */
+export interface JokerSubstitution {
+	rank: string;
+	suit: string | null;
+}
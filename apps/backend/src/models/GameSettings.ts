@@ -0,0 +1,121 @@
+/**
+ * 7-card hands the Fortune bonus side bet pays on, best first.
+ */
+export const FORTUNE_HANDS = [
+	'SevenCardStraightFlush', // Natural 7-card straight flush, no Joker
+	'SevenCardStraightFlushWithJoker',
+	'FiveAces',
+	'RoyalFlush',
+	'StraightFlush',
+	'FourOfAKind',
+	'FullHouse',
+	'Flush',
+	'ThreeOfAKind',
+	'Straight',
+] as const;
+
+export type FortuneHand = (typeof FORTUNE_HANDS)[number];
+
+/**
+ * Payout per Fortune hand. The paytable holds odds ("to 1"); the envy table holds flat DannyBucks bonuses.
+ * A value of 0 means the hand pays nothing.
+ */
+export type FortunePaytable = Record<FortuneHand, number>;
+
+/**
+ * Hands that earn Envy bonuses for the other Fortune bettors at the table (Four of a Kind or better).
+ */
+export const ENVY_HANDS: readonly FortuneHand[] = FORTUNE_HANDS.slice(0, FORTUNE_HANDS.indexOf('FourOfAKind') + 1);
+
+/**
+ * Rules and limits a table is created with.
+ */
+export interface GameSettings {
+	startingDB: number; // DannyBucks each player receives when joining the table
+	minBet: number; // Smallest bet accepted at the table
+	maxBet: number; // Largest bet accepted at the table
+	betIncrement: number; // Every bet must be a multiple of this amount
+	fortunePaytable: FortunePaytable; // Odds paid on the Fortune bonus side bet
+	envyBonuses: FortunePaytable; // Flat bonus paid to Fortune bettors when another player hits an Envy hand
+	variant: string; // Id of the registered Variant played at the table (e.g., 'FaceUp')
+	commissionPercent: number; // Commission taken from winning bets in variants that charge one
+	playerBanking: boolean; // Players take turns banking the round against the rest of the table
+	houseWay: string; // Id of the house way the dealer (and players who run out of time) set hands by
+	// Deck composition; see DeckConfig in utils/Deck
+	deckCount: number; // 52-card decks in the shoe
+	jokersPerDeck: number; // Jokers added with each deck (0 to 2)
+	penetrationPercent: number; // Share of the shoe dealt before it is reshuffled; 0 reshuffles every round
+	// Phase timers in seconds; 0 turns the timer off and the phase waits for players or the host
+	bettingSeconds: number; // Betting window before cards are dealt
+	handSettingSeconds: number; // Time to set hands before unset hands are set using the House Way
+	resultDisplaySeconds: number; // Time results stay up before the next round opens for betting
+}
+
+/**
+ * Longest a phase timer can be set to, in seconds.
+ */
+export const MAX_PHASE_SECONDS = 3600;
+
+/**
+ * Largest commission a table can charge, in percent.
+ */
+export const MAX_COMMISSION_PERCENT = 25;
+
+/**
+ * Most decks a table's shoe can hold.
+ */
+export const MAX_DECK_COUNT = 8;
+
+/**
+ * Most Jokers that can be added with each deck.
+ */
+export const MAX_JOKERS_PER_DECK = 2;
+
+/**
+ * Deepest a shoe can be dealt before it is reshuffled, in percent.
+ */
+export const MAX_PENETRATION_PERCENT = 90;
+
+/**
+ * Settings used when a table is created without overrides.
+ */
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+	startingDB: 1000, // Default starting DannyBucks
+	minBet: 10, // Default table limits
+	maxBet: 500,
+	betIncrement: 5,
+	fortunePaytable: { // The common casino Fortune paytable
+		SevenCardStraightFlush: 8000,
+		SevenCardStraightFlushWithJoker: 1000,
+		FiveAces: 400,
+		RoyalFlush: 150,
+		StraightFlush: 50,
+		FourOfAKind: 25,
+		FullHouse: 5,
+		Flush: 4,
+		ThreeOfAKind: 3,
+		Straight: 2,
+	},
+	envyBonuses: {
+		SevenCardStraightFlush: 5000,
+		SevenCardStraightFlushWithJoker: 1000,
+		FiveAces: 250,
+		RoyalFlush: 50,
+		StraightFlush: 50,
+		FourOfAKind: 5,
+		FullHouse: 0,
+		Flush: 0,
+		ThreeOfAKind: 0,
+		Straight: 0,
+	},
+	variant: 'FaceUp', // Commission-free Face-Up Pai Gow
+	commissionPercent: 5, // The classic 5% house commission (only charged by the Classic variant)
+	playerBanking: false, // The AI dealer banks every round
+	houseWay: 'MaximizeLow', // Plays the strongest low hand
+	deckCount: 1, // A single 53-card deck, shuffled before every round
+	jokersPerDeck: 1,
+	penetrationPercent: 0,
+	bettingSeconds: 0, // Phase timers are off unless the host turns them on
+	handSettingSeconds: 0,
+	resultDisplaySeconds: 0,
+};
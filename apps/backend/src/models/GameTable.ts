@@ -1,54 +1,216 @@
-import { Player } from './Player';
+import type { Player } from './Player';
 import type { Card } from './Card';
+import { DEFAULT_GAME_SETTINGS, type GameSettings } from './GameSettings';
 import { Deck } from '../utils/Deck';
-import { setDealerHandHouseWay } from '../utils/houseWay'; // Import house way logic
-import { evaluate5CardHand, HAND_RANK } from '../utils/handEvaluator'; // Import evaluator for Ace-High check
+import { createSeededRng, cryptoRng, generateSeed } from '../utils/rng';
+import { combineRoundSeed, createRoundFairness, type RoundFairness } from '../utils/provablyFair';
+import { setHandHouseWay } from '../houseWays/registry'; // Import house way logic
+import { evaluate2CardHand, evaluate5CardHand, HAND_RANK } from '../utils/handEvaluator'; // Import evaluator for the dealer push check
+import { formatCards } from '../utils/cardNotation';
+import {
+	applyPlayerSnapshot,
+	applyTableSnapshot,
+	createTableSnapshot,
+	freezeTableSnapshot,
+	type PlayerSnapshot,
+	type TableSnapshot,
+} from '../utils/tableSnapshot';
+import { getVariant } from '../variants/registry';
+import type { Variant } from '../variants/Variant';
+
+/**
+ * Every state a table's game can be in.
+ */
+export const GAME_STATES = [
+	'WaitingForPlayers',
+	'Betting',
+	'Dealing',
+	'PlayerAction',
+	'AceHighPush',
+	'Showdown',
+	'RoundOver',
+];
+
+/**
+ * State of a table the host has paused. The interrupted phase is kept in GameTable.pausedState.
+ * It is not one of GAME_STATES because snapshots always store the interrupted phase instead.
+ */
+export const PAUSED_STATE = 'Paused';
+
+/**
+ * Phases that only last an instant before the server moves on by itself.
+ * They are recorded in the turn history but cannot be stepped back to or loaded, since nothing would resume them.
+ */
+export const TRANSIENT_STATES = ['Dealing', 'Showdown'];
+
+/**
+ * Phases between two deals, when the next deal may still come from a new shuffle.
+ */
+const BETWEEN_ROUNDS_STATES = ['WaitingForPlayers', 'Betting', 'RoundOver'];
+
+/**
+ * Most phase snapshots kept per table. The oldest are dropped first.
+ */
+export const MAX_TURN_HISTORY = 50;
+
+/**
+ * Structure for the dealer's hand.
+ */
+export interface DealerHand {
+	dealtCards: Card[] | null;
+	highHand: Card[] | null; // 5-card hand
+	lowHand: Card[] | null; // 2-card hand
+	isAceHighPaiGow: boolean; // Dealer hand pushes every bet under the table's variant (Ace-High Pai Gow in Face-Up)
+}
+
+/**
+ * Lobby-facing summary of a table, as sent in 'tableListUpdate' messages.
+ */
+export interface TableSummary {
+	id: string;
+	hostName: string | null;
+	playerCount: number;
+	variant: string;
+	minBet: number;
+	maxBet: number;
+	gameState: string;
+}
 
 /**
  * Represents the state of a single Pai Gow Poker game table/session.
- * For the MVP, there will only be one instance of this.
+ * Instances are created and looked up through the TableManager.
  */
 export class GameTable {
 	id: string; // Unique identifier for the table (e.g., generated UUID)
 	hostId: string | null; // Player.id of the host (simplified for MVP)
 	players: Map<string, Player>; // Map of Player.id to Player object
-	gameState: string; // e.g., 'WaitingForPlayers', 'Betting', 'Dealing', 'PlayerAction', 'Showdown'
+	gameState: string; // e.g., 'WaitingForPlayers', 'Betting', 'Dealing', 'PlayerAction', 'Showdown', 'Paused'
+	pausedState: string | null; // The phase interrupted by a pause, null while not paused
+	phaseTimer: ReturnType<typeof setTimeout> | null; // Pending timer that ends the current phase
+	phaseDeadline: number | null; // Epoch ms when the current phase timer fires, null when no timer runs
+	pausedTimeLeftMs: number | null; // Time the phase timer had left when the game was paused
 	deck: Deck; // Use the Deck class instance
-	dealerHand: {
-		// Structure for the dealer's hand
-		dealtCards: Card[] | null;
-		highHand: Card[] | null; // 5-card hand
-		lowHand: Card[] | null; // 2-card hand
-		isAceHighPaiGow: boolean;
-	};
-	gameSettings: {
-		// Basic game settings
-		startingDB: number;
-		fixedBetAmount: number; // For MVP
-	};
-	// turnHistory: any[]; // Optional for step-back, not in MVP
+	roundSeed: string | null; // Seed the shoe in play was shuffled with, so its deals can be replayed; null before a new shuffle
+	fairness: RoundFairness | null; // Committed server seed and client seeds of the coming shuffle or the shoe in play; never saved
+	dealerHand: DealerHand;
+	bankerUsername: string | null; // Player banking the current round, null when the AI dealer banks
+	gameSettings: GameSettings; // Rules and limits chosen when the table was created
+	reservedSeats: Map<string, PlayerSnapshot>; // Seats restored from a snapshot, keyed by username, waiting to be reclaimed
+	reservedHostUsername: string | null; // Username of the restored host, who takes the host role back on return
+	turnHistory: Readonly<TableSnapshot>[]; // Frozen snapshots taken at each phase transition, oldest first
 
 	/**
 	 * Creates a new GameTable instance.
 	 * @param {string} id - The unique ID for the game table.
+	 * @param {GameSettings} [gameSettings] - Settings for the table. Defaults are used when omitted.
 	 */
-	constructor(id: string) {
+	constructor(id: string, gameSettings: GameSettings = DEFAULT_GAME_SETTINGS) {
 		this.id = id;
 		this.hostId = null; // Will be assigned to the first player in MVP
 		this.players = new Map<string, Player>();
 		this.gameState = 'WaitingForPlayers'; // Initial state
-		this.deck = new Deck(); // Initialize the deck instance
+		this.pausedState = null;
+		this.phaseTimer = null;
+		this.phaseDeadline = null;
+		this.pausedTimeLeftMs = null;
+		this.gameSettings = { ...gameSettings };
+		this.deck = new Deck(cryptoRng, this.gameSettings); // Initialize the deck instance
+		this.roundSeed = null;
+		this.fairness = null;
 		this.dealerHand = {
 			dealtCards: null,
 			highHand: null,
 			lowHand: null,
 			isAceHighPaiGow: false,
 		};
-		this.gameSettings = {
-			startingDB: 1000, // Default starting DannyBucks
-			fixedBetAmount: 10, // Default fixed bet for MVP
-		};
-		// this.turnHistory = [];
+		this.bankerUsername = null;
+		this.reservedSeats = new Map<string, PlayerSnapshot>();
+		this.reservedHostUsername = null;
+		this.turnHistory = [];
+	}
+
+	/**
+	 * Looks up the rules of the variant the table was created with.
+	 * @returns {Variant} The table's variant.
+	 */
+	getVariantRules(): Variant {
+		return getVariant(this.gameSettings.variant);
+	}
+
+	/**
+	 * Checks whether the dealer's cards must be kept from the players right now.
+	 * Variants that deal the dealer face down, and player-banked rounds, keep the hand hidden until the showdown.
+	 * @returns {boolean} True if the dealer's cards must not be sent to clients.
+	 */
+	isDealerHandHidden(): boolean {
+		if (!this.getVariantRules().hidesDealerHand && this.bankerUsername === null) {
+			return false;
+		}
+		const phase = this.pausedState ?? this.gameState;
+		return phase !== 'Showdown' && phase !== 'RoundOver';
+	}
+
+	/**
+	 * Finds the seated player banking the current round.
+	 * @returns {Player | null} The banker, or null if the AI dealer banks or the banker is not seated.
+	 */
+	getBanker(): Player | null {
+		if (this.bankerUsername === null) {
+			return null;
+		}
+		return Array.from(this.players.values()).find(p => p.username === this.bankerUsername) ?? null;
+	}
+
+	/**
+	 * Checks whether a player is banking the current round.
+	 * @param {Player} player - The player to check.
+	 * @returns {boolean} True if the player is the banker.
+	 */
+	isBanker(player: Player): boolean {
+		return this.bankerUsername !== null && player.username === this.bankerUsername;
+	}
+
+	/**
+	 * Passes the bank to the next eligible player in seat order, after the previous banker.
+	 * A player is eligible if someone else is seated to bet against them and they can cover a minimum bet.
+	 * The AI dealer takes the bank when player banking is off or nobody is eligible.
+	 * Call this when betting opens, before any bet is placed.
+	 * @returns {Player | null} The new banker, or null if the AI dealer banks.
+	 */
+	rotateBanker(): Player | null {
+		const seated = Array.from(this.players.values()).filter(p => p.username);
+		const eligible = this.gameSettings.playerBanking && seated.length >= 2
+			? seated.filter(p => p.dannyBucks >= this.gameSettings.minBet)
+			: [];
+		const previousIndex = seated.findIndex(p => p.username === this.bankerUsername);
+		const rotation = [...seated.slice(previousIndex + 1), ...seated.slice(0, previousIndex + 1)];
+		const banker = rotation.find(p => eligible.includes(p));
+		if (!banker) {
+			this.bankerUsername = null;
+			return null;
+		}
+		this.bankerUsername = banker.username;
+		console.log(`Player ${banker.id} (${banker.username}) banks the round at table ${this.id}.`);
+		return banker;
+	}
+
+	/**
+	 * Works out how much more the banker can cover. The bank is capped by the banker's DannyBucks.
+	 * @param {string} exceptPlayerId - Player whose current bet is left out, e.g. because they are changing it.
+	 * @returns {number | null} DannyBucks still open in the bank, or null if the AI dealer banks (no cap).
+	 */
+	getOpenBank(exceptPlayerId: string): number | null {
+		const banker = this.getBanker();
+		if (!banker) {
+			return null;
+		}
+		let covered = 0;
+		this.players.forEach((player) => {
+			if (player.id !== exceptPlayerId && player.username) {
+				covered += player.currentBet ?? 0;
+			}
+		});
+		return Math.max(banker.dannyBucks - covered, 0);
 	}
 
 	/**
@@ -76,6 +238,10 @@ export class GameTable {
 		const player = this.players.get(playerId);
 		if (player) {
 			this.players.delete(playerId);
+			// A banker leaving before the deal hands the bank back to the dealer; after the deal, the showdown pushes
+			if (this.isBanker(player) && this.dealerHand.dealtCards === null) {
+				this.bankerUsername = null;
+			}
 			console.log(`Player ${playerId} (${player.username || 'unknown'}) removed from table ${this.id}. Total players: ${this.players.size}`);
 
 			// Handle host leaving (simple reassignment for MVP if needed, or end game)
@@ -93,6 +259,8 @@ export class GameTable {
 					console.log('Table is now empty.');
 					// Reset game state?
 					this.gameState = 'WaitingForPlayers';
+					this.pausedState = null;
+					this.clearPhaseTimer();
 				}
 			}
 		}
@@ -110,20 +278,257 @@ export class GameTable {
 		return this.players.get(connectionId);
 	}
 
+	/**
+	 * Makes a seated player the host, taking the role away from the previous host.
+	 * @param {string} playerId - The ID of the new host.
+	 */
+	setHost(playerId: string) {
+		const newHost = this.players.get(playerId);
+		if (!newHost || this.hostId === playerId) {
+			return;
+		}
+		const currentHost = this.hostId ? this.players.get(this.hostId) : undefined;
+		if (currentHost) {
+			currentHost.isHost = false;
+		}
+		this.hostId = playerId;
+		newHost.isHost = true;
+		this.reservedHostUsername = null;
+		console.log(`Player ${playerId} (${newHost.username || 'unknown'}) is now host of table ${this.id}.`);
+	}
+
+	/**
+	 * Hands a reserved seat back to a player whose username matches it.
+	 * The player's balance, bet and hand are restored from the reservation.
+	 * @param {Player} player - A player already added to this table.
+	 * @returns {boolean} True if a reserved seat was found and claimed.
+	 */
+	claimReservedSeat(player: Player): boolean {
+		if (!player.username) {
+			return false;
+		}
+		const seat = this.reservedSeats.get(player.username);
+		if (!seat) {
+			return false;
+		}
+		applyPlayerSnapshot(player, seat);
+		this.reservedSeats.delete(player.username);
+
+		// The restored host takes their role back
+		if (this.reservedHostUsername === player.username) {
+			this.setHost(player.id);
+		}
+		console.log(`Player ${player.id} (${player.username}) reclaimed their seat at table ${this.id}.`);
+		return true;
+	}
+
+	/**
+	 * Checks whether the host has paused the game.
+	 * @returns {boolean} True while the table is paused.
+	 */
+	isPaused(): boolean {
+		return this.gameState === PAUSED_STATE;
+	}
+
+	/**
+	 * Pauses the game, remembering the phase it interrupted.
+	 * @returns {boolean} True if the game was paused, false if it already was.
+	 */
+	pause(): boolean {
+		if (this.isPaused()) {
+			return false;
+		}
+		this.pausedState = this.gameState;
+		this.gameState = PAUSED_STATE;
+		// Freeze the phase timer; resuming restarts it with the time that was left
+		this.pausedTimeLeftMs = this.phaseDeadline !== null ? Math.max(0, this.phaseDeadline - Date.now()) : null;
+		this.clearPhaseTimer();
+		console.log(`Table ${this.id} paused during ${this.pausedState}.`);
+		return true;
+	}
+
+	/**
+	 * Resumes a paused game in exactly the phase that was interrupted.
+	 * @returns {boolean} True if the game was resumed, false if it was not paused.
+	 */
+	resume(): boolean {
+		if (!this.isPaused() || !this.pausedState) {
+			return false;
+		}
+		this.gameState = this.pausedState;
+		this.pausedState = null;
+		console.log(`Table ${this.id} resumed in ${this.gameState}.`);
+		return true;
+	}
+
+	/**
+	 * Starts the timer that ends the current phase, replacing any timer already running.
+	 * @param {number} durationMs - Time until the phase ends, in milliseconds.
+	 * @param {() => void} onExpire - Called once when the timer fires.
+	 */
+	startPhaseTimer(durationMs: number, onExpire: () => void) {
+		this.clearPhaseTimer();
+		this.phaseDeadline = Date.now() + durationMs;
+		this.phaseTimer = setTimeout(() => {
+			this.phaseTimer = null;
+			this.phaseDeadline = null;
+			onExpire();
+		}, durationMs);
+		this.phaseTimer.unref?.(); // A pending phase timer alone should not keep the process alive
+	}
+
+	/**
+	 * Stops the current phase timer, if any.
+	 */
+	clearPhaseTimer() {
+		if (this.phaseTimer) {
+			clearTimeout(this.phaseTimer);
+		}
+		this.phaseTimer = null;
+		this.phaseDeadline = null;
+	}
+
+	/**
+	 * Records the table as it is right now in the turn history. Call this right after a phase transition.
+	 */
+	recordTurn() {
+		this.turnHistory.push(freezeTableSnapshot(createTableSnapshot(this)));
+		if (this.turnHistory.length > MAX_TURN_HISTORY) {
+			this.turnHistory.shift();
+		}
+	}
+
+	/**
+	 * Picks a new secret server seed for the coming shuffle. Its commitment is announced when betting opens.
+	 * @returns {RoundFairness} The new seed with its commitment, also kept in fairness.
+	 */
+	openSeedCommitment(): RoundFairness {
+		this.fairness = createRoundFairness(this.gameSettings);
+		return this.fairness;
+	}
+
+	/**
+	 * Gets the shoe ready for the coming deal. Once the last shoe is finished (its seed revealed), there
+	 * is none, or players joined since and it is too short for them, the next deal shuffles a new one
+	 * from a freshly committed server seed.
+	 * @returns {RoundFairness} The seed and commitment the coming deal is dealt from.
+	 */
+	prepareShoe(): RoundFairness {
+		const seatedHands = (this.players.size + 1) * 7;
+		if (!this.fairness || (this.roundSeed !== null && this.deck.remainingCards() < seatedHands)) {
+			this.roundSeed = null;
+			return this.openSeedCommitment();
+		}
+		return this.fairness;
+	}
+
+	/**
+	 * Checks whether the shoe in play is finished: its cut card came out, or it may be too short
+	 * for a full table next round. A single deck with no penetration is finished after every round.
+	 * @returns {boolean} True if the next deal should come from a new shuffle.
+	 */
+	isShoeFinished(): boolean {
+		return this.deck.isPastCutCard((this.players.size + 1) * 7);
+	}
+
+	/**
+	 * Rewinds the table to the start of the previous phase recorded in the turn history.
+	 * Balances, bets and hands go back to how they were, so bets placed since are refunded. Cards dealt since
+	 * stay out of the shoe, though: dealing them again would hand out cards everyone has already seen.
+	 * Players who joined since keep their balance but sit the restored round out; the host stays the host.
+	 * @returns {string | null} The restored game state, or null if there is nothing to step back to.
+	 */
+	stepBack(): string | null {
+		// The last entry is the phase in progress; skip it and any instant phases before it
+		let targetIndex = this.turnHistory.length - 2;
+		while (targetIndex >= 0 && TRANSIENT_STATES.includes(this.turnHistory[targetIndex].gameState)) {
+			targetIndex--;
+		}
+		if (targetIndex < 0) {
+			return null;
+		}
+
+		const target = this.turnHistory[targetIndex];
+		const hostId = this.hostId;
+		const wasPaused = this.isPaused();
+		const dealtSince = this.turnHistory.slice(targetIndex + 1).some(turn => turn.gameState === 'Dealing');
+		const shoeInPlay = this.roundSeed;
+		const deckAfterDeal = this.deck.getCards();
+		applyTableSnapshot(this, target);
+		if (dealtSince && this.roundSeed !== null && this.roundSeed === shoeInPlay) {
+			this.deck.setCards(deckAfterDeal); // Deal on from the same shoe, past the cards already dealt
+		}
+		if (BETWEEN_ROUNDS_STATES.includes(this.gameState) && this.roundSeed !== null) {
+			// A shoe whose seed is out (revealed when it finished) or not the one committed to is never dealt
+			// from again, and neither is a finished shoe reshuffled from the same seed: commit to a new one
+			const fairness = this.fairness;
+			if (!fairness || this.roundSeed !== combineRoundSeed(fairness.serverSeed, fairness.clientSeeds) || this.isShoeFinished()) {
+				this.roundSeed = null;
+				this.fairness = null;
+				this.prepareShoe();
+			}
+		}
+		if (wasPaused) {
+			// Stay paused; resuming picks up in the restored phase with a fresh timer
+			this.pausedState = this.gameState;
+			this.gameState = PAUSED_STATE;
+			this.pausedTimeLeftMs = null;
+		}
+		if (hostId) {
+			this.setHost(hostId);
+			this.reservedHostUsername = null; // A live host already runs the table
+		}
+		// The restored phase becomes the one in progress
+		this.turnHistory = this.turnHistory.slice(0, targetIndex + 1);
+		console.log(`Table ${this.id} stepped back to ${this.pausedState ?? this.gameState}.`);
+		return this.pausedState ?? this.gameState;
+	}
+
+	/**
+	 * Builds the public summary of this table shown in the lobby.
+	 * @returns {TableSummary} The table's ID, host name, player count, variant, bet limits and state.
+	 */
+	getSummary(): TableSummary {
+		const host = this.hostId ? this.players.get(this.hostId) : undefined;
+		return {
+			id: this.id,
+			hostName: host?.username ?? this.reservedHostUsername, // Restored tables show who hosted them
+			playerCount: this.players.size,
+			variant: this.gameSettings.variant,
+			minBet: this.gameSettings.minBet,
+			maxBet: this.gameSettings.maxBet,
+			gameState: this.gameState,
+		};
+	}
+
 	// TODO: Add methods for game logic (set state, etc.)
 
 	/**
 	 * Starts a new round of Pai Gow Poker.
-	 * Resets/shuffles the deck and deals cards to active players and the dealer.
+	 * Shuffles a new deck or shoe unless one is still in play, and deals cards to active players and the dealer.
 	 * Assumes betting has already occurred for the players involved.
+	 * The shuffle is driven by a seed recorded in roundSeed: Deck.fromSeed(roundSeed, gameSettings) gives back the same order.
+	 * @param {string} [seed] - Seed for a new shuffle, e.g. to replay a reported deal. A fresh random seed by default; unused while a shoe is in play.
 	 */
-	startNewRound() {
+	startNewRound(seed: string = generateSeed()) {
 		console.log(`Starting new round for table ${this.id}...`);
 		this.gameState = 'Dealing';
+		this.recordTurn();
+
+		// Identify active players (those with usernames who have placed a bet)
+		const activePlayers = Array.from(this.players.values()).filter(
+			(p) => p.username && p.currentBet !== null && p.currentBet > 0
+		);
 
-		// Reset hands and deck
-		this.deck.reset();
-		this.deck.shuffle();
+		// Reset hands, and shuffle a new shoe if needed (the Dealer's or banker's hand is dealt too)
+		if (this.roundSeed === null || this.deck.isPastCutCard((activePlayers.length + 1) * 7)) {
+			this.roundSeed = seed;
+			this.deck.reset(this.fairness?.shoe ?? this.gameSettings); // The shoe the seed was committed for
+			this.deck.shuffle(createSeededRng(seed));
+			console.log(`Shuffle seed for table ${this.id}: ${seed}`);
+		} else {
+			console.log(`Table ${this.id} deals on from its shoe: ${this.deck.remainingCards()} cards left.`);
+		}
 		this.dealerHand = {
 			dealtCards: null,
 			highHand: null,
@@ -135,12 +540,6 @@ export class GameTable {
 			// player.currentBet = null; // Bet should persist from betting phase
 		});
 
-		// Identify active players (those with usernames who have placed a bet - simplified for now)
-		// Identify active players (those with usernames who have placed a bet)
-		const activePlayers = Array.from(this.players.values()).filter(
-			(p) => p.username && p.currentBet !== null && p.currentBet > 0
-		);
-
 		if (activePlayers.length === 0) {
 			console.log('No active players to start round.');
 			this.gameState = 'WaitingForPlayers';
@@ -164,7 +563,25 @@ export class GameTable {
 			}
 		});
 
-		// Deal 7 cards to the dealer
+		// --- Player-Banked Round ---
+		// The banker's 7 cards replace the dealer hand; the banker sets them like any player before the showdown
+		const banker = this.getBanker();
+		if (banker) {
+			banker.currentHand = this.deck.deal(7);
+			this.dealerHand.dealtCards = banker.currentHand.map(card => ({ ...card }));
+			console.log(`Dealt 7 cards to banker ${banker.id} (${banker.username}). Deck remaining: ${this.deck.remainingCards()}`);
+			if (banker.ws.readyState === banker.ws.OPEN) {
+				banker.ws.send(JSON.stringify({
+					type: 'dealHand',
+					payload: { hand: banker.currentHand }
+				}));
+			}
+			this.gameState = 'PlayerAction';
+			console.log(`Dealing complete for a player-banked round. Game state changed to: ${this.gameState}`);
+			this.recordTurn();
+			return;
+		}
+
 		// Deal 7 cards to the dealer
 		this.dealerHand.dealtCards = this.deck.deal(7); // Original line restored
 		console.log(`Dealt 7 cards to dealer. Deck remaining: ${this.deck.remainingCards()}`);
@@ -178,24 +595,30 @@ export class GameTable {
 			return;
 		}
 
-		// --- Set Dealer Hand using House Way ---
-		const dealerSetHand = setDealerHandHouseWay(this.dealerHand.dealtCards);
+		// --- Set Dealer Hand using the table's House Way ---
+		const dealerSetHand = setHandHouseWay(this.dealerHand.dealtCards, this.gameSettings.houseWay);
 		this.dealerHand.highHand = dealerSetHand.highHand;
 		this.dealerHand.lowHand = dealerSetHand.lowHand;
-		console.log("Dealer hand set via House Way.");
+		// Logged here rather than in the house way, which the split advisor runs thousands of times per request
+		console.log(`Dealer hand set via House Way ${this.gameSettings.houseWay}: high ${formatCards(dealerSetHand.highHand)}, low ${formatCards(dealerSetHand.lowHand)}`);
 
-		// --- Check for Ace-High Pai Gow ---
-		const dealerHighEval = evaluate5CardHand(this.dealerHand.highHand);
-		this.dealerHand.isAceHighPaiGow = dealerHighEval.isAceHighPaiGow ?? false; // Use the flag from evaluator
+		// --- Check for a dealer push (Ace-High Pai Gow in Face-Up) ---
+		// The variant decides which dealer hands push; a face-down push is only revealed at the showdown
+		const variant = this.getVariantRules();
+		this.dealerHand.isAceHighPaiGow = variant.isDealerPush(
+			evaluate5CardHand(this.dealerHand.highHand),
+			evaluate2CardHand(this.dealerHand.lowHand)
+		);
 
-		if (this.dealerHand.isAceHighPaiGow) {
-			console.log("Dealer has Ace-High Pai Gow! Round is a push.");
+		if (this.dealerHand.isAceHighPaiGow && !variant.hidesDealerHand) {
+			console.log(`Dealer has ${variant.dealerPushLabel}! Round is a push.`);
 			this.gameState = 'AceHighPush';
 		} else {
-			console.log("Dealer does not have Ace-High Pai Gow. Proceeding to player action.");
+			console.log("Dealer hand does not push face up. Proceeding to player action.");
 			this.gameState = 'PlayerAction'; // State where players set their hands
 		}
 		console.log(`Dealing and dealer setting complete. Game state changed to: ${this.gameState}`);
+		this.recordTurn();
 
 		// TODO: Broadcast game state update including dealer's revealed 7 cards,
 		// set hands, and aceHighPaiGow status (Likely done back in index.ts after calling this)
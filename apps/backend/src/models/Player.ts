@@ -12,9 +12,12 @@ export class Player {
 	setHighHand: Card[] | null; // Player's chosen 5-card hand
 	setLowHand: Card[] | null; // Player's chosen 2-card hand
 	currentBet: number | null; // Amount bet for the current round
+	sideBet: number | null; // Fortune bonus side bet for the current round, null if none
 	hasSetHand: boolean; // Flag if player has set their hand this round
 	isHost: boolean; // Is this player the host? (Simplified for MVP)
 	isReadyForNextRound: boolean; // Flag if player has indicated they are ready for the next round
+	tableId: string | null; // GameTable.id of the table this player is seated at, null if unseated
+	splitAnalysisAvailableAt: number; // Date.now() time from which the player may have their splits sampled again
 	ws: WebSocket; // Reference to the player's WebSocket connection
 
 	/**
@@ -31,8 +34,11 @@ export class Player {
 		this.setHighHand = null;
 		this.setLowHand = null;
 		this.currentBet = null;
+		this.sideBet = null;
 		this.hasSetHand = false;
 		this.isHost = false; // Host status determined later
 		this.isReadyForNextRound = false; // Player is not ready initially
+		this.tableId = null; // Seated later by the TableManager
+		this.splitAnalysisAvailableAt = 0; // No analysis requested yet
 	}
 }
\ No newline at end of file
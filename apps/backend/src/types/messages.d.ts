@@ -3,5 +3,5 @@
  */
 export interface WebSocketMessage {
 	type: string;
-	payload: any; // Use 'any' for now, refine with specific types later
+	payload?: Record<string, unknown>; // From clients this is untrusted: handlers check every field they read
 }
\ No newline at end of file
@@ -1,21 +1,56 @@
 import type { Card } from '../models/Card';
+import { createSeededRng, cryptoRng, type Rng } from './rng';
 
 /**
- * Represents a standard 53-card deck (including Joker) for Pai Gow Poker.
+ * What a deck or shoe is made of, and how far it is dealt before it is reshuffled.
+ */
+export interface DeckConfig {
+	deckCount: number; // 52-card decks shuffled together
+	jokersPerDeck: number; // 0, 1 or 2 Jokers added with each deck
+	penetrationPercent: number; // Share of the shoe dealt before the cut card comes out; 0 reshuffles every round
+}
+
+/**
+ * The standard Pai Gow deck: 52 cards plus one Joker, reshuffled before every round.
+ */
+export const STANDARD_DECK_CONFIG: DeckConfig = { deckCount: 1, jokersPerDeck: 1, penetrationPercent: 0 };
+
+/**
+ * Represents the deck (or multi-deck shoe) for Pai Gow Poker.
  * Provides functionality for creating, shuffling, and dealing cards.
+ * Every card carries an id that is unique within the shoe, so identical cards from different decks can be told apart.
  */
 export class Deck {
 	private cards: Card[];
+	private rng: Rng;
+	private config: DeckConfig;
 
 	/**
-	 * Initializes a new Deck instance with a standard 53-card set.
+	 * Initializes a new Deck instance with a full, unshuffled set of cards.
+	 * @param {Rng} [rng] - Source of randomness for shuffling. Cryptographically secure unless a seeded one is given.
+	 * @param {DeckConfig} [config] - Decks, Jokers and penetration. The standard 53-card deck by default.
 	 */
-	constructor() {
+	constructor(rng: Rng = cryptoRng, config: DeckConfig = STANDARD_DECK_CONFIG) {
+		this.config = { deckCount: config.deckCount, jokersPerDeck: config.jokersPerDeck, penetrationPercent: config.penetrationPercent };
 		this.cards = this.generateDeck();
+		this.rng = rng;
 	}
 
 	/**
-	 * Generates a standard 53-card deck.
+	 * Builds a full deck shuffled by a seeded generator: the same seed always gives the same order.
+	 * @param {string} seed - The seed, e.g. the one recorded with a round.
+	 * @param {DeckConfig} [config] - What the deck is made of. The standard 53-card deck by default.
+	 * @returns {Deck} The shuffled deck.
+	 */
+	static fromSeed(seed: string, config: DeckConfig = STANDARD_DECK_CONFIG): Deck {
+		const deck = new Deck(createSeededRng(seed), config);
+		deck.shuffle();
+		return deck;
+	}
+
+	/**
+	 * Generates the unshuffled cards: each deck's 52 cards by suit and rank, then its Jokers.
+	 * Ids look like '2:A:Spades' (the Ace of Spades from the second deck) or '1:Joker:2'.
 	 * @returns {Card[]} An array representing the deck.
 	 */
 	private generateDeck(): Card[] {
@@ -23,29 +58,51 @@ export class Deck {
 		const ranks = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
 		const deck: Card[] = [];
 
-		for (const suit of suits) {
-			for (const rank of ranks) {
-				deck.push({ suit, rank });
+		for (let deckNumber = 1; deckNumber <= this.config.deckCount; deckNumber++) {
+			for (const suit of suits) {
+				for (const rank of ranks) {
+					deck.push({ suit, rank, id: `${deckNumber}:${rank}:${suit}` });
+				}
+			}
+			// Add the Jokers
+			for (let joker = 1; joker <= this.config.jokersPerDeck; joker++) {
+				deck.push({ suit: 'Joker', rank: 'Joker', id: `${deckNumber}:Joker:${joker}` });
 			}
 		}
 
-		// Add the Joker
-		deck.push({ suit: 'Joker', rank: 'Joker' });
-
 		return deck;
 	}
 
+	/**
+	 * Returns how many cards the full deck or shoe holds.
+	 * @returns {number} The number of cards before any are dealt.
+	 */
+	size(): number {
+		return this.config.deckCount * (52 + this.config.jokersPerDeck);
+	}
+
+	/**
+	 * Checks whether the cut card has come out, so the shoe should be reshuffled before the next deal.
+	 * @param {number} [reserve] - Cards the next deal may need; a shoe with fewer left is finished too.
+	 * @returns {boolean} True if the shoe is dealt past its penetration or too short for the next deal.
+	 */
+	isPastCutCard(reserve = 0): boolean {
+		const cutCardRemaining = Math.ceil(this.size() * (100 - this.config.penetrationPercent) / 100);
+		return this.cards.length < Math.max(cutCardRemaining, reserve);
+	}
+
 	/**
 	 * Shuffles the deck using the Fisher-Yates (Knuth) algorithm.
+	 * @param {Rng} [rng] - Source of randomness for this shuffle only, e.g. a round's seeded generator.
 	 */
-	shuffle(): void {
+	shuffle(rng: Rng = this.rng): void {
 		let currentIndex = this.cards.length;
 		let randomIndex: number;
 
 		// While there remain elements to shuffle.
 		while (currentIndex !== 0) {
 			// Pick a remaining element.
-			randomIndex = Math.floor(Math.random() * currentIndex);
+			randomIndex = rng.randomInt(currentIndex);
 			currentIndex--;
 
 			// And swap it with the current element.
@@ -81,10 +138,28 @@ export class Deck {
 	}
 
 	/**
-	 * Resets the deck to a full, unshuffled 53-card set.
+	 * Returns a copy of the cards left in the deck, in dealing order (last card is dealt first).
+	 * @returns {Card[]} The remaining cards.
+	 */
+	getCards(): Card[] {
+		return this.cards.map(card => ({ ...card }));
+	}
+
+	/**
+	 * Replaces the remaining cards, e.g. when restoring a saved table.
+	 * @param {Card[]} cards - The cards to use, in dealing order (last card is dealt first).
+	 */
+	setCards(cards: Card[]): void {
+		this.cards = cards.map(card => ({ ...card }));
+	}
+
+	/**
+	 * Resets the deck to a full, unshuffled set.
+	 * @param {DeckConfig} [config] - What the new deck or shoe is made of, e.g. after the table's settings changed. Unchanged by default.
 	 */
-	reset(): void {
+	reset(config: DeckConfig = this.config): void {
+		this.config = { deckCount: config.deckCount, jokersPerDeck: config.jokersPerDeck, penetrationPercent: config.penetrationPercent };
 		this.cards = this.generateDeck();
-		console.log('Deck reset to full 53 cards.');
+		console.log(`Deck reset to full ${this.cards.length} cards.`);
 	}
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { GameTable } from '../models/GameTable';
+import type { TableManager } from '../TableManager';
+import { applyTableSnapshot, createTableSnapshot, parseTableSnapshot } from './tableSnapshot';
+
+/**
+ * Directory the table autosaves are written to. Mount it as a volume to keep tables across container restarts.
+ */
+export const AUTOSAVE_DIR = process.env.AUTOSAVE_DIR || path.join(process.cwd(), 'data', 'tables');
+
+/**
+ * How often every table is saved, on top of the saves after each state transition.
+ */
+export const AUTOSAVE_INTERVAL_MS = Number(process.env.AUTOSAVE_INTERVAL_MS) || 30_000;
+
+/**
+ * Builds the autosave file path for a table. The ID is encoded so it can never escape the directory.
+ * @param {string} tableId - The ID of the table.
+ * @param {string} [dir] - The autosave directory.
+ * @returns {string} The path of the table's autosave file.
+ */
+export function getAutosavePath(tableId: string, dir: string = AUTOSAVE_DIR): string {
+	return path.join(dir, `${encodeURIComponent(tableId)}.json`);
+}
+
+/**
+ * Writes a table's snapshot to disk. The file is written next to the old one and renamed over it,
+ * so a crash mid-write never leaves a half-written save behind.
+ * Errors are logged rather than thrown: a failed save must never interrupt the game.
+ * @param {GameTable} gameTable - The table to save.
+ * @param {string} [dir] - The autosave directory.
+ * @returns {boolean} True if the table was saved.
+ */
+export function autosaveTable(gameTable: GameTable, dir: string = AUTOSAVE_DIR): boolean {
+	const filePath = getAutosavePath(gameTable.id, dir);
+	const tempPath = `${filePath}.tmp`;
+	try {
+		fs.mkdirSync(dir, { recursive: true });
+		fs.writeFileSync(tempPath, JSON.stringify(createTableSnapshot(gameTable)));
+		fs.renameSync(tempPath, filePath);
+		return true;
+	} catch (error) {
+		console.error(`Failed to autosave table ${gameTable.id}:`, error);
+		return false;
+	}
+}
+
+/**
+ * Saves every active table and deletes the autosaves of tables that no longer exist.
+ * Rejected autosaves were renamed on restore, so they are not among the files removed.
+ * @param {TableManager} tableManager - The manager holding the tables.
+ * @param {string} [dir] - The autosave directory.
+ * @returns {number} The number of tables saved.
+ */
+export function autosaveAllTables(tableManager: TableManager, dir: string = AUTOSAVE_DIR): number {
+	let saved = 0;
+	tableManager.getTables().forEach((gameTable) => {
+		if (autosaveTable(gameTable, dir)) saved++;
+	});
+
+	if (!fs.existsSync(dir)) {
+		return saved;
+	}
+	const activeFiles = new Set(tableManager.getTables().map((gameTable) => path.basename(getAutosavePath(gameTable.id, dir))));
+	fs.readdirSync(dir)
+		.filter((fileName) => fileName.endsWith('.json') && !activeFiles.has(fileName))
+		.forEach((fileName) => {
+			try {
+				fs.unlinkSync(path.join(dir, fileName));
+				console.log(`Removed autosave of disposed table: ${fileName}`);
+			} catch (error) {
+				console.error(`Failed to remove stale autosave ${fileName}:`, error);
+			}
+		});
+	return saved;
+}
+
+/**
+ * Rebuilds every autosaved table, e.g. when the server starts after a restart or crash.
+ * Restored tables start empty; players get their seats back by joining with the same username.
+ * Files that cannot be read or fail validation are skipped and renamed to `<name>.json.invalid`, so they
+ * stay on disk for inspection instead of being cleaned up as the autosave of a disposed table.
+ * @param {TableManager} tableManager - The manager to restore the tables into.
+ * @param {string} [dir] - The autosave directory.
+ * @returns {GameTable[]} The restored tables.
+ */
+export function restoreAutosavedTables(tableManager: TableManager, dir: string = AUTOSAVE_DIR): GameTable[] {
+	if (!fs.existsSync(dir)) {
+		return [];
+	}
+
+	const restored: GameTable[] = [];
+	fs.readdirSync(dir)
+		.filter((fileName) => fileName.endsWith('.json'))
+		.forEach((fileName) => {
+			const filePath = path.join(dir, fileName);
+			try {
+				const snapshot = parseTableSnapshot(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+				const gameTable = tableManager.createTable(snapshot.tableId, snapshot.gameSettings);
+				applyTableSnapshot(gameTable, snapshot);
+				restored.push(gameTable);
+				console.log(`Restored table ${gameTable.id} (${snapshot.players.length} seats) saved at ${snapshot.savedAt}.`);
+			} catch (error) {
+				console.error(`Skipping autosave ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+				try {
+					fs.renameSync(filePath, `${filePath}.invalid`);
+				} catch (renameError) {
+					console.error(`Failed to set aside invalid autosave ${fileName}:`, renameError);
+				}
+			}
+		});
+	return restored;
+}
+
+/**
+ * Starts saving every table on a fixed interval.
+ * The timer does not keep the process alive on its own.
+ * @param {TableManager} tableManager - The manager holding the tables.
+ * @param {number} [intervalMs] - Time between saves in milliseconds.
+ * @param {string} [dir] - The autosave directory.
+ * @returns {NodeJS.Timeout} The interval handle, for clearInterval.
+ */
+export function startAutosaveTimer(
+	tableManager: TableManager,
+	intervalMs: number = AUTOSAVE_INTERVAL_MS,
+	dir: string = AUTOSAVE_DIR,
+): NodeJS.Timeout {
+	const timer = setInterval(() => autosaveAllTables(tableManager, dir), intervalMs);
+	timer.unref();
+	return timer;
+}
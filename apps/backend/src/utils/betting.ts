@@ -0,0 +1,63 @@
+import type { GameSettings } from '../models/GameSettings';
+
+/**
+ * Checks a client-supplied bet against the table limits and what the player can afford.
+ * @param {unknown} amount - The raw bet amount from a message payload.
+ * @param {GameSettings} settings - The settings of the table the bet is placed at.
+ * @param {number} available - DannyBucks the player can stake, including any bet they are replacing.
+ * @returns {number} The validated bet amount.
+ * @throws {Error} If the amount is not a whole number, is outside the table limits, is off the bet increment or is more than the player has.
+ */
+export function validateBetAmount(amount: unknown, settings: GameSettings, available: number): number {
+	if (typeof amount !== 'number' || !Number.isInteger(amount)) {
+		throw new Error('Bet amount must be a whole number of DannyBucks.');
+	}
+	if (amount < settings.minBet || amount > settings.maxBet) {
+		throw new Error(`Bet must be between ${settings.minBet} and ${settings.maxBet} DB.`);
+	}
+	if (amount % settings.betIncrement !== 0) {
+		throw new Error(`Bet must be a multiple of ${settings.betIncrement} DB.`);
+	}
+	if (amount > available) {
+		throw new Error(`Insufficient funds. You need ${amount} DB, but have ${available} DB.`);
+	}
+	return amount;
+}
+
+/**
+ * Checks a client-supplied Fortune bonus side bet. Side bets follow the table's bet increment and maximum,
+ * and go on top of the main bet.
+ * @param {unknown} amount - The raw side bet amount from a message payload; 0, null or omitted means no side bet.
+ * @param {GameSettings} settings - The settings of the table the bet is placed at.
+ * @param {number} available - DannyBucks left for the side bet after the main bet.
+ * @returns {number | null} The validated side bet, or null if the player made none.
+ * @throws {Error} If the amount is not a whole number, is off the bet increment, is over the table maximum or is more than the player has.
+ */
+export function validateSideBetAmount(amount: unknown, settings: GameSettings, available: number): number | null {
+	if (amount === undefined || amount === null || amount === 0) {
+		return null;
+	}
+	if (typeof amount !== 'number' || !Number.isInteger(amount) || amount < 0) {
+		throw new Error('Fortune bet must be a whole number of DannyBucks.');
+	}
+	if (amount > settings.maxBet) {
+		throw new Error(`Fortune bet cannot exceed the table maximum of ${settings.maxBet} DB.`);
+	}
+	if (amount % settings.betIncrement !== 0) {
+		throw new Error(`Fortune bet must be a multiple of ${settings.betIncrement} DB.`);
+	}
+	if (amount > available) {
+		throw new Error(`Insufficient funds for the Fortune bet. You have ${available} DB left after your main bet.`);
+	}
+	return amount;
+}
+
+/**
+ * Works out the commission taken from a winning bet, rounded to whole DannyBucks.
+ * @param {number} betAmount - The winning bet.
+ * @param {number} commissionPercent - The table's commission rate in percent.
+ * @returns {number} The commission in DannyBucks.
+ */
+export function calculateCommission(betAmount: number, commissionPercent: number): number {
+	return Math.round((betAmount * commissionPercent) / 100);
+}
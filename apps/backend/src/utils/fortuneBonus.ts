@@ -0,0 +1,126 @@
+import type { Card } from '../models/Card';
+import { ENVY_HANDS, type FortuneHand, type GameSettings } from '../models/GameSettings';
+import { HAND_RANK, evaluate7CardBest } from './handEvaluator';
+
+/**
+ * Outcome of one player's Fortune bonus side bet.
+ */
+export interface FortuneBetResult {
+	betAmount: number;
+	hand: FortuneHand | null; // Best Fortune hand in the player's 7 cards, null if it pays nothing
+	payout: number; // Net result of the side bet itself: odds won, or minus the bet
+	envyBonus: number; // Envy bonuses earned from other players' hands
+	envyFrom: string[]; // Usernames whose hands earned the Envy bonuses
+	totalReturn: number; // DannyBucks credited back to the player (bet returned + winnings + envy)
+}
+
+/**
+ * A player's dealt hand as seen by the Fortune side bet.
+ */
+export interface FortuneEntry {
+	playerId: string;
+	username: string;
+	cards: Card[]; // The 7 dealt cards
+	sideBet: number | null; // Fortune wager, null if the player did not make one
+}
+
+// Best 5-card ranks mapped to the Fortune hand they pay as
+const RANK_TO_FORTUNE_HAND: { [rank: number]: FortuneHand } = {
+	[HAND_RANK.FIVE_ACES]: 'FiveAces',
+	[HAND_RANK.ROYAL_FLUSH]: 'RoyalFlush',
+	[HAND_RANK.STRAIGHT_FLUSH]: 'StraightFlush',
+	[HAND_RANK.FOUR_OF_A_KIND]: 'FourOfAKind',
+	[HAND_RANK.FULL_HOUSE]: 'FullHouse',
+	[HAND_RANK.FLUSH]: 'Flush',
+	[HAND_RANK.THREE_OF_A_KIND]: 'ThreeOfAKind',
+	[HAND_RANK.STRAIGHT]: 'Straight',
+};
+
+const STRAIGHT_VALUES: { [rank: string]: number } = {
+	'2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10,
+	'J': 11, 'Q': 12, 'K': 13, 'A': 14,
+};
+
+/**
+ * Checks whether all 7 cards form one straight flush. The Joker may fill a single gap
+ * and the Ace may play low (A-2-3-4-5-6-7).
+ * @param {Card[]} cards - Exactly 7 cards.
+ * @returns {boolean} True if the cards make a 7-card straight flush.
+ */
+function isSevenCardStraightFlush(cards: Card[]): boolean {
+	const naturals = cards.filter(card => card.rank !== 'Joker');
+	if (new Set(naturals.map(card => card.suit)).size !== 1) {
+		return false;
+	}
+	const values = naturals.map(card => STRAIGHT_VALUES[card.rank]);
+	if (new Set(values).size !== values.length) {
+		return false;
+	}
+	// Slide a 7-card window from A-7 (Ace low) up to 8-A
+	for (let low = 1; low <= 8; low++) {
+		const high = low + 6;
+		const fits = values.every(value => (value >= low && value <= high) || (value === 14 && low === 1));
+		if (fits) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Finds the best Fortune hand in a player's 7 dealt cards.
+ * @param {Card[]} cards - Exactly 7 cards.
+ * @returns {FortuneHand | null} The best Fortune hand, or null if the cards make less than a straight.
+ */
+export function classifyFortuneHand(cards: Card[]): FortuneHand | null {
+	if (cards.length !== 7) {
+		throw new Error('classifyFortuneHand requires exactly 7 cards.');
+	}
+	if (isSevenCardStraightFlush(cards)) {
+		return cards.some(card => card.rank === 'Joker') ? 'SevenCardStraightFlushWithJoker' : 'SevenCardStraightFlush';
+	}
+
+	return RANK_TO_FORTUNE_HAND[evaluate7CardBest(cards).evaluation.rank] ?? null;
+}
+
+/**
+ * Settles the Fortune side bets of one round. Each bet is paid on the player's own 7 cards,
+ * independently of the main bet. Every Fortune bettor also collects the Envy bonus for each
+ * other player at the table whose hand is Four of a Kind or better.
+ * @param {FortuneEntry[]} entries - Every player dealt into the round, with or without a side bet.
+ * @param {GameSettings} settings - The table settings holding the paytable and Envy bonuses.
+ * @returns {Map<string, FortuneBetResult>} Results by player ID, for players who made a side bet.
+ */
+export function resolveFortuneBets(entries: FortuneEntry[], settings: GameSettings): Map<string, FortuneBetResult> {
+	const hands = new Map(entries.map(entry => [entry.playerId, classifyFortuneHand(entry.cards)]));
+	const results = new Map<string, FortuneBetResult>();
+
+	entries.forEach((entry) => {
+		if (!entry.sideBet) return;
+		const hand = hands.get(entry.playerId) ?? null;
+		const odds = hand ? settings.fortunePaytable[hand] : 0;
+		const payout = odds > 0 ? entry.sideBet * odds : -entry.sideBet;
+
+		let envyBonus = 0;
+		const envyFrom: string[] = [];
+		entries.forEach((other) => {
+			const otherHand = hands.get(other.playerId);
+			if (other.playerId === entry.playerId || !otherHand || !ENVY_HANDS.includes(otherHand)) return;
+			const bonus = settings.envyBonuses[otherHand];
+			if (bonus > 0) {
+				envyBonus += bonus;
+				envyFrom.push(other.username);
+			}
+		});
+
+		results.set(entry.playerId, {
+			betAmount: entry.sideBet,
+			hand,
+			payout,
+			envyBonus,
+			envyFrom,
+			totalReturn: (payout > 0 ? entry.sideBet + payout : 0) + envyBonus,
+		});
+	});
+	return results;
+}
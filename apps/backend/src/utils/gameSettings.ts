@@ -0,0 +1,202 @@
+import {
+	DEFAULT_GAME_SETTINGS,
+	ENVY_HANDS,
+	FORTUNE_HANDS,
+	MAX_COMMISSION_PERCENT,
+	MAX_DECK_COUNT,
+	MAX_JOKERS_PER_DECK,
+	MAX_PENETRATION_PERCENT,
+	MAX_PHASE_SECONDS,
+	type FortuneHand,
+	type FortunePaytable,
+	type GameSettings,
+} from '../models/GameSettings';
+import { getHouseWayIds } from '../houseWays/registry';
+import { getVariantIds } from '../variants/registry';
+
+/**
+ * Reads a whole, positive number setting from client-supplied input.
+ * @param {Record<string, unknown>} input - The raw settings object.
+ * @param {string} key - The setting to read.
+ * @param {number} fallback - Value used when the setting is omitted.
+ * @returns {number} The validated value.
+ */
+function readPositiveInteger(input: Record<string, unknown>, key: string, fallback: number): number {
+	const value = input[key];
+	if (value === undefined) {
+		return fallback;
+	}
+	if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+		throw new Error(`Invalid setting '${key}': must be a positive whole number.`);
+	}
+	return value;
+}
+
+/**
+ * Reads an on/off setting from client-supplied input.
+ * @param {Record<string, unknown>} input - The raw settings object.
+ * @param {string} key - The setting to read.
+ * @param {boolean} fallback - Value used when the setting is omitted.
+ * @returns {boolean} The validated value.
+ */
+function readBoolean(input: Record<string, unknown>, key: string, fallback: boolean): boolean {
+	const value = input[key];
+	if (value === undefined) {
+		return fallback;
+	}
+	if (typeof value !== 'boolean') {
+		throw new Error(`Invalid setting '${key}': must be true or false.`);
+	}
+	return value;
+}
+
+/**
+ * Reads a phase duration in seconds from client-supplied input. Zero turns the timer off.
+ * @param {Record<string, unknown>} input - The raw settings object.
+ * @param {string} key - The setting to read.
+ * @param {number} fallback - Value used when the setting is omitted.
+ * @returns {number} The validated value.
+ */
+function readPhaseSeconds(input: Record<string, unknown>, key: string, fallback: number): number {
+	const value = input[key];
+	if (value === undefined) {
+		return fallback;
+	}
+	if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > MAX_PHASE_SECONDS) {
+		throw new Error(`Invalid setting '${key}': must be a whole number of seconds from 0 to ${MAX_PHASE_SECONDS}.`);
+	}
+	return value;
+}
+
+/**
+ * Reads a whole number within a range from client-supplied input.
+ * @param {Record<string, unknown>} input - The raw settings object.
+ * @param {string} key - The setting to read.
+ * @param {number} fallback - Value used when the setting is omitted.
+ * @param {number} min - Smallest value allowed.
+ * @param {number} max - Largest value allowed.
+ * @returns {number} The validated value.
+ */
+function readIntegerInRange(input: Record<string, unknown>, key: string, fallback: number, min: number, max: number): number {
+	const value = input[key];
+	if (value === undefined) {
+		return fallback;
+	}
+	if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+		throw new Error(`Invalid setting '${key}': must be a whole number from ${min} to ${max}.`);
+	}
+	return value;
+}
+
+/**
+ * Reads a commission rate in percent from client-supplied input. Fractions such as 2.5 are allowed.
+ * @param {Record<string, unknown>} input - The raw settings object.
+ * @param {string} key - The setting to read.
+ * @param {number} fallback - Value used when the setting is omitted.
+ * @returns {number} The validated value.
+ */
+function readCommissionPercent(input: Record<string, unknown>, key: string, fallback: number): number {
+	const value = input[key];
+	if (value === undefined) {
+		return fallback;
+	}
+	if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_COMMISSION_PERCENT) {
+		throw new Error(`Invalid setting '${key}': must be a percentage from 0 to ${MAX_COMMISSION_PERCENT}.`);
+	}
+	return value;
+}
+
+/**
+ * Reads a Fortune paytable from client-supplied input. Hands that are left out keep their default payout.
+ * @param {Record<string, unknown>} input - The raw settings object.
+ * @param {string} key - The setting to read.
+ * @param {FortunePaytable} fallback - Payouts used for omitted hands.
+ * @param {readonly FortuneHand[]} [payableHands] - Hands allowed a non-zero payout; all hands if omitted.
+ * @returns {FortunePaytable} The validated paytable.
+ */
+function readPaytable(
+	input: Record<string, unknown>,
+	key: string,
+	fallback: FortunePaytable,
+	payableHands: readonly FortuneHand[] = FORTUNE_HANDS,
+): FortunePaytable {
+	const value = input[key];
+	const paytable = { ...fallback };
+	if (value === undefined) {
+		return paytable;
+	}
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		throw new Error(`Invalid setting '${key}': expected an object of payouts by hand.`);
+	}
+	for (const [hand, payout] of Object.entries(value)) {
+		if (!(FORTUNE_HANDS as readonly string[]).includes(hand)) {
+			throw new Error(`Invalid setting '${key}.${hand}': must be one of ${FORTUNE_HANDS.join(', ')}.`);
+		}
+		if (typeof payout !== 'number' || !Number.isInteger(payout) || payout < 0) {
+			throw new Error(`Invalid setting '${key}.${hand}': must be a non-negative whole number.`);
+		}
+		if (payout > 0 && !payableHands.includes(hand as FortuneHand)) {
+			throw new Error(`Invalid setting '${key}.${hand}': only ${payableHands.join(', ')} can pay.`);
+		}
+		paytable[hand as FortuneHand] = payout;
+	}
+	return paytable;
+}
+
+/**
+ * Builds a complete GameSettings object from client-supplied input.
+ * Omitted settings fall back to their defaults; invalid ones are rejected.
+ * @param {unknown} input - The raw settings from a message payload (may be undefined).
+ * @returns {GameSettings} The validated settings.
+ * @throws {Error} If any provided setting is invalid.
+ */
+export function parseGameSettings(input: unknown): GameSettings {
+	if (input === undefined || input === null) {
+		return parseGameSettings({});
+	}
+	if (typeof input !== 'object' || Array.isArray(input)) {
+		throw new Error('Invalid settings: expected an object.');
+	}
+	const raw = input as Record<string, unknown>;
+
+	const variant = raw.variant ?? DEFAULT_GAME_SETTINGS.variant;
+	if (typeof variant !== 'string' || !getVariantIds().includes(variant)) {
+		throw new Error(`Invalid setting 'variant': must be one of ${getVariantIds().join(', ')}.`);
+	}
+
+	const houseWay = raw.houseWay ?? DEFAULT_GAME_SETTINGS.houseWay;
+	if (typeof houseWay !== 'string' || !getHouseWayIds().includes(houseWay)) {
+		throw new Error(`Invalid setting 'houseWay': must be one of ${getHouseWayIds().join(', ')}.`);
+	}
+
+	const settings: GameSettings = {
+		startingDB: readPositiveInteger(raw, 'startingDB', DEFAULT_GAME_SETTINGS.startingDB),
+		minBet: readPositiveInteger(raw, 'minBet', DEFAULT_GAME_SETTINGS.minBet),
+		maxBet: readPositiveInteger(raw, 'maxBet', DEFAULT_GAME_SETTINGS.maxBet),
+		betIncrement: readPositiveInteger(raw, 'betIncrement', DEFAULT_GAME_SETTINGS.betIncrement),
+		variant,
+		commissionPercent: readCommissionPercent(raw, 'commissionPercent', DEFAULT_GAME_SETTINGS.commissionPercent),
+		playerBanking: readBoolean(raw, 'playerBanking', DEFAULT_GAME_SETTINGS.playerBanking),
+		houseWay,
+		deckCount: readIntegerInRange(raw, 'deckCount', DEFAULT_GAME_SETTINGS.deckCount, 1, MAX_DECK_COUNT),
+		jokersPerDeck: readIntegerInRange(raw, 'jokersPerDeck', DEFAULT_GAME_SETTINGS.jokersPerDeck, 0, MAX_JOKERS_PER_DECK),
+		penetrationPercent: readIntegerInRange(raw, 'penetrationPercent', DEFAULT_GAME_SETTINGS.penetrationPercent, 0, MAX_PENETRATION_PERCENT),
+		bettingSeconds: readPhaseSeconds(raw, 'bettingSeconds', DEFAULT_GAME_SETTINGS.bettingSeconds),
+		handSettingSeconds: readPhaseSeconds(raw, 'handSettingSeconds', DEFAULT_GAME_SETTINGS.handSettingSeconds),
+		resultDisplaySeconds: readPhaseSeconds(raw, 'resultDisplaySeconds', DEFAULT_GAME_SETTINGS.resultDisplaySeconds),
+		fortunePaytable: readPaytable(raw, 'fortunePaytable', DEFAULT_GAME_SETTINGS.fortunePaytable),
+		envyBonuses: readPaytable(raw, 'envyBonuses', DEFAULT_GAME_SETTINGS.envyBonuses, ENVY_HANDS),
+	};
+
+	if (settings.minBet > settings.maxBet) {
+		throw new Error("Invalid settings: 'minBet' cannot exceed 'maxBet'.");
+	}
+	if (settings.minBet > settings.startingDB) {
+		throw new Error("Invalid settings: 'minBet' cannot exceed 'startingDB'.");
+	}
+	if (settings.minBet % settings.betIncrement !== 0 || settings.maxBet % settings.betIncrement !== 0) {
+		throw new Error("Invalid settings: 'minBet' and 'maxBet' must be multiples of 'betIncrement'.");
+	}
+
+	return settings;
+}
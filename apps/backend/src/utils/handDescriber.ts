@@ -0,0 +1,172 @@
+import { HAND_RANK, compareEvaluatedHands, type HandEvaluation } from './handEvaluator';
+
+/**
+ * Which of a player's two hands an evaluation belongs to.
+ */
+export type HandSlot = 'high' | 'low';
+
+/**
+ * How one of a player's hands fared against the dealer's, ready to show next to the cards.
+ */
+export interface HandReport {
+	description: string; // e.g. "Two Pair, Kings and Sevens, Ace kicker"
+	versus: string; // The dealer's (or banker's) hand, described the same way
+	outcome: 'Win' | 'Loss' | 'Tie';
+	reason: string; // Why, from the winner's side: "higher kicker: Q vs J"
+}
+
+// Singular and plural names of each card value
+const VALUE_NAMES: { [value: number]: [string, string] } = {
+	2: ['Two', 'Twos'], 3: ['Three', 'Threes'], 4: ['Four', 'Fours'], 5: ['Five', 'Fives'],
+	6: ['Six', 'Sixes'], 7: ['Seven', 'Sevens'], 8: ['Eight', 'Eights'], 9: ['Nine', 'Nines'],
+	10: ['Ten', 'Tens'], 11: ['Jack', 'Jacks'], 12: ['Queen', 'Queens'], 13: ['King', 'Kings'], 14: ['Ace', 'Aces'],
+};
+
+// Short rank of each card value, as printed on the card
+const VALUE_RANKS: { [value: number]: string } = {
+	2: '2', 3: '3', 4: '4', 5: '5', 6: '6', 7: '7', 8: '8', 9: '9', 10: '10', 11: 'J', 12: 'Q', 13: 'K', 14: 'A',
+};
+
+const RANK_NAMES: { [rank: number]: string } = {
+	[HAND_RANK.HIGH_CARD]: 'High Card',
+	[HAND_RANK.ONE_PAIR]: 'One Pair',
+	[HAND_RANK.TWO_PAIR]: 'Two Pair',
+	[HAND_RANK.THREE_OF_A_KIND]: 'Three of a Kind',
+	[HAND_RANK.STRAIGHT]: 'Straight',
+	[HAND_RANK.FLUSH]: 'Flush',
+	[HAND_RANK.FULL_HOUSE]: 'Full House',
+	[HAND_RANK.FOUR_OF_A_KIND]: 'Four of a Kind',
+	[HAND_RANK.STRAIGHT_FLUSH]: 'Straight Flush',
+	[HAND_RANK.ROYAL_FLUSH]: 'Royal Flush',
+	[HAND_RANK.FIVE_ACES]: 'Five Aces',
+};
+
+/**
+ * Names a card value.
+ * @param {number} value - 2 to 14.
+ * @param {boolean} plural - "Kings" rather than "King".
+ * @returns {string} The name.
+ */
+function valueName(value: number, plural = false): string {
+	return VALUE_NAMES[value][plural ? 1 : 0];
+}
+
+/**
+ * Appends the top kicker to a description, if the hand has one.
+ * @param {string} text - The description so far.
+ * @param {HandEvaluation} evaluation - The hand.
+ * @returns {string} e.g. "Pair of Aces, King kicker".
+ */
+function withKicker(text: string, evaluation: HandEvaluation): string {
+	const kicker = evaluation.kickers?.[0];
+	return kicker === undefined ? text : `${text}, ${valueName(kicker)} kicker`;
+}
+
+/**
+ * Turns an evaluation into words, e.g. "Two Pair, Kings and Sevens, Ace kicker" or "Pair of Aces (low hand)".
+ * @param {HandEvaluation} evaluation - A 5-card or 2-card evaluation.
+ * @param {HandSlot} slot - 'low' marks a 2-card hand as such.
+ * @returns {string} The description.
+ */
+export function describeHand(evaluation: HandEvaluation, slot: HandSlot = 'high'): string {
+	const [first, second] = evaluation.values;
+	let text: string;
+	switch (evaluation.rank) {
+		case HAND_RANK.FIVE_ACES:
+		case HAND_RANK.ROYAL_FLUSH:
+			text = RANK_NAMES[evaluation.rank];
+			break;
+		case HAND_RANK.STRAIGHT_FLUSH:
+		case HAND_RANK.STRAIGHT:
+		case HAND_RANK.FLUSH:
+			text = `${RANK_NAMES[evaluation.rank]}, ${valueName(first)} high`;
+			break;
+		case HAND_RANK.FOUR_OF_A_KIND:
+		case HAND_RANK.THREE_OF_A_KIND:
+			text = withKicker(`${RANK_NAMES[evaluation.rank]}, ${valueName(first, true)}`, evaluation);
+			break;
+		case HAND_RANK.FULL_HOUSE:
+			text = `Full House, ${valueName(first, true)} over ${valueName(second, true)}`;
+			break;
+		case HAND_RANK.TWO_PAIR:
+			text = withKicker(`Two Pair, ${valueName(first, true)} and ${valueName(second, true)}`, evaluation);
+			break;
+		case HAND_RANK.ONE_PAIR:
+			text = withKicker(`Pair of ${valueName(first, true)}`, evaluation);
+			break;
+		default:
+			// A low hand reads both cards ("Ace-Queen high"); a high hand its top card
+			text = slot === 'low' && second !== undefined ? `${valueName(first)}-${valueName(second)} high` : `${valueName(first)} high`;
+	}
+	return slot === 'low' ? `${text} (low hand)` : text;
+}
+
+/**
+ * Names what the values at one position of an evaluation stand for.
+ * @param {number} rank - The hand rank both evaluations share.
+ * @param {boolean} kicker - Whether the position is among the kickers.
+ * @param {number} index - Position within values or kickers.
+ * @returns {string} e.g. "pair" or "second pair".
+ */
+function partName(rank: number, kicker: boolean, index: number): string {
+	if (kicker) return 'kicker';
+	switch (rank) {
+		case HAND_RANK.ONE_PAIR: return 'pair';
+		case HAND_RANK.TWO_PAIR: return index === 0 ? 'top pair' : 'second pair';
+		case HAND_RANK.THREE_OF_A_KIND: return 'three of a kind';
+		case HAND_RANK.FULL_HOUSE: return index === 0 ? 'three of a kind' : 'pair';
+		case HAND_RANK.FOUR_OF_A_KIND: return 'four of a kind';
+		case HAND_RANK.STRAIGHT: return 'straight';
+		case HAND_RANK.STRAIGHT_FLUSH: return 'straight flush';
+		case HAND_RANK.FLUSH: return 'card in the flush';
+		default: return 'card';
+	}
+}
+
+/**
+ * Explains why one hand beats another, from the winner's side: "Flush beats Straight",
+ * "higher kicker: Q vs J", or "identical hands" when they tie.
+ * @param {HandEvaluation} hand1 - One evaluation.
+ * @param {HandEvaluation} hand2 - The evaluation it was compared with.
+ * @returns {string} The deciding difference.
+ */
+export function explainComparison(hand1: HandEvaluation, hand2: HandEvaluation): string {
+	const comparison = compareEvaluatedHands(hand1, hand2);
+	if (comparison === 0) return 'identical hands';
+	const [winner, loser] = comparison > 0 ? [hand1, hand2] : [hand2, hand1];
+	if (winner.rank !== loser.rank) {
+		return `${RANK_NAMES[winner.rank]} beats ${RANK_NAMES[loser.rank]}`;
+	}
+
+	// Same rank: the first differing value decides, then the first differing kicker
+	const parts: [number[], number[], boolean][] = [
+		[winner.values, loser.values, false],
+		[winner.kickers ?? [], loser.kickers ?? [], true],
+	];
+	for (const [winning, losing, kicker] of parts) {
+		for (let index = 0; index < winning.length; index++) {
+			if (winning[index] !== losing[index]) {
+				const against = losing[index] === undefined ? 'none' : VALUE_RANKS[losing[index]];
+				return `higher ${partName(winner.rank, kicker, index)}: ${VALUE_RANKS[winning[index]]} vs ${against}`;
+			}
+		}
+	}
+	return 'identical hands'; // Not reached: compareEvaluatedHands found a difference
+}
+
+/**
+ * Reports one of a player's hands against the dealer's hand in the same slot.
+ * @param {HandEvaluation} evaluation - The player's hand.
+ * @param {HandEvaluation} dealerEvaluation - The dealer's (or banker's) hand.
+ * @param {HandSlot} slot - Which hand this is.
+ * @returns {HandReport} Both descriptions, who won it and why.
+ */
+export function reportHand(evaluation: HandEvaluation, dealerEvaluation: HandEvaluation, slot: HandSlot): HandReport {
+	const comparison = compareEvaluatedHands(evaluation, dealerEvaluation);
+	return {
+		description: describeHand(evaluation, slot),
+		versus: describeHand(dealerEvaluation, slot),
+		outcome: comparison > 0 ? 'Win' : comparison < 0 ? 'Loss' : 'Tie',
+		reason: explainComparison(evaluation, dealerEvaluation),
+	};
+}
@@ -1,4 +1,4 @@
-import type { Card } from '../models/Card';
+import type { Card, JokerSubstitution } from '../models/Card';
 
 // --- Constants for Hand Ranks ---
 // Higher number means better hand
@@ -18,13 +18,22 @@ export const HAND_RANK = {
 
 // --- Card Value Mapping ---
 // Map card ranks to numerical values for comparison. Ace can be high or low.
-// Joker needs special handling.
+// A Joker is valued as the card it plays as; 99 only marks it.
 const cardValues: { [key: string]: number } = {
 	'2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10,
 	'J': 11, 'Q': 12, 'K': 13, 'A': 14, // Ace high by default
 	'Joker': 99, // Special value for Joker
 };
 
+/**
+ * Looks up the numerical value of a card rank (Ace high, Joker 99).
+ * @param {string} rank - The card rank, e.g. 'K' or 'Joker'.
+ * @returns {number} The value used for comparisons.
+ */
+export function getRankValue(rank: string): number {
+	return cardValues[rank];
+}
+
 /**
  * Represents the evaluated rank and kickers of a hand.
  */
@@ -33,271 +42,190 @@ export interface HandEvaluation {
 	values: number[]; // Sorted numerical values of cards determining rank (e.g., [10, 10, 8, 8, 5] for two pair)
 	kickers?: number[]; // Sorted numerical values of non-ranking cards (e.g., [5] for the two pair above)
 	isAceHighPaiGow?: boolean; // Specific flag for Ace-High Pai Gow (5-card hand only)
+	strength?: number; // Set by the lookup evaluator: one integer that orders 5-card and 2-card hands alike
+	jokerSubstitutions?: JokerSubstitution[]; // What each Joker played as, in hand order; only on hands holding one
 }
 
 // --- Helper Functions ---
 
 /**
- * Sorts cards by rank, highest first. Handles Joker.
- * @param {Card[]} cards - Array of cards.
- * @returns {Card[]} Sorted array of cards.
+ * A card as it plays in an evaluation: a Joker has been replaced by what it stands for.
+ * A null suit never counts toward a flush.
  */
-function sortCards(cards: Card[]): Card[] {
-	return [...cards].sort((a, b) => cardValues[b.rank] - cardValues[a.rank]);
+interface PlayedCard {
+	value: number;
+	suit: string | null;
 }
 
-/**
- * Counts occurrences of each rank in a hand.
- * @param {Card[]} cards - Array of cards.
- * @returns {{ [key: number]: number }} Map of card value to count.
- */
-function getRankCounts(cards: Card[]): { [key: number]: number } {
-	const counts: { [key: number]: number } = {};
-	for (const card of cards) {
-		const value = cardValues[card.rank];
-		counts[value] = (counts[value] || 0) + 1;
-	}
-	return counts;
-}
+const NATURAL_RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+
+const STRAIGHTS_AND_FLUSHES = [HAND_RANK.STRAIGHT, HAND_RANK.FLUSH, HAND_RANK.STRAIGHT_FLUSH, HAND_RANK.ROYAL_FLUSH];
 
 /**
- * Counts occurrences of each suit in a hand.
- * @param {Card[]} cards - Array of cards (Joker suit ignored unless needed for flush).
- * @returns {{ [key: string]: number }} Map of suit to count.
+ * Finds the high card of a straight, counting A-2-3-4-5 as 5 high.
+ * @param {number[]} values - Five values sorted highest first.
+ * @returns {number} The straight's high card, or 0 if the values are not a straight.
  */
-function getSuitCounts(cards: Card[]): { [key: string]: number } {
-	const counts: { [key: string]: number } = {};
-	for (const card of cards) {
-		if (card.suit !== 'Joker') {
-			counts[card.suit] = (counts[card.suit] || 0) + 1;
-		}
-	}
-	return counts;
+function getStraightHigh(values: number[]): number {
+	if (new Set(values).size !== 5) return 0;
+	if (values[0] - values[4] === 4) return values[0];
+	if (values[0] === 14 && values[1] === 5) return 5; // Wheel
+	return 0;
 }
 
-// --- 5-Card Hand Evaluation ---
-
 /**
- * Evaluates a 5-card Pai Gow hand, considering the Joker.
- * @param {Card[]} hand - Exactly 5 cards.
+ * Evaluates five cards with no Joker left among them.
+ * @param {PlayedCard[]} cards - Exactly 5 played cards.
  * @returns {HandEvaluation} The evaluated hand rank and values.
  */
-export function evaluate5CardHand(hand: Card[]): HandEvaluation {
-	if (hand.length !== 5) {
-		throw new Error('evaluate5CardHand requires exactly 5 cards.');
+function evaluatePlayedCards(cards: PlayedCard[]): HandEvaluation {
+	const values = cards.map(card => card.value).sort((a, b) => b - a);
+	const counts = new Map<number, number>();
+	for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+	// Largest group first, higher value first among equal groups
+	const groups = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+	const [topValue, topCount] = groups[0];
+	const singles = (except: number[]) => values.filter(value => !except.includes(value));
+	const isFlush = cards[0].suit !== null && cards.every(card => card.suit === cards[0].suit);
+	const straightHigh = getStraightHigh(values);
+
+	// Five of a kind needs a multi-deck shoe or a Joker; only Aces make Five Aces, others play as four of a kind with a matching kicker
+	if (topCount === 5) {
+		return topValue === 14
+			? { rank: HAND_RANK.FIVE_ACES, values: [14, 14, 14, 14, 14] }
+			: { rank: HAND_RANK.FOUR_OF_A_KIND, values: [topValue], kickers: [topValue] };
 	}
-
-	const sortedHand = sortCards(hand);
-	const values = sortedHand.map(c => cardValues[c.rank]);
-	const rankCounts = getRankCounts(sortedHand);
-	const suitCounts = getSuitCounts(sortedHand);
-	const hasJoker = values.includes(cardValues.Joker);
-	const numJokers = rankCounts[cardValues.Joker] || 0;
-
-	// --- Check for Flush/Straight Possibilities (handling Joker) ---
-	let isFlush = false;
-	let flushSuit: string | null = null;
-	const suitsPresent = Object.keys(suitCounts);
-	if (suitsPresent.length === 1) {
-		isFlush = true;
-		flushSuit = suitsPresent[0];
-	} else if (hasJoker && suitsPresent.length === 1 && suitCounts[suitsPresent[0]] === 5 - numJokers) {
-		isFlush = true; // Joker completes the flush
-		flushSuit = suitsPresent[0];
+	if (straightHigh && isFlush) {
+		return { rank: straightHigh === 14 ? HAND_RANK.ROYAL_FLUSH : HAND_RANK.STRAIGHT_FLUSH, values: [straightHigh] };
 	}
-
-	// Check for Straight (more complex with Joker)
-	// Create values array without Joker for initial straight check
-	const nonJokerValues = values.filter(v => v !== cardValues.Joker).sort((a, b) => b - a);
-	let isStraight = false;
-	let straightHighCard = 0;
-
-	// Helper to check for straight in a set of values
-	const checkStraight = (vals: number[]): { isStraight: boolean; highCard: number } => {
-		if (vals.length < 5) return { isStraight: false, highCard: 0 };
-		let uniqueSorted = Array.from(new Set(vals)).sort((a, b) => b - a);
-		// Ace low straight check (A, 2, 3, 4, 5) -> values [14, 5, 4, 3, 2]
-		if (uniqueSorted.length >= 5 && uniqueSorted[0] === 14 && uniqueSorted[uniqueSorted.length - 4] === 5) {
-			// Check if 5,4,3,2 are present
-			if ([5, 4, 3, 2].every(v => uniqueSorted.includes(v))) {
-				return { isStraight: true, highCard: 5 }; // A-5 straight high card is 5
-			}
-		}
-		// Standard straight check
-		for (let i = 0; i <= uniqueSorted.length - 5; i++) {
-			if (uniqueSorted[i] - uniqueSorted[i + 4] === 4) {
-				return { isStraight: true, highCard: uniqueSorted[i] };
-			}
-		}
-		return { isStraight: false, highCard: 0 };
-	};
-
-	// Check straight without Joker first
-	let straightCheckResult = checkStraight(nonJokerValues);
-	isStraight = straightCheckResult.isStraight;
-	straightHighCard = straightCheckResult.highCard;
-
-	// If no natural straight, check if Joker can complete one
-	if (!isStraight && hasJoker && nonJokerValues.length === 4) {
-		let uniqueSorted = Array.from(new Set(nonJokerValues)).sort((a, b) => b - a);
-		// Try inserting Joker (as any needed value)
-		for (let i = 0; i < uniqueSorted.length; i++) {
-			// Check gap before current card
-			if (i > 0 && uniqueSorted[i-1] - uniqueSorted[i] > 1) {
-				let potentialStraight = [...uniqueSorted];
-				potentialStraight.splice(i, 0, uniqueSorted[i-1] - 1); // Insert missing card value
-				straightCheckResult = checkStraight(potentialStraight);
-				if (straightCheckResult.isStraight) break;
-			}
-			// Check gap after last card
-			if (i === uniqueSorted.length - 1 && uniqueSorted.length === 4) {
-				let potentialStraight = [...uniqueSorted, uniqueSorted[i] - 1];
-				straightCheckResult = checkStraight(potentialStraight);
-				if (straightCheckResult.isStraight) break;
-				// Check gap before first card
-				potentialStraight = [uniqueSorted[0] + 1, ...uniqueSorted];
-				straightCheckResult = checkStraight(potentialStraight);
-				if (straightCheckResult.isStraight) break;
-			}
-		}
-		// Special Ace-low check with Joker: A,2,3,4 + Joker -> [14, 4, 3, 2] + Joker
-		if (uniqueSorted.length === 4 && uniqueSorted[0] === 14 && uniqueSorted[1] === 4 && uniqueSorted[2] === 3 && uniqueSorted[3] === 2) {
-		    straightCheckResult = { isStraight: true, highCard: 5 };
-		}
-		// Special Ace-high check with Joker: A,K,Q,J + Joker -> [14, 13, 12, 11] + Joker
-		if (uniqueSorted.length === 4 && uniqueSorted[0] === 14 && uniqueSorted[1] === 13 && uniqueSorted[2] === 12 && uniqueSorted[3] === 11) {
-		    straightCheckResult = { isStraight: true, highCard: 14 };
-		}
-
-		isStraight = straightCheckResult.isStraight;
-		straightHighCard = straightCheckResult.highCard;
+	if (topCount === 4) {
+		return { rank: HAND_RANK.FOUR_OF_A_KIND, values: [topValue], kickers: singles([topValue]) };
 	}
-
-
-	// --- Determine Hand Rank ---
-
-	// 1. Five Aces (AAAA Joker)
-	if (hasJoker && rankCounts[cardValues.A] === 4) {
-		return { rank: HAND_RANK.FIVE_ACES, values: [14, 14, 14, 14, 14] }; // Treat Joker as Ace value
+	if (topCount === 3 && groups[1][1] === 2) {
+		return { rank: HAND_RANK.FULL_HOUSE, values: [topValue, groups[1][0]] };
 	}
-
-	// 2. Straight Flush (and Royal Flush)
-	if (isStraight && isFlush) {
-		// Use the straightHighCard value determined earlier
-		const rank = (straightHighCard === 14) ? HAND_RANK.ROYAL_FLUSH : HAND_RANK.STRAIGHT_FLUSH;
-		return { rank, values: [straightHighCard] };
+	if (isFlush) {
+		return { rank: HAND_RANK.FLUSH, values };
 	}
-
-	// 3. Four of a Kind
-	const fourKindValue = Object.keys(rankCounts).find(v => rankCounts[Number(v)] === 4);
-	if (fourKindValue) {
-		const kicker = values.find(v => v !== Number(fourKindValue) && v !== cardValues.Joker);
-		return { rank: HAND_RANK.FOUR_OF_A_KIND, values: [Number(fourKindValue)], kickers: kicker ? [kicker] : [] };
+	if (straightHigh) {
+		return { rank: HAND_RANK.STRAIGHT, values: [straightHigh] };
 	}
-	// Check Four of a Kind with Joker
-	const threeKindValueForFour = Object.keys(rankCounts).find(v => rankCounts[Number(v)] === 3);
-	if (hasJoker && threeKindValueForFour) {
-		const kicker = values.find(v => v !== Number(threeKindValueForFour) && v !== cardValues.Joker);
-		return { rank: HAND_RANK.FOUR_OF_A_KIND, values: [Number(threeKindValueForFour)], kickers: kicker ? [kicker] : [] };
+	if (topCount === 3) {
+		return { rank: HAND_RANK.THREE_OF_A_KIND, values: [topValue], kickers: singles([topValue]) };
 	}
-
-	// 4. Full House
-	const threeKindValue = Object.keys(rankCounts).find(v => rankCounts[Number(v)] === 3);
-	const pairValue = Object.keys(rankCounts).find(v => rankCounts[Number(v)] === 2);
-	if (threeKindValue && pairValue) {
-		return { rank: HAND_RANK.FULL_HOUSE, values: [Number(threeKindValue), Number(pairValue)] };
+	if (topCount === 2 && groups[1][1] === 2) {
+		return { rank: HAND_RANK.TWO_PAIR, values: [topValue, groups[1][0]], kickers: singles([topValue, groups[1][0]]) };
 	}
-	// Check Full House with Joker (Joker acts as part of a pair)
-	const pairsForFull = Object.keys(rankCounts).filter(v => rankCounts[Number(v)] === 2);
-	if (hasJoker && pairsForFull.length === 2) {
-		const highPair = Math.max(...pairsForFull.map(Number));
-		const lowPair = Math.min(...pairsForFull.map(Number));
-		// Joker completes the higher pair to make trips
-		return { rank: HAND_RANK.FULL_HOUSE, values: [highPair, lowPair] };
+	if (topCount === 2) {
+		return { rank: HAND_RANK.ONE_PAIR, values: [topValue], kickers: singles([topValue]) };
 	}
+	return { rank: HAND_RANK.HIGH_CARD, values, isAceHighPaiGow: values[0] === 14 };
+}
 
-	// 5. Flush
-	if (isFlush) {
-		// Use non-Joker values, treat Joker as Ace if possible, else highest needed card
-		let flushValues = nonJokerValues;
-		if (hasJoker) {
-			// If Joker makes it a flush, its value is effectively the highest missing card of that suit,
-			// but for ranking purposes, we just use the actual cards + Joker as Ace if no Ace present.
-			if (!nonJokerValues.includes(14)) {
-				flushValues = [14, ...nonJokerValues].sort((a, b) => b - a);
-			} else {
-				// Joker acts as highest card *not* present to avoid duplicate Ace. Find highest possible value < 14 not present.
-				let highestPossible = 13;
-				while(nonJokerValues.includes(highestPossible)) highestPossible--;
-				flushValues = [highestPossible, ...nonJokerValues].sort((a, b) => b - a);
-			}
+/**
+ * Lists what a Joker could usefully stand for beside the given natural cards: an Ace of no suit, and each
+ * missing rank within a straight's reach of every natural card. If the naturals share a suit, those ranks
+ * come in that suit, along with the highest cards of the suit not held (a flush is best filled from the top).
+ * Otherwise the suit does not matter.
+ * @param {Card[]} naturals - The hand's cards other than Jokers.
+ * @param {number} jokerCount - Jokers to substitute.
+ * @returns {JokerSubstitution[]} The candidates, the plain Ace first.
+ */
+function getJokerCandidates(naturals: Card[], jokerCount: number): JokerSubstitution[] {
+	const candidates: JokerSubstitution[] = [{ rank: 'A', suit: null }];
+	const suits = new Set(naturals.map(card => card.suit));
+	const flushSuit = suits.size <= 1 ? (naturals[0]?.suit ?? 'Spades') : null; // With no naturals, any one suit will do
+	const naturalValues = naturals.map(card => cardValues[card.rank]);
+	const distinct = new Set(naturalValues).size === naturalValues.length;
+	const inReach = (value: number) => naturalValues.every(natural =>
+		Math.abs(natural - value) <= 4 || (natural === 14 && value <= 5) || (value === 14 && natural <= 5));
+
+	let flushFillers = jokerCount;
+	for (const rank of [...NATURAL_RANKS].reverse()) {
+		const value = cardValues[rank];
+		const completesStraight = distinct && !naturalValues.includes(value) && inReach(value);
+		if (flushSuit) {
+			if (naturals.some(card => card.rank === rank && card.suit === flushSuit)) continue;
+			if (completesStraight || flushFillers > 0) candidates.push({ rank, suit: flushSuit });
+			flushFillers--;
+		} else if (completesStraight) {
+			candidates.push({ rank, suit: null });
 		}
-		return { rank: HAND_RANK.FLUSH, values: flushValues.slice(0, 5) }; // Take top 5 values
 	}
+	return candidates;
+}
 
-	// 6. Straight
-	if (isStraight) {
-		return { rank: HAND_RANK.STRAIGHT, values: [straightHighCard] };
-	}
+/**
+ * Whether a substitution only plays as the Ace every Joker may be.
+ * @param {JokerSubstitution} substitution - What the Joker stands for.
+ * @returns {boolean} True for an Ace of no suit.
+ */
+function isPlainAce(substitution: JokerSubstitution): boolean {
+	return substitution.rank === 'A' && substitution.suit === null;
+}
 
-	// 7. Three of a Kind
-	if (threeKindValue) {
-		const kickers = values.filter(v => v !== Number(threeKindValue)).sort((a, b) => b - a);
-		return { rank: HAND_RANK.THREE_OF_A_KIND, values: [Number(threeKindValue)], kickers: kickers.slice(0, 2) };
-	}
-	// Check Three of a Kind with Joker
-	if (hasJoker && pairValue) {
-		const kickers = values.filter(v => v !== Number(pairValue) && v !== cardValues.Joker).sort((a, b) => b - a);
-		return { rank: HAND_RANK.THREE_OF_A_KIND, values: [Number(pairValue)], kickers: kickers.slice(0, 2) };
-	}
+/**
+ * Calls a function with every way of choosing `count` candidates, without regard to order:
+ * Jokers are interchangeable. Only the plain Ace may be chosen twice, since a Joker stands
+ * for a card that is not already in the hand.
+ * @param {JokerSubstitution[]} candidates - From getJokerCandidates, the plain Ace first.
+ * @param {number} count - Jokers in the hand.
+ * @param {(chosen: JokerSubstitution[]) => boolean} visit - Called with each choice; returning true stops the search.
+ */
+function forEachSubstitution(candidates: JokerSubstitution[], count: number, visit: (chosen: JokerSubstitution[]) => boolean): void {
+	const chosen: JokerSubstitution[] = [];
+	const extend = (from: number): boolean => {
+		if (chosen.length === count) return visit(chosen);
+		for (let index = from; index < candidates.length; index++) {
+			chosen.push(candidates[index]);
+			const stop = extend(index === 0 ? 0 : index + 1);
+			chosen.pop();
+			if (stop) return true;
+		}
+		return false;
+	};
+	extend(0);
+}
+
+// --- 5-Card Hand Evaluation ---
 
-	// 8. Two Pair
-	const pairs = Object.keys(rankCounts).filter(v => rankCounts[Number(v)] === 2);
-	if (pairs.length === 2) {
-		const highPair = Math.max(...pairs.map(Number));
-		const lowPair = Math.min(...pairs.map(Number));
-		const kicker = values.find(v => v !== highPair && v !== lowPair);
-		return { rank: HAND_RANK.TWO_PAIR, values: [highPair, lowPair], kickers: kicker ? [kicker] : [] };
+/**
+ * Evaluates a 5-card Pai Gow hand. The Joker is semi-wild: every Joker in the hand is tried as an Ace,
+ * and as any card that completes a straight, flush or straight flush, and the best legal hand wins.
+ * What each Joker played as is reported in `jokerSubstitutions`.
+ * @param {Card[]} hand - Exactly 5 cards.
+ * @returns {HandEvaluation} The evaluated hand rank and values.
+ */
+export function evaluate5CardHand(hand: Card[]): HandEvaluation {
+	if (hand.length !== 5) {
+		throw new Error('evaluate5CardHand requires exactly 5 cards.');
 	}
-	// Check Two Pair with Joker (Joker makes second pair with highest singleton)
-	if (hasJoker && pairs.length === 1) {
-		const existingPair = Number(pairs[0]);
-		const singletons = values.filter(v => v !== existingPair && v !== cardValues.Joker).sort((a, b) => b - a);
-		const secondPair = singletons[0]; // Joker pairs with the highest singleton
-		const kicker = singletons[1];
-		const highPairValue = Math.max(existingPair, secondPair);
-		const lowPairValue = Math.min(existingPair, secondPair);
-		return { rank: HAND_RANK.TWO_PAIR, values: [highPairValue, lowPairValue], kickers: kicker ? [kicker] : [] };
+	const naturals = hand.filter(card => card.rank !== 'Joker');
+	const played: PlayedCard[] = naturals.map(card => ({ value: cardValues[card.rank], suit: card.suit }));
+	const jokerCount = hand.length - naturals.length;
+	if (jokerCount === 0) {
+		return evaluatePlayedCards(played);
 	}
 
-	// 9. One Pair
-	if (pairValue) {
-		const kickers = values.filter(v => v !== Number(pairValue)).sort((a, b) => b - a);
-		return { rank: HAND_RANK.ONE_PAIR, values: [Number(pairValue)], kickers: kickers.slice(0, 3) };
-	}
-	// Check One Pair with Joker (Joker pairs with highest singleton -> becomes Ace pair if no Ace)
-	if (hasJoker) {
-		const singletons = values.filter(v => v !== cardValues.Joker).sort((a, b) => b - a);
-		let pairVal = 14; // Joker defaults to Ace if no pair made
-		if (singletons.includes(14)) { // If Ace already present, Joker pairs with King (or next highest)
-			pairVal = singletons[1] || 13; // Pair with highest card that isn't the Ace
+	let best: HandEvaluation | null = null;
+	forEachSubstitution(getJokerCandidates(naturals, jokerCount), jokerCount, chosen => {
+		const evaluation = evaluatePlayedCards([...played, ...chosen.map(sub => ({ value: cardValues[sub.rank], suit: sub.suit }))]);
+		const legal = chosen.every(isPlainAce) || STRAIGHTS_AND_FLUSHES.includes(evaluation.rank);
+		if (legal && (!best || compareEvaluatedHands(evaluation, best) > 0)) {
+			best = { ...evaluation, jokerSubstitutions: [...chosen] };
 		}
-		const kickers = singletons.filter(v => v !== pairVal).sort((a, b) => b - a);
-		return { rank: HAND_RANK.ONE_PAIR, values: [pairVal], kickers: kickers.slice(0, 3) };
+		return best?.rank === HAND_RANK.FIVE_ACES; // Nothing beats it
+	});
+	if (!best) {
+		throw new Error('No legal Joker substitution found.'); // Unreachable: plain Aces are always legal
 	}
-
-	// 10. High Card
-	const highCardValues = values.sort((a, b) => b - a);
-	const isAceHighPaiGow = highCardValues[0] === 14 && !isStraight && !isFlush && !pairValue && !threeKindValue; // Check specifically for Ace-High non-pair/flush/straight
-
-	return { rank: HAND_RANK.HIGH_CARD, values: highCardValues.slice(0, 5), isAceHighPaiGow };
+	return best;
 }
 
-
 // --- 2-Card Hand Evaluation ---
 
 /**
- * Evaluates a 2-card Pai Gow hand.
+ * Evaluates a 2-card Pai Gow hand. Two cards make no straight or flush, so a Joker plays as an Ace.
  * @param {Card[]} hand - Exactly 2 cards.
  * @returns {HandEvaluation} The evaluated hand rank and values.
  */
@@ -306,20 +234,64 @@ export function evaluate2CardHand(hand: Card[]): HandEvaluation {
 		throw new Error('evaluate2CardHand requires exactly 2 cards.');
 	}
 
-	const sortedHand = sortCards(hand);
-	const values = sortedHand.map(c => cardValues[c.rank]);
-	const hasJoker = values.includes(cardValues.Joker);
+	const jokerCount = hand.filter(card => card.rank === 'Joker').length;
+	const values = hand.map(card => card.rank === 'Joker' ? cardValues.A : cardValues[card.rank]).sort((a, b) => b - a);
+	const evaluation: HandEvaluation = values[0] === values[1]
+		? { rank: HAND_RANK.ONE_PAIR, values: [values[0]] }
+		: { rank: HAND_RANK.HIGH_CARD, values };
+	if (jokerCount > 0) {
+		evaluation.jokerSubstitutions = Array.from({ length: jokerCount }, () => ({ rank: 'A', suit: null }));
+	}
+	return evaluation;
+}
+
+// --- Best 5 of 7 Evaluation ---
+
+/**
+ * The best poker hand available in seven cards.
+ */
+export interface BestFiveCardHand {
+	evaluation: HandEvaluation;
+	cards: Card[]; // The five cards making the hand, in the order they were given
+	jokerSubstitutions: JokerSubstitution[]; // What each Joker among those five played as; empty without one
+}
 
-	// Check for Pair
-	if (values[0] === values[1]) { // Natural pair
-		return { rank: HAND_RANK.ONE_PAIR, values: [values[0]] };
+/**
+ * Finds the best 5-card hand in seven cards, trying all 21 ways to leave two out.
+ * Among equally strong hands the first found is kept, so the result is deterministic.
+ * @param {Card[]} sevenCards - Exactly 7 cards, Jokers included.
+ * @returns {BestFiveCardHand} The best evaluation, the cards it uses and any Joker substitution.
+ */
+export function evaluate7CardBest(sevenCards: Card[]): BestFiveCardHand {
+	if (sevenCards.length !== 7) {
+		throw new Error('evaluate7CardBest requires exactly 7 cards.');
 	}
-	if (hasJoker) { // Joker always makes a pair of Aces in 2-card hand
-		return { rank: HAND_RANK.ONE_PAIR, values: [cardValues.A] };
+	let best: { evaluation: HandEvaluation; cards: Card[] } | null = null;
+	for (let skipA = 0; skipA < 7; skipA++) {
+		for (let skipB = skipA + 1; skipB < 7; skipB++) {
+			const cards = sevenCards.filter((_, index) => index !== skipA && index !== skipB);
+			const evaluation = evaluate5CardHand(cards);
+			if (!best || compareEvaluatedHands(evaluation, best.evaluation) > 0) {
+				best = { evaluation, cards };
+			}
+		}
 	}
+	if (!best) {
+		throw new Error('evaluate7CardBest found no hand.'); // Unreachable: there are 21 to choose from
+	}
+	return { ...best, jokerSubstitutions: best.evaluation.jokerSubstitutions ?? [] };
+}
 
-	// High Card
-	return { rank: HAND_RANK.HIGH_CARD, values: values }; // values are already sorted high-low
+/**
+ * Copies a set hand for reporting, marking each Joker with the card it played as.
+ * @param {Card[]} hand - A 5-card high hand or a 2-card low hand.
+ * @returns {Card[]} The same cards, Jokers carrying `playsAs`.
+ */
+export function markJokerSubstitutions(hand: Card[]): Card[] {
+	if (!hand.some(card => card.rank === 'Joker')) return hand;
+	const evaluation = hand.length === 2 ? evaluate2CardHand(hand) : evaluate5CardHand(hand);
+	const substitutions = [...(evaluation.jokerSubstitutions ?? [])];
+	return hand.map(card => card.rank === 'Joker' ? { ...card, playsAs: substitutions.shift() } : card);
 }
 
 // --- Hand Comparison ---
@@ -331,6 +303,9 @@ export function evaluate2CardHand(hand: Card[]): HandEvaluation {
  * @returns {number} 1 if hand1 > hand2, -1 if hand1 < hand2, 0 if tie.
  */
 export function compareEvaluatedHands(hand1Eval: HandEvaluation, hand2Eval: HandEvaluation): number {
+	if (hand1Eval.strength !== undefined && hand2Eval.strength !== undefined) {
+		return Math.sign(hand1Eval.strength - hand2Eval.strength); // Both looked up: the strengths already encode everything below
+	}
 	if (hand1Eval.rank > hand2Eval.rank) return 1;
 	if (hand1Eval.rank < hand2Eval.rank) return -1;
 
@@ -1,5 +1,6 @@
 import type { Card } from '../models/Card';
-import { evaluate5CardHand, evaluate2CardHand, compareEvaluatedHands, HandEvaluation, HAND_RANK } from './handEvaluator';
+import { compareEvaluatedHands, HandEvaluation, HAND_RANK } from './handEvaluator';
+import { evaluate2CardHandFast, evaluate5CardHandFast } from './lookupEvaluator';
 
 /**
  * Represents the dealer's set hand.
@@ -15,7 +16,7 @@ export interface SetHand {
  * @param {Card[]} sevenCards - The 7 cards to split.
  * @returns {SetHand[]} An array of all valid SetHand possibilities.
  */
-function getAllValidSplits(sevenCards: Card[]): SetHand[] {
+export function getAllValidSplits(sevenCards: Card[]): SetHand[] {
 	if (sevenCards.length !== 7) {
 		throw new Error('Requires exactly 7 cards.');
 	}
@@ -28,8 +29,8 @@ function getAllValidSplits(sevenCards: Card[]): SetHand[] {
 
 		if (lowHandAttempt.length !== 2) continue; // Should always be 2, but safety check
 
-		const highEval = evaluate5CardHand(highHandAttempt);
-		const lowEval = evaluate2CardHand(lowHandAttempt);
+		const highEval = evaluate5CardHandFast(highHandAttempt);
+		const lowEval = evaluate2CardHandFast(lowHandAttempt);
 
 		// Fundamental Pai Gow Rule: High hand must rank higher than low hand
 		if (compareEvaluatedHands(highEval, lowEval) > 0) {
@@ -63,9 +64,9 @@ function getAllCombinations<T>(set: T[], k: number): T[][] {
 
 
 /**
- * Sets the dealer's 7 cards according to a predefined "House Way".
- * This implementation follows the simplified rules mentioned in PLANNING.md Appendix.
+ * Sets 7 cards using the maximize-low house way.
  * It prioritizes finding the best possible low hand while maintaining a valid split.
+ * This is the default house way, and the fallback of the rule-by-rule house ways in src/houseWays.
  * @param {Card[]} sevenCards - The dealer's 7 cards.
  * @returns {SetHand} The optimally set 5-card high hand and 2-card low hand.
  */
@@ -81,15 +82,15 @@ export function setDealerHandHouseWay(sevenCards: Card[]): SetHand {
 		// This should theoretically never happen with 7 cards unless the evaluator has a bug
 		// or the input is invalid. Fallback: put highest 5 in high hand.
 		console.error("CRITICAL: No valid splits found for dealer hand:", sevenCards);
-		const sorted = sevenCards.sort((a, b) => (b.rank === 'Joker' ? 99 : parseInt(b.rank, 10) || (b.rank === 'A' ? 14 : b.rank === 'K' ? 13 : b.rank === 'Q' ? 12 : 11)) - (a.rank === 'Joker' ? 99 : parseInt(a.rank, 10) || (a.rank === 'A' ? 14 : a.rank === 'K' ? 13 : a.rank === 'Q' ? 12 : 11)));
+		const sorted = sevenCards.sort((a, b) => (b.rank === 'Joker' ? 99 : Number.parseInt(b.rank, 10) || (b.rank === 'A' ? 14 : b.rank === 'K' ? 13 : b.rank === 'Q' ? 12 : 11)) - (a.rank === 'Joker' ? 99 : Number.parseInt(a.rank, 10) || (a.rank === 'A' ? 14 : a.rank === 'K' ? 13 : a.rank === 'Q' ? 12 : 11)));
 		return { highHand: sorted.slice(0, 5), lowHand: sorted.slice(5, 7) };
 	}
 
 	// 2. Evaluate all valid splits
 	const evaluatedSplits = validSplits.map(split => ({
 		split: split,
-		highEval: evaluate5CardHand(split.highHand),
-		lowEval: evaluate2CardHand(split.lowHand)
+		highEval: evaluate5CardHandFast(split.highHand),
+		lowEval: evaluate2CardHandFast(split.lowHand)
 	}));
 
 	// 3. Choose the best split based on House Way strategy (Maximize Low Hand)
@@ -106,15 +107,8 @@ export function setDealerHandHouseWay(sevenCards: Card[]): SetHand {
 	// The best split according to this strategy is the first one after sorting
 	const bestSplit = evaluatedSplits[0].split;
 
-	console.log("Dealer House Way determined split:", {
-		highHand: bestSplit.highHand.map(c => c.rank + c.suit[0]),
-		lowHand: bestSplit.lowHand.map(c => c.rank + c.suit[0])
-	});
-
 	return bestSplit;
 
-	// Note: The detailed rule-by-rule implementation (Five Aces, Four Kind, etc.) from
-	// the Appendix is complex. This approach of finding the split that maximizes the
-	// low hand's rank (while keeping the split valid) is a common and effective House Way.
-	// It implicitly handles most cases correctly. We can refine with specific rules later if needed.
+	// Note: Maximizing the low hand is simple but not how casinos set hands (it can, e.g., break up
+	// two pair the wrong way). The rule-by-rule casino house ways live in src/houseWays.
 }
\ No newline at end of file
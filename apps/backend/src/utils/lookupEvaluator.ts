@@ -0,0 +1,236 @@
+import type { Card } from '../models/Card';
+import { compareEvaluatedHands, evaluate2CardHand, evaluate5CardHand, type HandEvaluation } from './handEvaluator';
+
+/**
+ * Index of each rank in the lookup tables: 2 to Ace, then the Joker.
+ */
+const RANK_INDEX: { [rank: string]: number } = {
+	'2': 0, '3': 1, '4': 2, '5': 3, '6': 4, '7': 5, '8': 6, '9': 7, '10': 8,
+	'J': 9, 'Q': 10, 'K': 11, 'A': 12, 'Joker': 13,
+};
+const RANKS = Object.keys(RANK_INDEX);
+const RANK_COUNT = RANKS.length;
+
+/**
+ * binomial[n][k] for n up to 18, enough for 5 ranks chosen from 14 with repetition.
+ */
+const binomial: number[][] = Array.from({ length: RANK_COUNT + 5 }, (_, n) => {
+	const row = [1];
+	for (let k = 1; k <= 5; k++) row.push((row[k - 1] * (n - k + 1)) / k);
+	return row;
+});
+
+const FIVE_CARD_KEYS = binomial[RANK_COUNT + 4][5]; // 8568 rank multisets of 5 cards
+const TWO_CARD_KEYS = binomial[RANK_COUNT + 1][2]; // 105 rank multisets of 2 cards
+
+/**
+ * Precomputed evaluations: every 5-card rank multiset, once with all natural cards in one suit
+ * and once without, and every 2-card rank multiset.
+ */
+interface LookupTables {
+	fiveCard: Readonly<HandEvaluation>[]; // By suitedKey(key, suited)
+	twoCard: Readonly<HandEvaluation>[]; // By multiset key
+	fiveCardStrength: Int32Array;
+	twoCardStrength: Int32Array;
+}
+
+let tables: LookupTables | null = null;
+
+/**
+ * Perfect hash of a rank multiset: with the indices sorted ascending, index i is shifted by i so the
+ * values are distinct, and the combinatorial number system numbers the result from 0.
+ * @param {number[]} sortedIndices - Rank indices in ascending order (sorted in place by the caller).
+ * @returns {number} The multiset's key, below C(14 + n - 1, n) for n indices.
+ */
+function multisetKey(sortedIndices: number[]): number {
+	let key = 0;
+	for (let i = 0; i < sortedIndices.length; i++) {
+		key += binomial[sortedIndices[i] + i][i + 1];
+	}
+	return key;
+}
+
+/**
+ * Position of a 5-card hand in the tables: natural cards all of one suit can make a flush, so they get their own half.
+ * @param {number} key - The rank multiset's key.
+ * @param {boolean} suited - Whether every natural card shares one suit.
+ * @returns {number} The table index.
+ */
+function suitedKey(key: number, suited: boolean): number {
+	return suited ? key + FIVE_CARD_KEYS : key;
+}
+
+/**
+ * Calls a function with every ascending list of `length` rank indices.
+ * @param {number} length - Cards in the hand.
+ * @param {(indices: number[]) => void} visit - Called with each multiset.
+ */
+function forEachMultiset(length: number, visit: (indices: number[]) => void): void {
+	const indices: number[] = [];
+	const extend = (from: number) => {
+		if (indices.length === length) {
+			visit(indices);
+			return;
+		}
+		for (let index = from; index < RANK_COUNT; index++) {
+			indices.push(index);
+			extend(index);
+			indices.pop();
+		}
+	};
+	extend(0);
+}
+
+/**
+ * Builds a hand for a rank multiset. Suited hands put every natural card in Spades;
+ * unsuited ones alternate Spades and Hearts, so at least two suits appear.
+ * @param {number[]} indices - Rank indices.
+ * @param {boolean} suited - Whether the natural cards share one suit.
+ * @returns {Card[]} A hand the reference evaluator can score.
+ */
+function representativeHand(indices: number[], suited: boolean): Card[] {
+	let natural = 0;
+	return indices.map(index => {
+		const rank = RANKS[index];
+		if (rank === 'Joker') return { rank, suit: 'Joker' };
+		const suit = suited || natural++ % 2 === 0 ? 'Spades' : 'Hearts';
+		return { rank, suit };
+	});
+}
+
+/**
+ * Scores every rank multiset with the reference evaluator in handEvaluator.ts, so both always agree,
+ * and numbers the distinct evaluations of both hand sizes in one order: a higher strength wins,
+ * and equal strengths tie, exactly as compareEvaluatedHands would say.
+ * @returns {LookupTables} The tables, built on first use (well under a second).
+ */
+function buildTables(): LookupTables {
+	const fiveCard: HandEvaluation[] = new Array(FIVE_CARD_KEYS * 2);
+	const twoCard: HandEvaluation[] = new Array(TWO_CARD_KEYS);
+	forEachMultiset(5, indices => {
+		const key = multisetKey(indices);
+		const naturals = indices.filter(index => RANKS[index] !== 'Joker').length;
+		fiveCard[suitedKey(key, true)] = evaluate5CardHand(representativeHand(indices, true));
+		// One natural card or none is always of one suit
+		fiveCard[suitedKey(key, false)] = naturals > 1 ? evaluate5CardHand(representativeHand(indices, false)) : fiveCard[suitedKey(key, true)];
+	});
+	forEachMultiset(2, indices => {
+		twoCard[multisetKey(indices)] = evaluate2CardHand(representativeHand(indices, false));
+	});
+
+	// One ranking across both sizes, since the high hand must beat the low hand
+	const ordered = Array.from(new Set([...fiveCard, ...twoCard])).sort(compareEvaluatedHands);
+	const strengths = new Map<HandEvaluation, number>();
+	let strength = 0;
+	ordered.forEach((evaluation, index) => {
+		if (index > 0 && compareEvaluatedHands(ordered[index - 1], evaluation) !== 0) strength++;
+		strengths.set(evaluation, strength);
+	});
+	// A table entry stands for hands of every suit, so it cannot say which card a Joker played as
+	const withStrength = (evaluation: HandEvaluation) => {
+		const { jokerSubstitutions, ...shared } = evaluation;
+		return Object.freeze({ ...shared, strength: strengths.get(evaluation) ?? 0 }); // Every evaluation was ranked above
+	};
+
+	const frozenFive = fiveCard.map(withStrength);
+	const frozenTwo = twoCard.map(withStrength);
+	return {
+		fiveCard: frozenFive,
+		twoCard: frozenTwo,
+		fiveCardStrength: Int32Array.from(frozenFive, evaluation => evaluation.strength),
+		twoCardStrength: Int32Array.from(frozenTwo, evaluation => evaluation.strength),
+	};
+}
+
+/**
+ * Returns the lookup tables, building them on first use.
+ * @returns {LookupTables} The tables.
+ */
+function getTables(): LookupTables {
+	if (!tables) tables = buildTables();
+	return tables;
+}
+
+/**
+ * Finds a 5-card hand's table index: its sorted rank indices and whether the natural cards share a suit.
+ * @param {Card[]} hand - Exactly 5 cards.
+ * @returns {number} The index into the 5-card tables.
+ */
+function fiveCardIndex(hand: Card[]): number {
+	if (hand.length !== 5) {
+		throw new Error('evaluate5CardHandFast requires exactly 5 cards.');
+	}
+	const indices = [0, 0, 0, 0, 0];
+	let suit: string | null = null;
+	let suited = true;
+	for (let i = 0; i < 5; i++) {
+		const card = hand[i];
+		const index = RANK_INDEX[card.rank];
+		if (card.rank !== 'Joker') {
+			if (suit === null) suit = card.suit;
+			else if (card.suit !== suit) suited = false;
+		}
+		// Insertion sort: five items
+		let j = i;
+		while (j > 0 && indices[j - 1] > index) {
+			indices[j] = indices[j - 1];
+			j--;
+		}
+		indices[j] = index;
+	}
+	return suitedKey(multisetKey(indices), suited);
+}
+
+/**
+ * Finds a 2-card hand's table index.
+ * @param {Card[]} hand - Exactly 2 cards.
+ * @returns {number} The index into the 2-card tables.
+ */
+function twoCardIndex(hand: Card[]): number {
+	if (hand.length !== 2) {
+		throw new Error('evaluate2CardHandFast requires exactly 2 cards.');
+	}
+	const first = RANK_INDEX[hand[0].rank];
+	const second = RANK_INDEX[hand[1].rank];
+	return first <= second ? multisetKey([first, second]) : multisetKey([second, first]);
+}
+
+/**
+ * Evaluates a 5-card hand by table lookup. The result matches evaluate5CardHand and also carries
+ * its `strength`, so compareEvaluatedHands compares two looked-up hands with a single subtraction.
+ * It leaves out `jokerSubstitutions`; ask evaluate5CardHand what a Joker played as.
+ * The returned evaluation is shared and frozen.
+ * @param {Card[]} hand - Exactly 5 cards.
+ * @returns {Readonly<HandEvaluation>} The evaluation, with strength.
+ */
+export function evaluate5CardHandFast(hand: Card[]): Readonly<HandEvaluation> {
+	return getTables().fiveCard[fiveCardIndex(hand)];
+}
+
+/**
+ * Evaluates a 2-card hand by table lookup. The result matches evaluate2CardHand, with its `strength`
+ * on the same scale as 5-card hands. The returned evaluation is shared and frozen.
+ * @param {Card[]} hand - Exactly 2 cards.
+ * @returns {Readonly<HandEvaluation>} The evaluation, with strength.
+ */
+export function evaluate2CardHandFast(hand: Card[]): Readonly<HandEvaluation> {
+	return getTables().twoCard[twoCardIndex(hand)];
+}
+
+/**
+ * Scores a 5-card hand as a single integer, for simulations that only need to compare hands.
+ * @param {Card[]} hand - Exactly 5 cards.
+ * @returns {number} The strength: higher wins, equal ties, on the same scale as get2CardStrength.
+ */
+export function get5CardStrength(hand: Card[]): number {
+	return getTables().fiveCardStrength[fiveCardIndex(hand)];
+}
+
+/**
+ * Scores a 2-card hand as a single integer on the same scale as 5-card hands.
+ * @param {Card[]} hand - Exactly 2 cards.
+ * @returns {number} The strength: higher wins, equal ties.
+ */
+export function get2CardStrength(hand: Card[]): number {
+	return getTables().twoCardStrength[twoCardIndex(hand)];
+}
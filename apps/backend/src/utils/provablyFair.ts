@@ -0,0 +1,122 @@
+import crypto from 'node:crypto';
+import type { Card } from '../models/Card';
+import { Deck, STANDARD_DECK_CONFIG, type DeckConfig } from './Deck';
+import { generateSeed } from './rng';
+
+/**
+ * Longest client seed a player may contribute.
+ */
+export const MAX_CLIENT_SEED_LENGTH = 64;
+
+/**
+ * Entropy one player contributed to a round's shuffle.
+ */
+export interface ClientSeed {
+	username: string;
+	clientSeed: string;
+}
+
+/**
+ * The commit–reveal state of one shuffle: the server seed stays secret until the last round dealt
+ * from the deck or shoe, while its hash is announced when betting opens, before any client seed is known.
+ */
+export interface RoundFairness {
+	serverSeed: string;
+	seedCommitment: string; // SHA-256 of serverSeed, announced when betting opens
+	clientSeeds: ClientSeed[]; // In the order they were first contributed
+	shoe: DeckConfig; // What the shuffled deck or shoe is made of
+}
+
+/**
+ * What a round reveals in 'roundResult': enough for anyone to check the commitment and rebuild the deck.
+ */
+export type RoundReveal = RoundFairness;
+
+/**
+ * The outcome of checking a revealed round.
+ */
+export interface RoundVerification {
+	commitmentMatches: boolean; // The revealed server seed hashes to the announced commitment
+	roundSeed: string; // Seed the deck was shuffled with
+	deck: Card[]; // The shuffled deck in dealing order (last card is dealt first)
+}
+
+/**
+ * Hashes a value the way commitments and round seeds are built.
+ * @param {string} value - The value to hash.
+ * @returns {string} The SHA-256 digest as hex.
+ */
+export function sha256Hex(value: string): string {
+	return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Picks a fresh server seed and its commitment for a new shuffle. Only the DeckConfig fields of the shoe
+ * are kept, since it is revealed with the round: the table's whole GameSettings can be passed in.
+ * @param {DeckConfig} [shoe] - What the deck or shoe is made of. The standard 53-card deck by default.
+ * @returns {RoundFairness} The secret seed, its commitment and no client seeds yet.
+ */
+export function createRoundFairness(shoe: DeckConfig = STANDARD_DECK_CONFIG): RoundFairness {
+	const serverSeed = generateSeed();
+	const { deckCount, jokersPerDeck, penetrationPercent } = shoe;
+	return { serverSeed, seedCommitment: sha256Hex(serverSeed), clientSeeds: [], shoe: { deckCount, jokersPerDeck, penetrationPercent } };
+}
+
+/**
+ * Checks a client seed sent by a player.
+ * @param {unknown} clientSeed - The value from the message payload.
+ * @returns {string} The valid client seed.
+ * @throws {Error} If it is not a non-empty string of printable ASCII, or is too long.
+ */
+export function validateClientSeed(clientSeed: unknown): string {
+	if (typeof clientSeed !== 'string' || !/^[\x20-\x7e]+$/.test(clientSeed) || clientSeed.length > MAX_CLIENT_SEED_LENGTH) {
+		throw new Error(`Client seed must be 1 to ${MAX_CLIENT_SEED_LENGTH} printable ASCII characters.`);
+	}
+	return clientSeed;
+}
+
+/**
+ * Records a player's client seed for the round. A player who contributes again replaces their earlier seed
+ * but keeps their place, so the order does not depend on who resends.
+ * @param {RoundFairness} fairness - The round's commit–reveal state.
+ * @param {string} username - The contributing player.
+ * @param {string} clientSeed - Their validated client seed.
+ */
+export function addClientSeed(fairness: RoundFairness, username: string, clientSeed: string): void {
+	const existing = fairness.clientSeeds.find(entry => entry.username === username);
+	if (existing) {
+		existing.clientSeed = clientSeed;
+	} else {
+		fairness.clientSeeds.push({ username, clientSeed });
+	}
+}
+
+/**
+ * Combines the server seed with every client seed into the seed the round's deck is shuffled with.
+ * Neither side can pick the result: the server committed before seeing the client seeds,
+ * and the clients never see the server seed until the round is over. The 'deal' label keeps the
+ * round seed from ever equalling the public commitment, even when nobody contributed.
+ * @param {string} serverSeed - The round's server seed.
+ * @param {ClientSeed[]} clientSeeds - The contributed client seeds, in order.
+ * @returns {string} SHA-256 of `${serverSeed}:deal:${username}=${clientSeed}:...` as hex.
+ */
+export function combineRoundSeed(serverSeed: string, clientSeeds: ClientSeed[]): string {
+	const parts = [serverSeed, 'deal', ...clientSeeds.map(entry => `${entry.username}=${entry.clientSeed}`)];
+	return sha256Hex(parts.join(':'));
+}
+
+/**
+ * Checks a revealed round: that the server seed matches its commitment, and rebuilds the deck it produced.
+ * Each hand was dealt as the next 7 cards from the end of the deck: players in seat order, then the dealer.
+ * A shoe is dealt on across rounds, so its later hands come from further into the rebuilt shoe.
+ * @param {RoundReveal} reveal - The server seed, commitment, client seeds and shoe from 'roundResult'.
+ * @returns {RoundVerification} Whether the commitment matches, the round seed and the deck order.
+ */
+export function verifyRound(reveal: RoundReveal): RoundVerification {
+	const roundSeed = combineRoundSeed(reveal.serverSeed, reveal.clientSeeds);
+	return {
+		commitmentMatches: sha256Hex(reveal.serverSeed) === reveal.seedCommitment,
+		roundSeed,
+		deck: Deck.fromSeed(roundSeed, reveal.shoe).getCards(),
+	};
+}
@@ -0,0 +1,63 @@
+import crypto from 'node:crypto';
+
+/**
+ * A source of random numbers for shuffling.
+ */
+export interface Rng {
+	/**
+	 * Draws a uniformly distributed whole number.
+	 * @param {number} maxExclusive - Upper bound (exclusive), at least 1.
+	 * @returns {number} A whole number from 0 to maxExclusive - 1.
+	 */
+	randomInt(maxExclusive: number): number;
+}
+
+/**
+ * The default source: Node's cryptographically secure generator. Deals cannot be predicted, or replayed.
+ */
+export const cryptoRng: Rng = {
+	randomInt: (maxExclusive) => crypto.randomInt(maxExclusive),
+};
+
+/**
+ * Creates a fresh random seed for a seeded generator.
+ * @returns {string} 32 random bytes as hex.
+ */
+export function generateSeed(): string {
+	return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * Creates a deterministic generator: the same seed always gives the same numbers, so a shuffle can be replayed.
+ * Numbers are read as 32-bit words from SHA-256(`${seed}:${block}`) for block = 0, 1, 2, ...,
+ * and drawn by rejection sampling so every result is equally likely.
+ * @param {string} seed - Any string, usually from generateSeed().
+ * @returns {Rng} The seeded generator.
+ */
+export function createSeededRng(seed: string): Rng {
+	let block = 0;
+	let words: number[] = [];
+
+	const nextWord = (): number => {
+		if (words.length === 0) {
+			const digest = crypto.createHash('sha256').update(`${seed}:${block++}`).digest();
+			words = Array.from({ length: 8 }, (_, index) => digest.readUInt32BE(index * 4));
+		}
+		return words.shift() ?? 0; // Never empty: refilled above
+	};
+
+	return {
+		randomInt: (maxExclusive) => {
+			if (!Number.isInteger(maxExclusive) || maxExclusive < 1 || maxExclusive > 2 ** 32) {
+				throw new Error(`Cannot draw a random number below ${maxExclusive}.`);
+			}
+			// Reject the top sliver of 32-bit words that would make low results more likely
+			const limit = Math.floor(2 ** 32 / maxExclusive) * maxExclusive;
+			let word = nextWord();
+			while (word >= limit) {
+				word = nextWord();
+			}
+			return word % maxExclusive;
+		},
+	};
+}
@@ -0,0 +1,158 @@
+import type { Card } from '../models/Card';
+import type { GameSettings } from '../models/GameSettings';
+import { setHandHouseWay } from '../houseWays/registry';
+import { determineOutcome, type Variant } from '../variants/Variant';
+import { Deck } from './Deck';
+import { compareEvaluatedHands } from './handEvaluator';
+import { getAllValidSplits } from './houseWay';
+import { evaluate2CardHandFast, evaluate5CardHandFast } from './lookupEvaluator';
+
+/**
+ * Time the advisor samples for when the request does not say: a few thousand dealer hands.
+ */
+export const DEFAULT_ADVISOR_TIME_BUDGET_MS = 1000;
+
+/**
+ * Longest a player may ask the advisor to sample.
+ */
+export const MAX_ADVISOR_TIME_BUDGET_MS = 3000;
+
+/**
+ * Longest the advisor samples in one go before it lets the server handle other messages.
+ */
+export const ADVISOR_SLICE_MS = 5;
+
+/**
+ * Time a player waits after an analysis ends before they can ask for the next one.
+ */
+export const ADVISOR_COOLDOWN_MS = 2000;
+
+/**
+ * Dealer hands sampled at most, however much time is left.
+ */
+export const MAX_ADVISOR_SAMPLES = 50_000;
+
+/**
+ * One way a player can set their 7 cards, with its estimated results against a hidden dealer hand.
+ */
+export interface SplitEstimate {
+	highHand: Card[];
+	lowHand: Card[];
+	winProbability: number;
+	pushProbability: number;
+	lossProbability: number;
+	expectedValue: number; // Average return per DannyBuck bet, after commission
+	standardError: number; // Sampling error of expectedValue: the true value is within 2 of these about 95% of the time
+	closeToBest: boolean; // Within sampling error of the best split, so the order among these means little
+}
+
+/**
+ * The table rules the advisor plays the sampled dealer hands by.
+ */
+export interface AdvisorOptions {
+	variant: Variant; // Copy rule, dealer push and win payout
+	houseWay: string; // Sets the sampled dealer hands
+	settings: GameSettings; // Passed to the variant's win payout (e.g. commission rate); also gives the shoe's decks and Jokers
+	betAmount: number; // Bet the payout is worked out for, since commissions are rounded
+	dealerPushes: boolean; // False when a player banks: their hand never pushes
+	timeBudgetMs: number;
+	maxSamples?: number;
+	random?: () => number; // Returns [0, 1); Math.random unless a test needs repeatable samples
+}
+
+/**
+ * The advisor's estimates, best expected value first.
+ */
+export interface AdvisorResult {
+	splits: SplitEstimate[];
+	samples: number; // Dealer hands played out
+}
+
+/**
+ * Estimates the results of every valid split of a player's cards when the dealer's cards are hidden.
+ * Dealer hands are drawn at random from the cards the player cannot see, set by the table's house way
+ * and played against each split. There are over 50 million possible dealer hands, far too many to
+ * enumerate in time, so the advisor samples until the time budget or the sample limit runs out.
+ * It samples in slices of ADVISOR_SLICE_MS, so other tables keep playing while it works.
+ * @param {Card[]} sevenCards - The player's 7 cards.
+ * @param {AdvisorOptions} options - The table rules and sampling limits.
+ * @returns {Promise<AdvisorResult>} Every valid split with its estimated probabilities and expected value.
+ */
+export async function estimateHiddenDealerSplits(sevenCards: Card[], options: AdvisorOptions): Promise<AdvisorResult> {
+	const { variant, houseWay, settings, betAmount, dealerPushes, timeBudgetMs } = options;
+	const maxSamples = options.maxSamples ?? MAX_ADVISOR_SAMPLES;
+	const random = options.random ?? Math.random;
+
+	// The table's shoe less the player's own cards, each removed once: by id, or by rank and suit if it has none
+	const unseen = new Deck(undefined, settings).getCards();
+	for (const own of sevenCards) {
+		const index = unseen.findIndex(card => own.id !== undefined ? card.id === own.id : card.rank === own.rank && card.suit === own.suit);
+		if (index !== -1) unseen.splice(index, 1);
+	}
+	const winReturn = variant.settleWin(betAmount, settings).winnings / betAmount;
+
+	const candidates = getAllValidSplits(sevenCards).map(split => ({
+		split,
+		highEval: evaluate5CardHandFast(split.highHand),
+		lowEval: evaluate2CardHandFast(split.lowHand),
+		wins: 0,
+		pushes: 0,
+		losses: 0,
+	}));
+
+	const deadline = Date.now() + timeBudgetMs;
+	let samples = 0;
+	let sliceEnd = Math.min(deadline, Date.now() + ADVISOR_SLICE_MS);
+	while (samples < maxSamples && (samples === 0 || Date.now() < deadline)) {
+		if (Date.now() >= sliceEnd) {
+			await new Promise(resolve => setImmediate(resolve)); // Let the server handle what came in meanwhile
+			sliceEnd = Math.min(deadline, Date.now() + ADVISOR_SLICE_MS);
+		}
+		// Partial Fisher-Yates: the last 7 positions hold a uniformly random dealer hand
+		for (let i = unseen.length - 1; i >= unseen.length - 7; i--) {
+			const j = Math.floor(random() * (i + 1));
+			[unseen[i], unseen[j]] = [unseen[j], unseen[i]];
+		}
+		const dealer = setHandHouseWay(unseen.slice(-7), houseWay);
+		const dealerHighEval = evaluate5CardHandFast(dealer.highHand);
+		const dealerLowEval = evaluate2CardHandFast(dealer.lowHand);
+		const push = dealerPushes && variant.isDealerPush(dealerHighEval, dealerLowEval);
+
+		for (const candidate of candidates) {
+			const outcome = push
+				? 'Push'
+				: determineOutcome(
+					compareEvaluatedHands(candidate.highEval, dealerHighEval),
+					compareEvaluatedHands(candidate.lowEval, dealerLowEval),
+					variant.copyRule,
+				);
+			if (outcome === 'Win') candidate.wins++;
+			else if (outcome === 'Loss') candidate.losses++;
+			else candidate.pushes++;
+		}
+		samples++;
+	}
+
+	const estimates = candidates
+		.map(({ split, wins, pushes, losses }) => {
+			// Each dealer hand returns winReturn, 0 or -1; the spread of those returns gives the error of their mean
+			const expectedValue = (wins * winReturn - losses) / samples;
+			const meanSquare = (wins * winReturn * winReturn + losses) / samples;
+			return {
+				highHand: split.highHand,
+				lowHand: split.lowHand,
+				winProbability: wins / samples,
+				pushProbability: pushes / samples,
+				lossProbability: losses / samples,
+				expectedValue,
+				standardError: Math.sqrt(Math.max(0, meanSquare - expectedValue * expectedValue) / samples),
+			};
+		})
+		.sort((a, b) => b.expectedValue - a.expectedValue);
+	const [best] = estimates;
+	const splits = estimates.map(estimate => ({
+		...estimate,
+		closeToBest: best.expectedValue - estimate.expectedValue <= 2 * Math.hypot(best.standardError, estimate.standardError),
+	}));
+	return { splits, samples };
+}
@@ -0,0 +1,56 @@
+import type { Card } from '../models/Card';
+import { determineOutcome, type CopyRule, type RoundOutcome } from '../variants/Variant';
+import { compareEvaluatedHands, evaluate2CardHand, evaluate5CardHand } from './handEvaluator';
+import { getAllValidSplits, type SetHand } from './houseWay';
+
+/**
+ * One way a player can set their 7 cards, with how it fares against the dealer.
+ */
+export interface SplitAnalysis {
+	highHand: Card[];
+	lowHand: Card[];
+	outcome: RoundOutcome; // Result of the main bet if the player sets this split
+	highComparison: number; // Player vs dealer 5-card hand: 1 player higher, -1 dealer higher, 0 copy
+	lowComparison: number; // Player vs dealer 2-card hand, same scale
+}
+
+const OUTCOME_ORDER: Record<RoundOutcome, number> = { Win: 0, Push: 1, Loss: 2 };
+
+/**
+ * Solves a hand against a face-up dealer: plays every valid split of the player's cards against the dealer's
+ * set hands and ranks them. Wins come first, then pushes, then losses; within an outcome, splits with
+ * the stronger low hand (then high hand) come first.
+ * @param {Card[]} sevenCards - The player's 7 cards.
+ * @param {SetHand} dealerHand - The dealer's set high and low hands.
+ * @param {CopyRule} copyRule - Who takes a copied hand at this table.
+ * @returns {SplitAnalysis[]} Every valid split, best first.
+ */
+export function solveFaceUpSplits(sevenCards: Card[], dealerHand: SetHand, copyRule: CopyRule): SplitAnalysis[] {
+	const dealerHighEval = evaluate5CardHand(dealerHand.highHand);
+	const dealerLowEval = evaluate2CardHand(dealerHand.lowHand);
+
+	return getAllValidSplits(sevenCards)
+		.map((split) => {
+			const highEval = evaluate5CardHand(split.highHand);
+			const lowEval = evaluate2CardHand(split.lowHand);
+			const highComparison = compareEvaluatedHands(highEval, dealerHighEval);
+			const lowComparison = compareEvaluatedHands(lowEval, dealerLowEval);
+			return {
+				analysis: {
+					highHand: split.highHand,
+					lowHand: split.lowHand,
+					outcome: determineOutcome(highComparison, lowComparison, copyRule),
+					highComparison,
+					lowComparison,
+				},
+				highEval,
+				lowEval,
+			};
+		})
+		.sort((a, b) =>
+			OUTCOME_ORDER[a.analysis.outcome] - OUTCOME_ORDER[b.analysis.outcome] ||
+			compareEvaluatedHands(b.lowEval, a.lowEval) ||
+			compareEvaluatedHands(b.highEval, a.highEval)
+		)
+		.map(({ analysis }) => analysis);
+}
@@ -0,0 +1,382 @@
+import type { Card } from '../models/Card';
+import type { GameSettings } from '../models/GameSettings';
+import type { Player } from '../models/Player';
+import { GAME_STATES, TRANSIENT_STATES, type DealerHand, type GameTable } from '../models/GameTable';
+import { parseGameSettings } from './gameSettings';
+import { combineRoundSeed } from './provablyFair';
+
+/**
+ * Current version of the table snapshot format. Bump it whenever the format changes.
+ * The format is documented in docs/TABLE_SNAPSHOT.md.
+ */
+export const TABLE_SNAPSHOT_VERSION = 1;
+
+/**
+ * Phases a host may download the table in: no player or dealer hand is hidden in them.
+ */
+export const DOWNLOADABLE_STATES = ['WaitingForPlayers', 'Betting', 'RoundOver'];
+
+const VALID_RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A', 'Joker'];
+const VALID_SUITS = ['Spades', 'Hearts', 'Diamonds', 'Clubs', 'Joker'];
+
+/**
+ * A player's seat, identified by username since connection IDs do not survive a save.
+ */
+export interface PlayerSnapshot {
+	username: string;
+	dannyBucks: number;
+	currentBet: number | null;
+	sideBet: number | null; // Optional in files saved before side bets existed
+	currentHand: Card[] | null;
+	setHighHand: Card[] | null;
+	setLowHand: Card[] | null;
+	hasSetHand: boolean;
+	isReadyForNextRound: boolean;
+}
+
+/**
+ * A serializable copy of a GameTable without any live connections.
+ */
+export interface TableSnapshot {
+	version: number;
+	tableId: string;
+	savedAt: string; // ISO timestamp
+	hostUsername: string | null;
+	gameState: string;
+	gameSettings: GameSettings;
+	players: PlayerSnapshot[];
+	deck: Card[]; // Remaining cards in dealing order (last card is dealt first)
+	dealerHand: DealerHand;
+	bankerUsername: string | null; // Player banking the round; optional in files saved before player banking existed
+	roundSeed: string | null; // Seed the deck or shoe in play was shuffled with; optional in older files
+}
+
+/**
+ * Copies an array of cards so snapshots never share objects with live state.
+ * @param {Card[] | null} cards - The cards to copy.
+ * @returns {Card[] | null} The copied cards.
+ */
+function copyCards(cards: Card[] | null): Card[] | null {
+	return cards ? cards.map(card => ({ ...card })) : null;
+}
+
+/**
+ * Captures the current state of a table.
+ * Players without a username have nothing worth saving and are left out.
+ * @param {GameTable} gameTable - The table to capture.
+ * @returns {TableSnapshot} The snapshot.
+ */
+export function createTableSnapshot(gameTable: GameTable): TableSnapshot {
+	const host = gameTable.hostId ? gameTable.players.get(gameTable.hostId) : undefined;
+	const players: PlayerSnapshot[] = [];
+
+	gameTable.players.forEach((player) => {
+		if (!player.username) return;
+		players.push({
+			username: player.username,
+			dannyBucks: player.dannyBucks,
+			currentBet: player.currentBet,
+			sideBet: player.sideBet,
+			currentHand: copyCards(player.currentHand),
+			setHighHand: copyCards(player.setHighHand),
+			setLowHand: copyCards(player.setLowHand),
+			hasSetHand: player.hasSetHand,
+			isReadyForNextRound: player.isReadyForNextRound,
+		});
+	});
+	// Seats nobody has reclaimed yet are still part of the table
+	gameTable.reservedSeats.forEach((seat) => {
+		players.push({
+			...seat,
+			currentHand: copyCards(seat.currentHand),
+			setHighHand: copyCards(seat.setHighHand),
+			setLowHand: copyCards(seat.setLowHand),
+		});
+	});
+
+	return {
+		version: TABLE_SNAPSHOT_VERSION,
+		tableId: gameTable.id,
+		savedAt: new Date().toISOString(),
+		hostUsername: host?.username ?? gameTable.reservedHostUsername,
+		gameState: gameTable.pausedState ?? gameTable.gameState, // A paused table is saved as the phase it interrupted
+		gameSettings: { ...gameTable.gameSettings },
+		players,
+		deck: gameTable.deck.getCards(),
+		dealerHand: {
+			dealtCards: copyCards(gameTable.dealerHand.dealtCards),
+			highHand: copyCards(gameTable.dealerHand.highHand),
+			lowHand: copyCards(gameTable.dealerHand.lowHand),
+			isAceHighPaiGow: gameTable.dealerHand.isAceHighPaiGow,
+		},
+		bankerUsername: gameTable.bankerUsername,
+		roundSeed: gameTable.roundSeed,
+	};
+}
+
+/**
+ * Captures a table for the host to download. The file is for anyone to read, so nothing still secret goes in:
+ * the deck order and the seed of the shoe in play are left out. A table loaded from it reshuffles at the next deal.
+ * Only take one between rounds, while no hand is out (see DOWNLOADABLE_STATES).
+ * @param {GameTable} gameTable - The table to capture.
+ * @returns {TableSnapshot} The snapshot, without the shoe.
+ */
+export function createDownloadSnapshot(gameTable: GameTable): TableSnapshot {
+	return { ...createTableSnapshot(gameTable), deck: [], roundSeed: null };
+}
+
+/**
+ * Recursively freezes a value so nothing can change it after the fact.
+ * @param {T} value - The value to freeze.
+ * @returns {T} The same value, now frozen.
+ */
+function deepFreeze<T>(value: T): T {
+	if (typeof value === 'object' && value !== null && !Object.isFrozen(value)) {
+		Object.freeze(value);
+		Object.values(value).forEach(deepFreeze);
+	}
+	return value;
+}
+
+/**
+ * Makes a snapshot immutable, e.g. before it is kept in a table's turn history.
+ * @param {TableSnapshot} snapshot - The snapshot to freeze.
+ * @returns {Readonly<TableSnapshot>} The same snapshot, frozen all the way down.
+ */
+export function freezeTableSnapshot(snapshot: TableSnapshot): Readonly<TableSnapshot> {
+	return deepFreeze(snapshot);
+}
+
+/**
+ * Validates a list of cards from an untrusted snapshot.
+ * @param {unknown} value - The value to validate.
+ * @param {string} field - Name of the field, used in error messages.
+ * @param {boolean} nullable - Whether null is an accepted value.
+ * @returns {Card[] | null} The validated cards.
+ */
+function parseCards(value: unknown, field: string, nullable: boolean): Card[] | null {
+	if (value === null && nullable) {
+		return null;
+	}
+	if (!Array.isArray(value)) {
+		throw new Error(`Invalid snapshot: '${field}' must be an array of cards.`);
+	}
+	return value.map((card, index) => {
+		if (
+			typeof card !== 'object' || card === null ||
+			!VALID_RANKS.includes(card.rank) || !VALID_SUITS.includes(card.suit) ||
+			(card.rank === 'Joker') !== (card.suit === 'Joker') ||
+			(card.id !== undefined && (typeof card.id !== 'string' || card.id.length === 0))
+		) {
+			throw new Error(`Invalid snapshot: '${field}[${index}]' is not a valid card.`);
+		}
+		return card.id === undefined ? { rank: card.rank, suit: card.suit } : { rank: card.rank, suit: card.suit, id: card.id };
+	});
+}
+
+/**
+ * Checks for a non-negative whole number, e.g. a balance or a bet.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True if the value is a whole number of zero or more.
+ */
+function isWholeAmount(value: unknown): value is number {
+	return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Validates one player seat from an untrusted snapshot.
+ * @param {unknown} value - The raw seat.
+ * @param {number} index - Position of the seat, used in error messages.
+ * @returns {PlayerSnapshot} The validated seat.
+ */
+function parsePlayerSnapshot(value: unknown, index: number): PlayerSnapshot {
+	const field = `players[${index}]`;
+	if (typeof value !== 'object' || value === null) {
+		throw new Error(`Invalid snapshot: '${field}' must be an object.`);
+	}
+	const seat = value as Record<string, unknown>;
+	if (typeof seat.username !== 'string' || seat.username.trim().length === 0) {
+		throw new Error(`Invalid snapshot: '${field}.username' must be a non-empty string.`);
+	}
+	if (!isWholeAmount(seat.dannyBucks)) {
+		throw new Error(`Invalid snapshot: '${field}.dannyBucks' must be a non-negative whole number.`);
+	}
+	if (seat.currentBet !== null && !isWholeAmount(seat.currentBet)) {
+		throw new Error(`Invalid snapshot: '${field}.currentBet' must be null or a non-negative whole number.`);
+	}
+	const sideBet = seat.sideBet ?? null;
+	if (sideBet !== null && !isWholeAmount(sideBet)) {
+		throw new Error(`Invalid snapshot: '${field}.sideBet' must be null or a non-negative whole number.`);
+	}
+	if (typeof seat.hasSetHand !== 'boolean' || typeof seat.isReadyForNextRound !== 'boolean') {
+		throw new Error(`Invalid snapshot: '${field}' flags must be booleans.`);
+	}
+	return {
+		username: seat.username,
+		dannyBucks: seat.dannyBucks,
+		currentBet: seat.currentBet,
+		sideBet,
+		currentHand: parseCards(seat.currentHand, `${field}.currentHand`, true),
+		setHighHand: parseCards(seat.setHighHand, `${field}.setHighHand`, true),
+		setLowHand: parseCards(seat.setLowHand, `${field}.setLowHand`, true),
+		hasSetHand: seat.hasSetHand,
+		isReadyForNextRound: seat.isReadyForNextRound,
+	};
+}
+
+/**
+ * Validates untrusted data (e.g., an uploaded file) as a table snapshot.
+ * @param {unknown} data - The parsed JSON.
+ * @returns {TableSnapshot} The validated snapshot.
+ * @throws {Error} If the data is not a valid snapshot of a supported version.
+ */
+export function parseTableSnapshot(data: unknown): TableSnapshot {
+	if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+		throw new Error('Invalid snapshot: expected a JSON object.');
+	}
+	const raw = data as Record<string, unknown>;
+
+	if (raw.version !== TABLE_SNAPSHOT_VERSION) {
+		throw new Error(`Unsupported snapshot version '${raw.version}'. Expected version ${TABLE_SNAPSHOT_VERSION}.`);
+	}
+	if (typeof raw.tableId !== 'string' || raw.tableId.length === 0) {
+		throw new Error("Invalid snapshot: 'tableId' must be a non-empty string.");
+	}
+	if (typeof raw.gameState !== 'string' || !GAME_STATES.includes(raw.gameState)) {
+		throw new Error(`Invalid snapshot: unknown game state '${raw.gameState}'.`);
+	}
+	if (TRANSIENT_STATES.includes(raw.gameState)) {
+		throw new Error(`Invalid snapshot: a table cannot be restored in the middle of '${raw.gameState}'.`);
+	}
+	if (raw.hostUsername !== null && typeof raw.hostUsername !== 'string') {
+		throw new Error("Invalid snapshot: 'hostUsername' must be a string or null.");
+	}
+	if (!Array.isArray(raw.players)) {
+		throw new Error("Invalid snapshot: 'players' must be an array.");
+	}
+
+	const players = raw.players.map(parsePlayerSnapshot);
+	const usernames = new Set(players.map(p => p.username));
+	if (usernames.size !== players.length) {
+		throw new Error('Invalid snapshot: usernames must be unique.');
+	}
+
+	if (typeof raw.dealerHand !== 'object' || raw.dealerHand === null) {
+		throw new Error("Invalid snapshot: 'dealerHand' is malformed.");
+	}
+	const dealer = raw.dealerHand as Record<string, unknown>;
+	if (typeof dealer.isAceHighPaiGow !== 'boolean') {
+		throw new Error("Invalid snapshot: 'dealerHand' is malformed.");
+	}
+	const dealerHand: DealerHand = {
+		dealtCards: parseCards(dealer.dealtCards, 'dealerHand.dealtCards', true),
+		highHand: parseCards(dealer.highHand, 'dealerHand.highHand', true),
+		lowHand: parseCards(dealer.lowHand, 'dealerHand.lowHand', true),
+		isAceHighPaiGow: dealer.isAceHighPaiGow,
+	};
+	const deck = parseCards(raw.deck, 'deck', false) as Card[];
+
+	const bankerUsername = raw.bankerUsername ?? null;
+	const roundSeed = raw.roundSeed ?? null;
+	if (roundSeed !== null && (typeof roundSeed !== 'string' || roundSeed.length === 0)) {
+		throw new Error("Invalid snapshot: 'roundSeed' must be null or a non-empty string.");
+	}
+	if (bankerUsername !== null && (typeof bankerUsername !== 'string' || !usernames.has(bankerUsername))) {
+		throw new Error("Invalid snapshot: 'bankerUsername' must be null or the username of a seated player.");
+	}
+
+	// Every card in play must be unique: the deck plus every dealt 7-card hand
+	// (in a player-banked round the dealer hand is a copy of the banker's).
+	// A multi-deck shoe repeats ranks and suits, so its cards are told apart by id.
+	const cardsInPlay = [...deck, ...(bankerUsername === null ? dealerHand.dealtCards ?? [] : [])];
+	players.forEach(p => cardsInPlay.push(...(p.currentHand ?? [])));
+	const cardKeys = new Set(cardsInPlay.map(card => card.id ?? `${card.rank}-${card.suit}`));
+	if (cardKeys.size !== cardsInPlay.length) {
+		throw new Error('Invalid snapshot: the same card appears more than once.');
+	}
+
+	let gameSettings: GameSettings;
+	try {
+		gameSettings = parseGameSettings(raw.gameSettings);
+	} catch (settingsError) {
+		throw new Error(`Invalid snapshot: ${settingsError instanceof Error ? settingsError.message : String(settingsError)}`);
+	}
+
+	return {
+		version: TABLE_SNAPSHOT_VERSION,
+		tableId: raw.tableId,
+		savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+		hostUsername: raw.hostUsername,
+		gameState: raw.gameState,
+		gameSettings,
+		players,
+		deck,
+		dealerHand,
+		bankerUsername,
+		roundSeed,
+	};
+}
+
+/**
+ * Restores a saved seat onto a connected player.
+ * @param {Player} player - The player reclaiming the seat.
+ * @param {PlayerSnapshot} seat - The saved seat.
+ */
+export function applyPlayerSnapshot(player: Player, seat: PlayerSnapshot) {
+	player.dannyBucks = seat.dannyBucks;
+	player.currentBet = seat.currentBet;
+	player.sideBet = seat.sideBet;
+	player.currentHand = copyCards(seat.currentHand);
+	player.setHighHand = copyCards(seat.setHighHand);
+	player.setLowHand = copyCards(seat.setLowHand);
+	player.hasSetHand = seat.hasSetHand;
+	player.isReadyForNextRound = seat.isReadyForNextRound;
+}
+
+/**
+ * Rebuilds a table's state from a snapshot.
+ * Seated players whose username is in the snapshot get their seat back immediately;
+ * the remaining seats are reserved until a player with that username joins.
+ * @param {GameTable} gameTable - The table to restore into.
+ * @param {TableSnapshot} snapshot - A validated snapshot.
+ */
+export function applyTableSnapshot(gameTable: GameTable, snapshot: TableSnapshot) {
+	gameTable.gameSettings = { ...snapshot.gameSettings };
+	gameTable.gameState = snapshot.gameState;
+	gameTable.pausedState = null;
+	gameTable.deck.reset(snapshot.gameSettings);
+	gameTable.deck.setCards(snapshot.deck);
+	gameTable.dealerHand = {
+		dealtCards: copyCards(snapshot.dealerHand.dealtCards),
+		highHand: copyCards(snapshot.dealerHand.highHand),
+		lowHand: copyCards(snapshot.dealerHand.lowHand),
+		isAceHighPaiGow: snapshot.dealerHand.isAceHighPaiGow,
+	};
+	gameTable.bankerUsername = snapshot.bankerUsername;
+	gameTable.roundSeed = snapshot.roundSeed;
+	if (snapshot.gameState === 'Betting') {
+		// The server seed is never saved, so only a shoe this table is still dealing from keeps its commitment;
+		// anything else is reshuffled from a new one at the deal
+		const fairness = gameTable.fairness;
+		if (!fairness || snapshot.roundSeed !== combineRoundSeed(fairness.serverSeed, fairness.clientSeeds)) {
+			gameTable.fairness = null;
+			gameTable.prepareShoe();
+		}
+	}
+
+	gameTable.reservedSeats.clear();
+	snapshot.players.forEach(seat => gameTable.reservedSeats.set(seat.username, seat));
+	gameTable.reservedHostUsername = snapshot.hostUsername;
+
+	gameTable.players.forEach((player) => {
+		if (gameTable.claimReservedSeat(player)) return;
+		// Seated players the snapshot does not know about keep their balance but sit the round out
+		player.currentBet = null;
+		player.sideBet = null;
+		player.currentHand = null;
+		player.setHighHand = null;
+		player.setLowHand = null;
+		player.hasSetHand = false;
+		player.isReadyForNextRound = false;
+	});
+}
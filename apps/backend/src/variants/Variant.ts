@@ -0,0 +1,74 @@
+import type { GameSettings } from '../models/GameSettings';
+import type { HandEvaluation } from '../utils/handEvaluator';
+
+/**
+ * Side bets a variant can offer.
+ */
+export type SideBetType = 'Fortune';
+
+/**
+ * Who takes a hand that ties the dealer exactly (a "copy").
+ * 'Dealer' is the casino rule; 'Push' makes the tied hand count for neither side.
+ */
+export type CopyRule = 'Dealer' | 'Push';
+
+/**
+ * Main bet outcome of a player's round against the dealer.
+ */
+export type RoundOutcome = 'Win' | 'Loss' | 'Push';
+
+/**
+ * What a winning bet pays.
+ */
+export interface WinPayout {
+	winnings: number; // Net DannyBucks won, after commission
+	commission: number; // DannyBucks kept by the house, 0 if none
+}
+
+/**
+ * The rules of one Pai Gow variant. Every table plays by the variant named in its settings.
+ */
+export interface Variant {
+	id: string; // Value of GameSettings.variant
+	label: string; // Name shown to players
+	hidesDealerHand: boolean; // Deal the dealer's cards face down until the showdown
+	dealerPushLabel: string | null; // Name of the dealer hand that pushes every bet, null if none does
+	copyRule: CopyRule;
+	allowedSideBets: readonly SideBetType[];
+	/**
+	 * Decides whether the dealer's set hand pushes every bet at the table.
+	 * @param {HandEvaluation} dealerHigh - The dealer's evaluated 5-card hand.
+	 * @param {HandEvaluation} dealerLow - The dealer's evaluated 2-card hand.
+	 * @returns {boolean} True if the round is a push for everyone.
+	 */
+	isDealerPush(dealerHigh: HandEvaluation, dealerLow: HandEvaluation): boolean;
+	/**
+	 * Works out what a winning main bet pays.
+	 * @param {number} betAmount - The winning bet.
+	 * @param {GameSettings} settings - The table settings (e.g., the commission rate).
+	 * @returns {WinPayout} The net winnings and any commission.
+	 */
+	settleWin(betAmount: number, settings: GameSettings): WinPayout;
+}
+
+/**
+ * Combines the high and low hand comparisons into the main bet outcome.
+ * The player must win both hands to win and loses when the dealer wins both; anything else pushes.
+ * Copies go to the dealer or count for neither side, depending on the copy rule.
+ * @param {number} highComparison - Player vs dealer 5-card hand: 1 player higher, -1 dealer higher, 0 copy.
+ * @param {number} lowComparison - Player vs dealer 2-card hand, same scale.
+ * @param {CopyRule} copyRule - Who takes a copied hand.
+ * @returns {RoundOutcome} The outcome of the main bet.
+ */
+export function determineOutcome(highComparison: number, lowComparison: number, copyRule: CopyRule): RoundOutcome {
+	const score = (comparison: number): number => {
+		if (comparison !== 0) return Math.sign(comparison);
+		return copyRule === 'Dealer' ? -1 : 0;
+	};
+	const high = score(highComparison);
+	const low = score(lowComparison);
+
+	if (high >= 0 && low >= 0 && high + low > 0) return 'Win';
+	if (high <= 0 && low <= 0 && high + low < 0) return 'Loss';
+	return 'Push';
+}
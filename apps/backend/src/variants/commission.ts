@@ -0,0 +1,20 @@
+import { calculateCommission } from '../utils/betting';
+import type { Variant } from './Variant';
+
+/**
+ * Classic commission Pai Gow: the dealer's hand stays face down until the showdown,
+ * every dealer hand is played out and the house takes its commission from winning bets.
+ */
+export const commissionVariant: Variant = {
+	id: 'Classic',
+	label: 'Classic (Commission)',
+	hidesDealerHand: true,
+	dealerPushLabel: null,
+	copyRule: 'Dealer',
+	allowedSideBets: ['Fortune'],
+	isDealerPush: () => false,
+	settleWin: (betAmount, settings) => {
+		const commission = calculateCommission(betAmount, settings.commissionPercent);
+		return { winnings: betAmount - commission, commission };
+	},
+};
@@ -0,0 +1,17 @@
+import { HAND_RANK } from '../utils/handEvaluator';
+import type { Variant } from './Variant';
+
+/**
+ * Commission-Free Pai Gow: played like Classic with the dealer face down, but winning bets pay even money.
+ * The house keeps its edge by pushing every bet when the dealer's best hand is Queen-high Pai Gow.
+ */
+export const commissionFreeVariant: Variant = {
+	id: 'CommissionFree',
+	label: 'Commission-Free',
+	hidesDealerHand: true,
+	dealerPushLabel: 'Queen-High Pai Gow',
+	copyRule: 'Dealer',
+	allowedSideBets: ['Fortune'],
+	isDealerPush: (dealerHigh) => dealerHigh.rank === HAND_RANK.HIGH_CARD && dealerHigh.values[0] === 12,
+	settleWin: (betAmount) => ({ winnings: betAmount, commission: 0 }),
+};
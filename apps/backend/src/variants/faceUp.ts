@@ -0,0 +1,16 @@
+import type { Variant } from './Variant';
+
+/**
+ * Face-Up Pai Gow: the dealer's cards are dealt face up, no commission is charged,
+ * and a dealer Ace-High Pai Gow pushes every bet.
+ */
+export const faceUpVariant: Variant = {
+	id: 'FaceUp',
+	label: 'Face-Up Pai Gow',
+	hidesDealerHand: false,
+	dealerPushLabel: 'Ace-High Pai Gow',
+	copyRule: 'Dealer',
+	allowedSideBets: ['Fortune'],
+	isDealerPush: (dealerHigh) => dealerHigh.isAceHighPaiGow ?? false,
+	settleWin: (betAmount) => ({ winnings: betAmount, commission: 0 }),
+};
@@ -0,0 +1,33 @@
+import { commissionVariant } from './commission';
+import { commissionFreeVariant } from './commissionFree';
+import { faceUpVariant } from './faceUp';
+import type { Variant } from './Variant';
+
+/**
+ * Every variant a table can be created with, keyed by id. Register house variants here.
+ */
+const VARIANTS = new Map<string, Variant>(
+	[faceUpVariant, commissionVariant, commissionFreeVariant].map((variant) => [variant.id, variant])
+);
+
+/**
+ * Lists the ids of all registered variants.
+ * @returns {string[]} The ids accepted in GameSettings.variant.
+ */
+export function getVariantIds(): string[] {
+	return [...VARIANTS.keys()];
+}
+
+/**
+ * Looks up a variant by id.
+ * @param {string} id - The variant id from the table settings.
+ * @returns {Variant} The variant's rules.
+ * @throws {Error} If no variant is registered under the id.
+ */
+export function getVariant(id: string): Variant {
+	const variant = VARIANTS.get(id);
+	if (!variant) {
+		throw new Error(`Unknown variant '${id}'.`);
+	}
+	return variant;
+}
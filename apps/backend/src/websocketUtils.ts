@@ -2,6 +2,8 @@ import { WebSocket } from 'ws';
 import type { PlayerWebSocket } from './types/websocket';
 import type { WebSocketMessage } from './types/messages';
 import type { GameTable } from './models/GameTable'; // Import GameTable type
+import type { TableManager } from './TableManager';
+import { getHouseWayOptions } from './houseWays/registry';
 
 /**
  * Broadcasts a message to all connected clients in the game table, optionally excluding one.
@@ -38,17 +40,37 @@ export function broadcast(gameTable: GameTable, message: WebSocketMessage, exclu
  * @param {string} [messageText] - An optional text message to include in the payload.
  */
 export function sendFullGameState(gameTable: GameTable, targetWs?: PlayerWebSocket, messageText?: string) {
+	const variant = gameTable.getVariantRules();
 	const payload = {
 		gameState: gameTable.gameState,
+		pausedState: gameTable.pausedState, // Phase to resume when the game is paused, null otherwise
+		phaseDeadline: gameTable.phaseDeadline, // Epoch ms when the current phase ends on its own, null if it has no timer
+		betLimits: {
+			minBet: gameTable.gameSettings.minBet,
+			maxBet: gameTable.gameSettings.maxBet,
+			betIncrement: gameTable.gameSettings.betIncrement,
+		},
+		variantRules: { // What the table's variant means for the players
+			id: variant.id,
+			label: variant.label,
+			allowedSideBets: variant.allowedSideBets,
+			dealerPushLabel: variant.dealerPushLabel,
+		},
 		players: Array.from(gameTable.players.values())
 			.filter(p => p.username) // Only include players with usernames
 			.map(p => ({
 				id: p.id,
 				username: p.username,
 				isHost: p.isHost,
-				dannyBucks: p.dannyBucks // Include current balance
+				dannyBucks: p.dannyBucks, // Include current balance
+				currentBet: p.currentBet, // Bet placed this round, null if none
+				sideBet: p.sideBet, // Fortune bonus side bet, null if none
 			})),
-		dealerHand: gameTable.dealerHand.dealtCards ? { // Only send dealer hand if it exists
+		bankerUsername: gameTable.bankerUsername, // Player banking the round, null when the dealer banks
+		seedCommitment: gameTable.fairness?.seedCommitment ?? null, // Hash of the server seed of the coming shuffle or the shoe in play
+		newShoe: gameTable.roundSeed === null, // The coming deal shuffles a new shoe, so client seeds are taken
+		dealerHandHidden: gameTable.isDealerHandHidden() && gameTable.dealerHand.dealtCards !== null, // Dealt face down (e.g., Classic, or a player-banked round)
+		dealerHand: gameTable.dealerHand.dealtCards && !gameTable.isDealerHandHidden() ? { // Only send dealer hand if it exists and is face up
 			revealed: gameTable.dealerHand.dealtCards,
 			highHand: gameTable.dealerHand.highHand,
 			lowHand: gameTable.dealerHand.lowHand,
@@ -68,4 +90,50 @@ export function sendFullGameState(gameTable: GameTable, targetWs?: PlayerWebSock
 		console.log('Broadcasting full game state update.');
 		broadcast(gameTable, message); // Pass gameTable to broadcast
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Broadcasts the list of named players at a table to everyone seated there.
+ * @param {GameTable} gameTable - The table whose player list changed.
+ */
+export function broadcastPlayerList(gameTable: GameTable) {
+	broadcast(gameTable, {
+		type: 'playerListUpdate',
+		payload: {
+			players: Array.from(gameTable.players.values())
+				.filter(p => p.username) // Only send players with usernames
+				.map(p => ({
+					id: p.id,
+					username: p.username,
+					isHost: p.isHost // Include host status
+				}))
+		}
+	});
+}
+
+/**
+ * Sends the list of active tables, with the house ways a new table can use, to a single client,
+ * or pushes it to every named player in the lobby.
+ * @param {TableManager} tableManager - The manager holding every table and connected player.
+ * @param {PlayerWebSocket} [targetWs] - The specific client to send to. If undefined, pushes to the lobby.
+ */
+export function sendTableList(tableManager: TableManager, targetWs?: PlayerWebSocket) {
+	const messageString = JSON.stringify({
+		type: 'tableListUpdate',
+		payload: { tables: tableManager.getTableSummaries(), houseWays: getHouseWayOptions() },
+	});
+
+	if (targetWs) {
+		if (targetWs.readyState === WebSocket.OPEN) {
+			targetWs.send(messageString);
+		}
+		return;
+	}
+
+	tableManager.players.forEach((player) => {
+		// Only players who picked a name and are not seated are looking at the lobby
+		if (player.username && !player.tableId && player.ws.readyState === WebSocket.OPEN) {
+			player.ws.send(messageString);
+		}
+	});
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TableManager } from '../src/TableManager';
+import { Player } from '../src/models/Player';
+import { createMockWebSocket } from './helpers/mockWebSocket';
+import { applyTableSnapshot, createTableSnapshot } from '../src/utils/tableSnapshot';
+
+describe('TableManager', () => {
+	let tableManager: TableManager;
+	let alice: Player;
+	let bob: Player;
+
+	beforeEach(() => {
+		tableManager = new TableManager();
+		alice = new Player('p1', createMockWebSocket());
+		alice.username = 'Alice';
+		bob = new Player('p2', createMockWebSocket());
+		bob.username = 'Bob';
+		tableManager.registerPlayer(alice);
+		tableManager.registerPlayer(bob);
+	});
+
+	it('should create and look up several tables by id', () => {
+		const tableA = tableManager.createTable('table-a');
+		const tableB = tableManager.createTable();
+
+		expect(tableManager.getTable('table-a')).toBe(tableA);
+		expect(tableManager.getTable(tableB.id)).toBe(tableB);
+		expect(tableManager.getTables()).toHaveLength(2);
+	});
+
+	it('should reject creating a table with a duplicate id', () => {
+		tableManager.createTable('table-a');
+		expect(() => tableManager.createTable('table-a')).toThrow('already exists');
+	});
+
+	it('should seat players at separate tables and resolve their table', () => {
+		const tableA = tableManager.createTable('table-a');
+		const tableB = tableManager.createTable('table-b');
+
+		tableManager.joinTable('p1', 'table-a');
+		tableManager.joinTable('p2', 'table-b');
+
+		expect(tableManager.getTableForPlayer('p1')).toBe(tableA);
+		expect(tableManager.getTableForPlayer('p2')).toBe(tableB);
+		expect(tableA.players.has('p2')).toBe(false);
+		expect(alice.isHost).toBe(true);
+		expect(bob.isHost).toBe(true); // Each table has its own host
+	});
+
+	it('should not allow a player to be seated at two tables', () => {
+		tableManager.createTable('table-a');
+		tableManager.createTable('table-b');
+		tableManager.joinTable('p1', 'table-a');
+
+		expect(() => tableManager.joinTable('p1', 'table-b')).toThrow('already seated');
+		expect(tableManager.getTable('table-b')?.players.size).toBe(0);
+	});
+
+	it('should throw when joining an unknown table', () => {
+		expect(() => tableManager.joinTable('p1', 'missing')).toThrow('does not exist');
+	});
+
+	it('should dispose a table once its last player leaves', () => {
+		tableManager.createTable('table-a');
+		tableManager.joinTable('p1', 'table-a');
+		tableManager.joinTable('p2', 'table-a');
+
+		tableManager.leaveTable('p1');
+		expect(tableManager.getTable('table-a')).toBeDefined();
+		expect(alice.tableId).toBeNull();
+
+		tableManager.unregisterPlayer('p2');
+		expect(tableManager.getTable('table-a')).toBeUndefined();
+		expect(tableManager.getPlayer('p2')).toBeUndefined();
+	});
+
+	it('should keep a table loaded from a snapshot while seats are still reserved', () => {
+		const saved = tableManager.createTable('table-a');
+		tableManager.joinTable('p1', 'table-a');
+		tableManager.joinTable('p2', 'table-a');
+		bob.dannyBucks = 777;
+		const snapshot = createTableSnapshot(saved);
+		tableManager.removeTable('table-a');
+		bob.dannyBucks = 0;
+
+		// Alice loads the table and leaves before Bob reclaims his seat
+		const loaded = tableManager.createTable('table-b', snapshot.gameSettings);
+		applyTableSnapshot(loaded, snapshot);
+		tableManager.joinTable('p1', 'table-b');
+		loaded.claimReservedSeat(alice);
+		tableManager.leaveTable('p1');
+		expect(tableManager.getTable('table-b')).toBe(loaded);
+
+		tableManager.joinTable('p2', 'table-b');
+		expect(loaded.claimReservedSeat(bob)).toBe(true);
+		expect(bob.dannyBucks).toBe(777);
+
+		// With every seat reclaimed, the last player out disposes the table again
+		tableManager.leaveTable('p2');
+		expect(tableManager.getTable('table-b')).toBeUndefined();
+	});
+
+	it('should check username uniqueness across all tables', () => {
+		tableManager.createTable('table-a');
+		tableManager.joinTable('p1', 'table-a');
+
+		expect(tableManager.isUsernameTaken('Alice')).toBe(true);
+		expect(tableManager.isUsernameTaken('Alice', 'p1')).toBe(false);
+		expect(tableManager.isUsernameTaken('Carol')).toBe(false);
+	});
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { runCardsCli } from '../../src/cli/cards';
+
+describe('cards CLI', () => {
+	it('should describe seven cards: the best five and the house way split', () => {
+		expect(runCardsCli(['Kh Qh Jk 6h 2h', '9s', '8c'])).toEqual([
+			'Cards: K♥ Q♥ 🃏 6♥ 2♥ 9♠ 8♣',
+			'Best five: K♥ Q♥ 🃏 (as A♥) 6♥ 2♥, Flush, Ace high',
+			'House way (MaximizeLow):',
+			'  High: 🃏 (as A) 6♥ 2♥ 9♠ 8♣, Ace high', // Maximize-low gives up the flush for the strongest low hand
+			'  Low:  K♥ Q♥, King-Queen high (low hand)',
+		]);
+	});
+
+	it('should evaluate a 2-card or 5-card hand as it stands', () => {
+		expect(runCardsCli(['As', 'Jk'])).toEqual(['Cards: A♠ 🃏', 'Low hand: Pair of Aces (low hand)']);
+		expect(runCardsCli(['Ks Kh 7d 7c As'])[1]).toBe('High hand: Two Pair, Kings and Sevens, Ace kicker');
+	});
+
+	it('should reject bad cards, counts and house ways', () => {
+		expect(() => runCardsCli(['As Kh Xd'])).toThrow('Card 3: Invalid card "Xd"');
+		expect(() => runCardsCli(['As Kh Qd'])).toThrow('Expected 2, 5 or 7 cards, got 3.');
+		expect(() => runCardsCli(['As Kh', '--house-way', 'Nope'])).toThrow("Unknown house way 'Nope'.");
+	});
+});
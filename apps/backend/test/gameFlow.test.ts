@@ -0,0 +1,432 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { GameTable } from '../src/models/GameTable';
+import { Player } from '../src/models/Player';
+import { DEFAULT_GAME_SETTINGS } from '../src/models/GameSettings';
+import { createMockWebSocket, sentMessages } from './helpers/mockWebSocket';
+import type { Card } from '../src/models/Card';
+import { autoSetRemainingHands, dealRound, getPhaseDurationMs, handleShowdown, schedulePhaseTimer, startBettingPhase, startNextRound } from '../src/gameFlow';
+import { addClientSeed, verifyRound } from '../src/utils/provablyFair';
+import { autosaveTable } from '../src/utils/autosave';
+
+// Keep the tests from writing autosaves to disk
+vi.mock('../src/utils/autosave');
+// websocketUtils only needs the OPEN constant from ws
+vi.mock('ws', () => ({ WebSocket: { OPEN: 1 } }));
+
+describe('gameFlow phase timers', () => {
+	let gameTable: GameTable;
+	let player: Player;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		gameTable = new GameTable('timer-table', {
+			...DEFAULT_GAME_SETTINGS,
+			bettingSeconds: 30,
+			handSettingSeconds: 60,
+			resultDisplaySeconds: 10,
+		});
+		player = new Player('p1', createMockWebSocket('p1'));
+		player.username = 'Alice';
+		player.dannyBucks = 1000;
+		gameTable.addPlayer(player);
+	});
+
+	afterEach(() => {
+		gameTable.clearPhaseTimer();
+		vi.useRealTimers();
+	});
+
+	it('should map each phase to its configured duration', () => {
+		gameTable.gameState = 'Betting';
+		expect(getPhaseDurationMs(gameTable)).toBe(30_000);
+		gameTable.gameState = 'PlayerAction';
+		expect(getPhaseDurationMs(gameTable)).toBe(60_000);
+		gameTable.gameState = 'RoundOver';
+		expect(getPhaseDurationMs(gameTable)).toBe(10_000);
+		gameTable.gameState = 'WaitingForPlayers';
+		expect(getPhaseDurationMs(gameTable)).toBe(0);
+	});
+
+	it('should publish a phase deadline when betting opens', () => {
+		startBettingPhase(gameTable);
+		expect(gameTable.phaseDeadline).toBe(Date.now() + 30_000);
+
+		const update = sentMessages(player).find((message) => message.type === 'gameStateUpdate');
+		expect(update.payload.phaseDeadline).toBe(gameTable.phaseDeadline);
+	});
+
+	it('should autosave the table when betting opens', () => {
+		vi.mocked(autosaveTable).mockClear();
+		startBettingPhase(gameTable);
+		expect(autosaveTable).toHaveBeenCalledWith(gameTable);
+		expect(autosaveTable).toHaveBeenCalledTimes(1);
+	});
+
+	it('should not run a timer when the phase duration is 0', () => {
+		gameTable.gameSettings.bettingSeconds = 0;
+		startBettingPhase(gameTable);
+		expect(gameTable.phaseTimer).toBeNull();
+		expect(gameTable.phaseDeadline).toBeNull();
+	});
+
+	it('should deal when the betting window closes with bets placed', () => {
+		startBettingPhase(gameTable);
+		player.currentBet = 10;
+		player.dannyBucks = 990;
+
+		vi.advanceTimersByTime(30_000);
+		expect(['PlayerAction', 'AceHighPush']).toContain(gameTable.gameState);
+		expect(player.currentHand).toHaveLength(7);
+		expect(gameTable.phaseDeadline).not.toBeNull();
+	});
+
+	it('should go back to waiting when the betting window closes without bets', () => {
+		startBettingPhase(gameTable);
+		vi.advanceTimersByTime(30_000);
+		expect(gameTable.gameState).toBe('WaitingForPlayers');
+		expect(gameTable.phaseTimer).toBeNull();
+	});
+
+	it('should set unset hands using the House Way and settle the round when time runs out', () => {
+		gameTable.gameSettings.resultDisplaySeconds = 60; // An Ace-High push waits as long as hand setting would
+		startBettingPhase(gameTable);
+		player.currentBet = 10;
+		player.dannyBucks = 990;
+		vi.advanceTimersByTime(30_000); // Deal
+
+		vi.advanceTimersByTime(60_000); // Hand-setting (or Ace-High push display) window
+		expect(player.hasSetHand).toBe(true);
+		expect(player.setHighHand).toHaveLength(5);
+		expect(player.setLowHand).toHaveLength(2);
+		expect(gameTable.gameState).toBe('RoundOver');
+	});
+
+	it('should open the next round once results have been displayed', () => {
+		gameTable.gameState = 'RoundOver';
+		player.currentBet = 10;
+		schedulePhaseTimer(gameTable);
+
+		vi.advanceTimersByTime(10_000);
+		expect(gameTable.gameState).toBe('Betting');
+		expect(player.currentBet).toBeNull();
+		expect(gameTable.phaseDeadline).toBe(Date.now() + 30_000);
+	});
+
+	it('should ignore a timer whose phase already ended', () => {
+		startBettingPhase(gameTable);
+		gameTable.gameState = 'RoundOver'; // Moved on without rescheduling
+		vi.advanceTimersByTime(30_000);
+		expect(gameTable.gameState).toBe('RoundOver');
+	});
+
+	it('should freeze the time left while paused', () => {
+		startBettingPhase(gameTable);
+		vi.advanceTimersByTime(10_000);
+		gameTable.pause();
+		expect(gameTable.phaseTimer).toBeNull();
+		expect(gameTable.pausedTimeLeftMs).toBe(20_000);
+
+		vi.advanceTimersByTime(60_000);
+		expect(gameTable.gameState).toBe('Paused');
+		gameTable.resume();
+		schedulePhaseTimer(gameTable, gameTable.pausedTimeLeftMs ?? 0);
+		expect(gameTable.phaseDeadline).toBe(Date.now() + 20_000);
+	});
+
+	it('should not start a timer at a table nobody is seated at', () => {
+		startNextRound(new GameTable('empty-table', { ...DEFAULT_GAME_SETTINGS, bettingSeconds: 30 }));
+		const emptyTable = new GameTable('empty-table-2', { ...DEFAULT_GAME_SETTINGS, bettingSeconds: 30 });
+		emptyTable.gameState = 'Betting';
+		schedulePhaseTimer(emptyTable);
+		expect(emptyTable.phaseTimer).toBeNull();
+	});
+});
+
+describe('gameFlow showdown', () => {
+	const card = (rank: string, suit: string): Card => ({ rank, suit });
+
+	it('should settle the Fortune side bet even when the main bet pushes on Ace-High', () => {
+		const gameTable = new GameTable('fortune-table');
+		const player = new Player('p1', createMockWebSocket('p1'));
+		player.username = 'Alice';
+		gameTable.addPlayer(player);
+
+		const trips = [card('7', 'Spades'), card('7', 'Hearts'), card('7', 'Diamonds'), card('2', 'Clubs'), card('10', 'Spades'), card('J', 'Hearts'), card('K', 'Diamonds')];
+		player.currentHand = trips;
+		player.setHighHand = trips.slice(0, 5);
+		player.setLowHand = trips.slice(5);
+		player.hasSetHand = true;
+		player.currentBet = 10;
+		player.sideBet = 5;
+		player.dannyBucks = 985;
+
+		const dealerCards = [card('A', 'Clubs'), card('Q', 'Hearts'), card('9', 'Clubs'), card('6', 'Hearts'), card('4', 'Spades'), card('3', 'Clubs'), card('8', 'Diamonds')];
+		gameTable.dealerHand = { dealtCards: dealerCards, highHand: dealerCards.slice(0, 5), lowHand: dealerCards.slice(5), isAceHighPaiGow: true };
+		gameTable.gameState = 'AceHighPush';
+
+		handleShowdown(gameTable);
+
+		const roundResult = sentMessages(player).find((message) => message.type === 'roundResult');
+		const result = roundResult.payload.results[0];
+		expect(result.outcome).toBe('Push');
+		expect(result.sideBet).toMatchObject({ betAmount: 5, hand: 'ThreeOfAKind', payout: 15 });
+		expect(player.dannyBucks).toBe(985 + 10 + 20); // Main bet back, side bet back plus 3 to 1
+		expect(result.newBalance).toBe(player.dannyBucks);
+	});
+
+	it('should take the Classic commission from a win and report it separately', () => {
+		const gameTable = new GameTable('classic-table', { ...DEFAULT_GAME_SETTINGS, variant: 'Classic', commissionPercent: 5 });
+		const player = new Player('p1', createMockWebSocket('p1'));
+		player.username = 'Alice';
+		gameTable.addPlayer(player);
+
+		const playerCards = [card('K', 'Spades'), card('K', 'Hearts'), card('9', 'Diamonds'), card('9', 'Clubs'), card('2', 'Spades'), card('A', 'Hearts'), card('A', 'Diamonds')];
+		player.currentHand = playerCards;
+		player.setHighHand = playerCards.slice(0, 5);
+		player.setLowHand = playerCards.slice(5);
+		player.hasSetHand = true;
+		player.currentBet = 100;
+		player.dannyBucks = 900;
+
+		const dealerCards = [card('Q', 'Clubs'), card('Q', 'Diamonds'), card('8', 'Clubs'), card('6', 'Hearts'), card('4', 'Spades'), card('J', 'Clubs'), card('3', 'Diamonds')];
+		gameTable.dealerHand = { dealtCards: dealerCards, highHand: dealerCards.slice(0, 5), lowHand: dealerCards.slice(5), isAceHighPaiGow: false };
+		gameTable.gameState = 'PlayerAction';
+
+		handleShowdown(gameTable);
+
+		const roundResult = sentMessages(player).find((message) => message.type === 'roundResult');
+		expect(roundResult.payload.results[0]).toMatchObject({ outcome: 'Win', winnings: 95, commission: 5 });
+		expect(roundResult.payload.dealerHighHand).toHaveLength(5); // Revealed at showdown
+		expect(roundResult.payload.dealerHandDescriptions).toEqual({ high: 'Pair of Queens, Eight kicker', low: 'Jack-Three high (low hand)' });
+		expect(roundResult.payload.results[0].handReports.high).toEqual({
+			description: 'Two Pair, Kings and Nines, Two kicker',
+			versus: 'Pair of Queens, Eight kicker',
+			outcome: 'Win',
+			reason: 'Two Pair beats One Pair',
+		});
+		expect(player.dannyBucks).toBe(900 + 100 + 95);
+	});
+
+	it('should report what each Joker played as in the set hands', () => {
+		const gameTable = new GameTable('joker-table', { ...DEFAULT_GAME_SETTINGS });
+		const player = new Player('p1', createMockWebSocket('p1'));
+		player.username = 'Alice';
+		gameTable.addPlayer(player);
+
+		const joker: Card = { rank: 'Joker', suit: 'Joker' };
+		const playerCards = [card('K', 'Hearts'), card('Q', 'Hearts'), joker, card('6', 'Hearts'), card('2', 'Hearts'), card('9', 'Spades'), card('8', 'Clubs')];
+		player.currentHand = playerCards;
+		player.setHighHand = playerCards.slice(0, 5);
+		player.setLowHand = playerCards.slice(5);
+		player.hasSetHand = true;
+		player.currentBet = 10;
+		player.dannyBucks = 990;
+
+		const dealerCards = [card('Q', 'Clubs'), card('Q', 'Diamonds'), card('8', 'Spades'), card('6', 'Spades'), card('4', 'Spades'), card('J', 'Clubs'), card('3', 'Diamonds')];
+		gameTable.dealerHand = { dealtCards: dealerCards, highHand: dealerCards.slice(0, 5), lowHand: dealerCards.slice(5), isAceHighPaiGow: false };
+		gameTable.gameState = 'PlayerAction';
+
+		handleShowdown(gameTable);
+
+		const roundResult = sentMessages(player).find((message) => message.type === 'roundResult');
+		const result = roundResult.payload.results[0];
+		expect(result.playerHighHand[2]).toEqual({ ...joker, playsAs: { rank: 'A', suit: 'Hearts' } }); // Completes the flush
+		expect(result.playerHighHand[0].playsAs).toBeUndefined();
+		expect(player.setHighHand?.[2]).toEqual(joker); // Only the report is marked
+	});
+
+	it('should settle bets against the banker\'s balance and report the bank result', () => {
+		const gameTable = new GameTable('banked-table', { ...DEFAULT_GAME_SETTINGS, playerBanking: true });
+		const banker = new Player('p1', createMockWebSocket('p1'));
+		banker.username = 'Alice';
+		const winner = new Player('p2', createMockWebSocket('p2'));
+		winner.username = 'Bob';
+		const loser = new Player('p3', createMockWebSocket('p3'));
+		loser.username = 'Carol';
+		[banker, winner, loser].forEach(p => gameTable.addPlayer(p));
+		gameTable.bankerUsername = 'Alice';
+		banker.dannyBucks = 500;
+
+		// Banker: Queens over 8-6 high / Jack-3 low
+		const bankerCards = [card('Q', 'Clubs'), card('Q', 'Diamonds'), card('8', 'Clubs'), card('6', 'Hearts'), card('4', 'Spades'), card('J', 'Clubs'), card('3', 'Diamonds')];
+		banker.currentHand = bankerCards;
+		banker.setHighHand = bankerCards.slice(0, 5);
+		banker.setLowHand = bankerCards.slice(5);
+		banker.hasSetHand = true;
+		gameTable.dealerHand = { dealtCards: bankerCards, highHand: null, lowHand: null, isAceHighPaiGow: false };
+
+		const winnerCards = [card('K', 'Spades'), card('K', 'Hearts'), card('9', 'Diamonds'), card('9', 'Clubs'), card('2', 'Spades'), card('A', 'Hearts'), card('A', 'Diamonds')];
+		winner.currentHand = winnerCards;
+		winner.setHighHand = winnerCards.slice(0, 5);
+		winner.setLowHand = winnerCards.slice(5);
+		winner.hasSetHand = true;
+		winner.currentBet = 100;
+		winner.dannyBucks = 900;
+
+		const loserCards = [card('7', 'Spades'), card('5', 'Hearts'), card('9', 'Hearts'), card('10', 'Clubs'), card('2', 'Hearts'), card('6', 'Clubs'), card('3', 'Hearts')];
+		loser.currentHand = loserCards;
+		loser.setHighHand = loserCards.slice(0, 5);
+		loser.setLowHand = loserCards.slice(5);
+		loser.hasSetHand = true;
+		loser.currentBet = 40;
+		loser.dannyBucks = 960;
+		gameTable.gameState = 'PlayerAction';
+
+		handleShowdown(gameTable);
+
+		const roundResult = sentMessages(banker).find((message) => message.type === 'roundResult');
+		const resultFor = (username: string) => roundResult.payload.results.find((r) => r.username === username);
+		expect(resultFor('Bob')).toMatchObject({ outcome: 'Win', winnings: 100 });
+		expect(resultFor('Carol')).toMatchObject({ outcome: 'Loss', winnings: -40 });
+		expect(resultFor('Alice')).toMatchObject({ outcome: 'Bank', winnings: -60, newBalance: 440 });
+		expect(roundResult.payload.bankerUsername).toBe('Alice');
+		expect(roundResult.payload.dealerHighHand).toEqual(banker.setHighHand);
+		expect(winner.dannyBucks).toBe(900 + 200);
+		expect(banker.dannyBucks).toBe(500 - 100 + 40);
+	});
+
+	it('should push every bet when the banker left after the deal', () => {
+		const gameTable = new GameTable('banked-table');
+		const player = new Player('p2', createMockWebSocket('p2'));
+		player.username = 'Bob';
+		gameTable.addPlayer(player);
+		gameTable.bankerUsername = 'Alice'; // No longer seated
+
+		const playerCards = [card('K', 'Spades'), card('K', 'Hearts'), card('9', 'Diamonds'), card('9', 'Clubs'), card('2', 'Spades'), card('A', 'Hearts'), card('A', 'Diamonds')];
+		player.currentHand = playerCards;
+		player.setHighHand = playerCards.slice(0, 5);
+		player.setLowHand = playerCards.slice(5);
+		player.hasSetHand = true;
+		player.currentBet = 50;
+		player.dannyBucks = 950;
+		gameTable.dealerHand = { dealtCards: playerCards, highHand: null, lowHand: null, isAceHighPaiGow: false };
+		gameTable.gameState = 'PlayerAction';
+
+		handleShowdown(gameTable);
+
+		expect(player.dannyBucks).toBe(1000);
+		expect(gameTable.gameState).toBe('RoundOver');
+	});
+});
+
+describe('gameFlow provably fair shuffle', () => {
+	it('should commit when betting opens and reveal a seed that rebuilds the deal', () => {
+		const gameTable = new GameTable('fair-table');
+		const player = new Player('p1', createMockWebSocket('p1'));
+		player.username = 'Alice';
+		player.dannyBucks = 1000;
+		gameTable.addPlayer(player);
+		const messages = () => sentMessages(player);
+
+		startBettingPhase(gameTable);
+		const { seedCommitment } = messages().find((message) => message.type === 'gameStateUpdate').payload;
+		const committed = gameTable.prepareShoe(); // The seed betting opened with
+		expect(seedCommitment).toBe(committed.seedCommitment);
+		expect(JSON.stringify(messages())).not.toContain(committed.serverSeed); // Kept secret until the result
+
+		addClientSeed(committed, 'Alice', 'lucky');
+		player.currentBet = 10;
+		dealRound(gameTable);
+		gameTable.clearPhaseTimer();
+		const dealtHand = player.currentHand;
+		autoSetRemainingHands(gameTable);
+		handleShowdown(gameTable);
+		gameTable.clearPhaseTimer();
+
+		const { fairness, roundSeed } = messages().find((message) => message.type === 'roundResult').payload;
+		expect(fairness.seedCommitment).toBe(seedCommitment);
+		expect(fairness.clientSeeds).toEqual([{ username: 'Alice', clientSeed: 'lucky' }]);
+		const verification = verifyRound(fairness);
+		expect(verification.commitmentMatches).toBe(true);
+		expect(verification.roundSeed).toBe(roundSeed);
+		expect(verification.deck.slice(-7)).toEqual(dealtHand); // Alice was dealt the first 7 cards
+	});
+
+	it('should deal on from a shoe and reveal its seed only once the cut card comes out', () => {
+		const gameTable = new GameTable('shoe-table', { ...DEFAULT_GAME_SETTINGS, deckCount: 2, penetrationPercent: 75 });
+		const player = new Player('p1', createMockWebSocket('p1'));
+		player.username = 'Alice';
+		player.dannyBucks = 1000;
+		gameTable.addPlayer(player);
+		const results = () => sentMessages(player).filter((message) => message.type === 'roundResult');
+
+		startBettingPhase(gameTable);
+		const seedCommitment = gameTable.fairness?.seedCommitment;
+		const dealtHands: (Card[] | null)[] = [];
+		do {
+			player.currentBet = 10;
+			dealRound(gameTable);
+			dealtHands.push(player.currentHand);
+			autoSetRemainingHands(gameTable);
+			handleShowdown(gameTable);
+			startNextRound(gameTable);
+			gameTable.clearPhaseTimer();
+		} while (!results().at(-1).payload.shoeFinished);
+
+		// 106 cards with the cut card at 27 left: six rounds of 14 cards are dealt from the one shuffle
+		expect(dealtHands).toHaveLength(6);
+		results().slice(0, -1).forEach((result) => {
+			expect(result.payload.roundSeed).toBeNull();
+			expect(result.payload.fairness).toBeNull();
+		});
+		const { fairness, roundSeed } = results().at(-1).payload;
+		expect(fairness.seedCommitment).toBe(seedCommitment);
+		const { deck } = verifyRound(fairness);
+		expect(verifyRound(fairness).roundSeed).toBe(roundSeed);
+		dealtHands.forEach((hand, round) => {
+			// Alice's hand, then the dealer's, 14 cards a round from the end of the shoe
+			expect(hand).toEqual(deck.slice(deck.length - round * 14 - 7, deck.length - round * 14));
+		});
+		expect(gameTable.fairness?.seedCommitment).not.toBe(seedCommitment); // The next shoe has a new commitment
+	});
+
+	it('should not deal the same cards again after stepping back to betting', () => {
+		const gameTable = new GameTable('rewind-table', { ...DEFAULT_GAME_SETTINGS, deckCount: 2, penetrationPercent: 75 });
+		const player = new Player('p1', createMockWebSocket('p1'));
+		player.username = 'Alice';
+		player.dannyBucks = 1000;
+		gameTable.addPlayer(player);
+		const dealAndSettle = () => {
+			player.currentBet = 10;
+			dealRound(gameTable);
+			const dealt = [...(player.currentHand ?? []), ...(gameTable.dealerHand.dealtCards ?? [])];
+			autoSetRemainingHands(gameTable);
+			handleShowdown(gameTable);
+			startNextRound(gameTable);
+			gameTable.clearPhaseTimer();
+			return dealt;
+		};
+
+		startBettingPhase(gameTable);
+		dealAndSettle(); // The shoe is still in play for the next round
+		player.currentBet = 10;
+		dealRound(gameTable);
+		const seen = [...(player.currentHand ?? []), ...(gameTable.dealerHand.dealtCards ?? [])].map(card => card.id);
+		expect(seen).toHaveLength(14);
+		expect(gameTable.stepBack()).toBe('Betting');
+
+		const redealt = dealAndSettle().map(card => card.id);
+		expect(redealt.filter(id => seen.includes(id))).toEqual([]);
+	});
+
+	it('should not deal on from a revealed shoe after stepping back to the results', () => {
+		const gameTable = new GameTable('revealed-table');
+		const player = new Player('p1', createMockWebSocket('p1'));
+		player.username = 'Alice';
+		player.dannyBucks = 1000;
+		gameTable.addPlayer(player);
+
+		startBettingPhase(gameTable);
+		player.currentBet = 10;
+		dealRound(gameTable);
+		autoSetRemainingHands(gameTable);
+		handleShowdown(gameTable); // A single deck is finished every round, so its seed is revealed
+		startNextRound(gameTable);
+		gameTable.clearPhaseTimer();
+		expect(gameTable.stepBack()).toBe('RoundOver');
+
+		expect(gameTable.roundSeed).toBeNull(); // The next deal shuffles from a seed nobody has seen
+		expect(gameTable.fairness).not.toBeNull();
+	});
+});
+
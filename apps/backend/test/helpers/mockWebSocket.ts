@@ -0,0 +1,18 @@
+import { vi } from 'vitest';
+import type { WebSocket } from 'ws';
+import type { Player } from '../../src/models/Player';
+
+/**
+ * Builds an open connection that records what is sent to it, for tests that never touch a real socket.
+ * @param {string} [playerId] - The player ID the server stores on each connection; broadcast() looks for it.
+ * @returns {WebSocket} The mock connection; its send() is a vi.fn().
+ */
+export const createMockWebSocket = (playerId?: string): WebSocket =>
+	({ OPEN: 1, readyState: 1, playerId, send: vi.fn() }) as unknown as WebSocket;
+
+/**
+ * Parses every message sent to a player over their mock connection, oldest first.
+ * @param {Player} player - A player whose connection came from createMockWebSocket().
+ * @returns The parsed messages.
+ */
+export const sentMessages = (player: Player) => vi.mocked(player.ws.send).mock.calls.map(([raw]) => JSON.parse(String(raw)));
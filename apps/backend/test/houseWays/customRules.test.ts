@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseCards as hand } from '../../src/utils/cardNotation';
+import { createRuleHouseWay, loadHouseWayFiles, parseHouseWayRules } from '../../src/houseWays/customRules';
+import { getHouseWay, getHouseWayIds, setHandHouseWay } from '../../src/houseWays/registry';
+import { setDealerHandHouseWay } from '../../src/utils/houseWay';
+
+// A small home-game house way, as a host would write it in a file
+const fridayNight = {
+	id: 'FridayNight',
+	label: 'Friday Night',
+	rules: [
+		{ name: 'Two pair J-K with an Ace: Ace low', when: { hand: 'TwoPair', highPair: { min: 'J', max: 'K' }, topSingle: 'A' }, split: 'TopSingles' },
+		{ name: 'Other two pair: split', when: { hand: 'TwoPair' }, split: 'LowPair' },
+		{ name: 'One pair: pair high', when: { hand: 'OnePair' }, split: 'TopSingles' },
+	],
+};
+
+describe('parseHouseWayRules', () => {
+	it('should accept a valid rule file and read ranks as values', () => {
+		const ruleSet = parseHouseWayRules(fridayNight);
+		expect(ruleSet.id).toBe('FridayNight');
+		expect(ruleSet.rules).toHaveLength(3);
+		expect(ruleSet.rules[0].when).toEqual({ hand: ['TwoPair'], highPair: { min: 11, max: 13 }, topSingle: { min: 14, max: 14 } });
+	});
+
+	it('should point at the field that is wrong', () => {
+		const withRule = (rule: unknown) => ({ ...fridayNight, rules: [rule] });
+		expect(() => parseHouseWayRules([])).toThrow('expected a JSON object');
+		expect(() => parseHouseWayRules({ ...fridayNight, id: 'Friday Night' })).toThrow("'id'");
+		expect(() => parseHouseWayRules({ ...fridayNight, rules: [] })).toThrow("'rules'");
+		expect(() => parseHouseWayRules(withRule({ name: 'x', when: {}, split: 'AceLow' }))).toThrow("'rules[0].split'");
+		expect(() => parseHouseWayRules(withRule({ name: 'x', when: { hand: 'Straight' }, split: 'TopSingles' }))).toThrow("'rules[0].when.hand'");
+		expect(() => parseHouseWayRules(withRule({ name: 'x', when: { highPiar: 'A' }, split: 'TopSingles' }))).toThrow("'rules[0].when.highPiar' is not a condition");
+		expect(() => parseHouseWayRules(withRule({ name: 'x', when: { highPair: '1' }, split: 'TopSingles' }))).toThrow("'rules[0].when.highPair'");
+		expect(() => parseHouseWayRules(withRule({ name: 'x', when: { highPair: { min: 'K', max: 'J' } }, split: 'TopSingles' }))).toThrow("'rules[0].when.highPair.min' is above");
+		expect(() => parseHouseWayRules(withRule({ name: 'x', when: { joker: 'yes' }, split: 'TopSingles' }))).toThrow("'rules[0].when.joker'");
+	});
+});
+
+describe('createRuleHouseWay', () => {
+	const houseWay = createRuleHouseWay(parseHouseWayRules(fridayNight));
+
+	it('should set the hand by the first rule that matches', () => {
+		// Kings and 4s with an Ace: both pairs stay high, the Ace goes low
+		const withAce = houseWay.setHand(hand('Ks Kh 4d 4c As 8h 2d'));
+		expect(withAce?.lowHand.map(card => card.rank)).toEqual(['A', '8']);
+		// Without an Ace the second rule splits the pairs
+		const withoutAce = houseWay.setHand(hand('Ks Kh 4d 4c Qs 8h 2d'));
+		expect(withoutAce?.lowHand.map(card => card.rank)).toEqual(['4', '4']);
+	});
+
+	it('should leave hands no rule covers to the maximize-low fallback', () => {
+		const trips = hand('8s 8h 8d Kc Js 5h 2d');
+		expect(houseWay.setHand(trips)).toBeNull();
+		expect(setHandHouseWay(trips, 'MaximizeLow')).toEqual(setDealerHandHouseWay(trips));
+	});
+
+	it('should pass over rules whose split does not fit the hand', () => {
+		const pairLow = createRuleHouseWay(parseHouseWayRules({
+			id: 'PairLow',
+			label: 'Pair Low',
+			rules: [
+				{ name: 'Two pair low', when: {}, split: 'LowPair' }, // No second pair in a one-pair hand
+				{ name: 'Pair low', when: {}, split: 'HighPair' }, // Would put the only pair under a high-card hand
+				{ name: 'Otherwise', when: {}, split: 'NextTwoSingles' },
+			],
+		}));
+		const split = pairLow.setHand(hand('Qs Qh 9d 7c 5s 3h 2d'));
+		expect(split?.lowHand.map(card => card.rank)).toEqual(['7', '5']);
+	});
+});
+
+describe('loadHouseWayFiles', () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'paigow-houseways-'));
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+		vi.restoreAllMocks();
+	});
+
+	it('should register valid files and skip broken ones', () => {
+		fs.writeFileSync(path.join(dir, 'fridayNight.json'), JSON.stringify(fridayNight));
+		fs.writeFileSync(path.join(dir, 'broken.json'), '{ "id": ');
+		fs.writeFileSync(path.join(dir, 'vegas.json'), JSON.stringify({ ...fridayNight, id: 'LasVegas' }));
+
+		const loaded = loadHouseWayFiles(dir);
+		expect(loaded.map(houseWay => houseWay.id)).toEqual(['FridayNight']);
+		expect(getHouseWayIds()).toContain('FridayNight');
+		expect(getHouseWay('LasVegas').label).toBe('Las Vegas');
+		expect(console.error).toHaveBeenCalledTimes(2);
+	});
+
+	it('should load nothing from a missing directory', () => {
+		expect(loadHouseWayFiles(path.join(dir, 'missing'))).toEqual([]);
+	});
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import type { Card } from '../../src/models/Card';
+import { parseCards as hand } from '../../src/utils/cardNotation';
+import { getHouseWay, getHouseWayIds, setHandHouseWay } from '../../src/houseWays/registry';
+import { setDealerHandHouseWay } from '../../src/utils/houseWay';
+
+// Ranks of the low hand, highest first, for compact assertions
+const lowRanks = (sevenCards: Card[], houseWayId: string): string[] => {
+	const split = getHouseWay(houseWayId).setHand(sevenCards);
+	expect(split).not.toBeNull();
+	return split?.lowHand.map(card => card.rank) ?? [];
+};
+
+describe('house way registry', () => {
+	it('should register every house way under its own id', () => {
+		expect(getHouseWayIds()).toEqual(['MaximizeLow', 'LasVegas', 'CommissionFreeCasino']);
+		for (const id of getHouseWayIds()) {
+			expect(getHouseWay(id).id).toBe(id);
+		}
+		expect(() => getHouseWay('Macau')).toThrow("Unknown house way 'Macau'");
+	});
+
+	it('should keep maximize-low as its own house way', () => {
+		const cards = hand('Ks Kh 7d 7c 4s 3h 2d');
+		expect(setHandHouseWay(cards, 'MaximizeLow')).toEqual(setDealerHandHouseWay(cards));
+	});
+});
+
+describe('Las Vegas house way', () => {
+	it('should split two pair by rank class', () => {
+		// Low pairs stay together with a King single
+		expect(lowRanks(hand('5s 5h 3d 3c Ks 9h 2d'), 'LasVegas')).toEqual(['K', '9']);
+		// Medium pairs only stay together with an Ace single
+		expect(lowRanks(hand('9s 9h 7d 7c As 4h 2d'), 'LasVegas')).toEqual(['A', '4']);
+		expect(lowRanks(hand('9s 9h 7d 7c Ks 4h 2d'), 'LasVegas')).toEqual(['7', '7']);
+		// High pairs and Aces are always split, the lower pair going low
+		expect(lowRanks(hand('Js Jh 4d 4c As 8h 2d'), 'LasVegas')).toEqual(['4', '4']);
+		expect(lowRanks(hand('As Ah 3d 3c Ks 8h 2d'), 'LasVegas')).toEqual(['3', '3']);
+	});
+
+	it('should keep trips high except three Aces', () => {
+		expect(lowRanks(hand('8s 8h 8d Kc Js 5h 2d'), 'LasVegas')).toEqual(['K', 'J']);
+		const split = getHouseWay('LasVegas').setHand(hand('As Ah Ad Kc Js 5h 2d'));
+		expect(split?.lowHand.map(card => card.rank)).toEqual(['A', 'K']);
+		expect(split?.highHand.filter(card => card.rank === 'A')).toHaveLength(2);
+	});
+
+	it('should play the pair of a full house low, except 2s with an Ace and a King', () => {
+		expect(lowRanks(hand('9s 9h 9d 4c 4s Ah 2d'), 'LasVegas')).toEqual(['4', '4']);
+		expect(lowRanks(hand('9s 9h 9d 2c 2s Ah Kd'), 'LasVegas')).toEqual(['A', 'K']);
+	});
+
+	it('should keep a straight or flush high and play a pair low when it can', () => {
+		const split = getHouseWay('LasVegas').setHand(hand('4s 5h 6d 7c 8s Kh Kd'));
+		expect(split?.lowHand.map(card => card.rank)).toEqual(['K', 'K']);
+		expect(split?.highHand.map(card => card.rank).sort()).toEqual(['4', '5', '6', '7', '8']);
+	});
+
+	it('should split Four of a Kind above 6s unless an Ace can go low', () => {
+		expect(lowRanks(hand('5s 5h 5d 5c Ks Qh 2d'), 'LasVegas')).toEqual(['K', 'Q']);
+		expect(lowRanks(hand('9s 9h 9d 9c As Qh 2d'), 'LasVegas')).toEqual(['A', 'Q']);
+		expect(lowRanks(hand('9s 9h 9d 9c Ks Qh 2d'), 'LasVegas')).toEqual(['9', '9']);
+		expect(lowRanks(hand('Qs Qh Qd Qc As 8h 2d'), 'LasVegas')).toEqual(['Q', 'Q']);
+	});
+
+	it('should play Five Aces as three Aces high and two Aces low', () => {
+		const split = getHouseWay('LasVegas').setHand(hand('As Ah Ad Ac Jk Ks Qh'));
+		expect(split?.lowHand.map(card => card.rank)).toEqual(['A', 'A']);
+		expect(split?.highHand.map(card => card.rank)).toContain('Joker');
+	});
+
+	it('should set a no-pair hand with the top card high and the next two low', () => {
+		expect(lowRanks(hand('As Qh 9d 7c 5s 3h 2d'), 'LasVegas')).toEqual(['Q', '9']);
+	});
+});
+
+describe('Commission-Free Casino house way', () => {
+	it('should only keep two pair together with an Ace single', () => {
+		expect(lowRanks(hand('5s 5h 3d 3c Ks 9h 2d'), 'CommissionFreeCasino')).toEqual(['3', '3']);
+		expect(lowRanks(hand('5s 5h 3d 3c As 9h 2d'), 'CommissionFreeCasino')).toEqual(['A', '9']);
+	});
+
+	it('should always split a full house', () => {
+		expect(lowRanks(hand('9s 9h 9d 2c 2s Ah Kd'), 'CommissionFreeCasino')).toEqual(['2', '2']);
+	});
+
+	it('should play a straight over trips, with a pair from the trips low', () => {
+		const cards = hand('4s 5h 6d 7c 8s 8h 8d');
+		expect(lowRanks(cards, 'CommissionFreeCasino')).toEqual(['8', '8']);
+		expect(lowRanks(cards, 'LasVegas')).toEqual(['7', '6']); // Las Vegas plays the trips
+	});
+});
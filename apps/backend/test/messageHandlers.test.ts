@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Player } from '../src/models/Player';
+import { DEFAULT_GAME_SETTINGS } from '../src/models/GameSettings';
+import type { GameTable } from '../src/models/GameTable';
+import { createMockWebSocket, sentMessages } from './helpers/mockWebSocket';
+import type { Card } from '../src/models/Card';
+import type { PlayerWebSocket } from '../src/types/websocket';
+import { getTableManager } from '../src/TableManager';
+import { handleAddClientSeed, handleRequestSplitAnalysis, handleSetHandHouseWay, handleSetPlayerHand } from '../src/messageHandlers';
+
+// Keep the tests from writing autosaves to disk
+vi.mock('../src/utils/autosave');
+// websocketUtils only needs the OPEN constant from ws
+vi.mock('ws', () => ({ WebSocket: { OPEN: 1 } }));
+
+describe('handleSetHandHouseWay', () => {
+	const card = (rank: string, suit: string): Card => ({ rank, suit });
+	let gameTable: GameTable;
+	let alice: Player;
+	let bob: Player;
+
+	beforeEach(() => {
+		const tableManager = getTableManager();
+		gameTable = tableManager.createTable('house-way-table', { ...DEFAULT_GAME_SETTINGS, houseWay: 'LasVegas' });
+		[alice, bob] = ['alice-id', 'bob-id'].map((id) => {
+			const player = new Player(id, createMockWebSocket(id));
+			player.username = id.split('-')[0];
+			player.currentBet = 10;
+			tableManager.registerPlayer(player);
+			tableManager.joinTable(id, gameTable.id);
+			return player;
+		});
+		// Kings and 4s with an Ace: Las Vegas splits high two pair
+		alice.currentHand = [card('K', 'Spades'), card('K', 'Hearts'), card('4', 'Diamonds'), card('4', 'Clubs'), card('A', 'Spades'), card('8', 'Hearts'), card('2', 'Diamonds')];
+		bob.currentHand = [card('Q', 'Spades'), card('J', 'Hearts'), card('9', 'Diamonds'), card('7', 'Clubs'), card('5', 'Spades'), card('3', 'Hearts'), card('2', 'Clubs')];
+		gameTable.gameState = 'PlayerAction';
+	});
+
+	afterEach(() => {
+		const tableManager = getTableManager();
+		[alice, bob].forEach(player => tableManager.unregisterPlayer(player.id));
+		tableManager.removeTable(gameTable.id);
+	});
+
+	it('should reply with the table house way split without setting the hand', () => {
+		handleSetHandHouseWay(alice.id, { type: 'setHandHouseWay', payload: {} }, alice.ws as PlayerWebSocket);
+
+		const suggestion = sentMessages(alice).find(message => message.type === 'houseWaySuggestion');
+		expect(suggestion.payload.houseWay).toBe('Las Vegas');
+		expect(suggestion.payload.lowHand.map((c: Card) => c.rank)).toEqual(['4', '4']);
+		expect(suggestion.payload.highHand).toHaveLength(5);
+		expect(alice.hasSetHand).toBe(false);
+	});
+
+	it('should submit the split through the set-hand checks when asked to', () => {
+		handleSetHandHouseWay(alice.id, { type: 'setHandHouseWay', payload: { submit: true } }, alice.ws as PlayerWebSocket);
+
+		expect(sentMessages(alice).map(message => message.type)).toEqual(['houseWaySuggestion', 'setHandSuccess']);
+		expect(alice.hasSetHand).toBe(true);
+		expect(alice.setLowHand?.map(c => c.rank)).toEqual(['4', '4']);
+		expect(gameTable.gameState).toBe('PlayerAction'); // Bob has not set his hand yet
+	});
+
+	it('should refuse outside of hand setting', () => {
+		gameTable.gameState = 'Betting';
+		handleSetHandHouseWay(alice.id, { type: 'setHandHouseWay', payload: { submit: true } }, alice.ws as PlayerWebSocket);
+
+		const [reply] = sentMessages(alice);
+		expect(reply.type).toBe('error');
+		expect(reply.payload.message).toContain('Betting');
+		expect(alice.hasSetHand).toBe(false);
+	});
+});
+
+describe('handleRequestSplitAnalysis', () => {
+	const card = (rank: string, suit: string): Card => ({ rank, suit });
+	let gameTable: GameTable;
+	let player: Player;
+
+	// Seats one player with a dealt hand against a set dealer hand
+	const seatPlayer = (variant: string) => {
+		const tableManager = getTableManager();
+		gameTable = tableManager.createTable('split-table', { ...DEFAULT_GAME_SETTINGS, variant });
+		player = new Player('solver-id', createMockWebSocket('solver-id'));
+		player.username = 'solver';
+		player.currentBet = 10;
+		tableManager.registerPlayer(player);
+		tableManager.joinTable(player.id, gameTable.id);
+		player.currentHand = [card('K', 'Spades'), card('K', 'Hearts'), card('9', 'Diamonds'), card('9', 'Clubs'), card('A', 'Spades'), card('8', 'Hearts'), card('2', 'Diamonds')];
+		const dealerCards = [card('Q', 'Spades'), card('Q', 'Hearts'), card('7', 'Diamonds'), card('7', 'Clubs'), card('3', 'Spades'), card('J', 'Hearts'), card('5', 'Diamonds')];
+		gameTable.dealerHand = { dealtCards: dealerCards, highHand: dealerCards.slice(0, 5), lowHand: dealerCards.slice(5), isAceHighPaiGow: false };
+		gameTable.gameState = 'PlayerAction';
+	};
+
+	afterEach(() => {
+		getTableManager().unregisterPlayer(player.id);
+		getTableManager().removeTable(gameTable.id);
+	});
+
+	it('should rank the splits against the face-up dealer hand', () => {
+		seatPlayer('FaceUp');
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: {} }, player.ws as PlayerWebSocket);
+
+		const [reply] = sentMessages(player);
+		expect(reply.type).toBe('splitAnalysis');
+		expect(reply.payload.method).toBe('FaceUp');
+		expect(reply.payload.splits[0]).toMatchObject({ outcome: 'Win', lowHand: [card('A', 'Spades'), card('8', 'Hearts')] });
+	});
+
+	it('should estimate the splits against a face-down dealer hand within the time budget', async () => {
+		seatPlayer('Classic');
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: { timeBudgetMs: 50 } }, player.ws as PlayerWebSocket);
+
+		await vi.waitFor(() => expect(sentMessages(player)).toHaveLength(1));
+		const [reply] = sentMessages(player);
+		expect(reply.type).toBe('splitAnalysis');
+		expect(reply.payload.method).toBe('ExpectedValue');
+		expect(reply.payload.samples).toBeGreaterThan(0);
+		expect(reply.payload.splits[0]).toMatchObject({ expectedValue: expect.any(Number), standardError: expect.any(Number), closeToBest: true });
+	});
+
+	it('should drop an estimate once the player has set their hand', async () => {
+		seatPlayer('Classic');
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: { timeBudgetMs: 50 } }, player.ws as PlayerWebSocket);
+		player.currentHand = null; // The round moved on while sampling
+		await new Promise(resolve => setTimeout(resolve, 100));
+
+		expect(sentMessages(player)).toEqual([]);
+	});
+
+	it('should reject a time budget above the limit', () => {
+		seatPlayer('Classic');
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: { timeBudgetMs: 60_000 } }, player.ws as PlayerWebSocket);
+
+		const [reply] = sentMessages(player);
+		expect(reply.type).toBe('error');
+		expect(reply.payload.message).toContain('time budget');
+	});
+
+	it('should refuse while the table is paused or outside of hand setting', () => {
+		seatPlayer('Classic');
+		gameTable.pause();
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: {} }, player.ws as PlayerWebSocket);
+		gameTable.resume();
+		gameTable.gameState = 'Betting';
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: {} }, player.ws as PlayerWebSocket);
+
+		const [paused, betting] = sentMessages(player).filter(message => message.type === 'error');
+		expect(paused.payload.message).toContain('paused');
+		expect(betting.payload.message).toContain('Betting');
+		expect(player.splitAnalysisAvailableAt).toBe(0);
+	});
+
+	it('should run one analysis at a time per player, with a pause before the next', async () => {
+		seatPlayer('Classic');
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: { timeBudgetMs: 20 } }, player.ws as PlayerWebSocket);
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: { timeBudgetMs: 20 } }, player.ws as PlayerWebSocket);
+		await vi.waitFor(() => expect(sentMessages(player)).toHaveLength(2));
+		handleRequestSplitAnalysis(player.id, { type: 'requestSplitAnalysis', payload: { timeBudgetMs: 20 } }, player.ws as PlayerWebSocket);
+
+		const [busy, first, cooling] = sentMessages(player);
+		expect(busy.payload.message).toContain('Try again');
+		expect(first.type).toBe('splitAnalysis');
+		expect(cooling.payload.message).toContain('Try again');
+	});
+});
+
+describe('handleAddClientSeed', () => {
+	let gameTable: GameTable;
+	let player: Player;
+
+	beforeEach(() => {
+		const tableManager = getTableManager();
+		gameTable = tableManager.createTable('seed-table', DEFAULT_GAME_SETTINGS);
+		player = new Player('seeder-id', createMockWebSocket('seeder-id'));
+		player.username = 'seeder';
+		tableManager.registerPlayer(player);
+		tableManager.joinTable(player.id, gameTable.id);
+	});
+
+	afterEach(() => {
+		getTableManager().unregisterPlayer(player.id);
+		getTableManager().removeTable(gameTable.id);
+	});
+
+	it('should mix the seed into the committed round while betting is open', () => {
+		gameTable.gameState = 'Betting';
+		const { seedCommitment } = gameTable.openSeedCommitment();
+		handleAddClientSeed(player.id, { type: 'addClientSeed', payload: { clientSeed: 'c0ffee' } }, player.ws as PlayerWebSocket);
+
+		const [reply] = sentMessages(player);
+		expect(reply).toEqual({ type: 'clientSeedAccepted', payload: { clientSeed: 'c0ffee', seedCommitment } });
+		expect(gameTable.fairness?.clientSeeds).toEqual([{ username: 'seeder', clientSeed: 'c0ffee' }]);
+	});
+
+	it('should refuse once the cards are dealt', () => {
+		gameTable.openSeedCommitment();
+		gameTable.gameState = 'PlayerAction';
+		handleAddClientSeed(player.id, { type: 'addClientSeed', payload: { clientSeed: 'c0ffee' } }, player.ws as PlayerWebSocket);
+
+		const [reply] = sentMessages(player);
+		expect(reply.type).toBe('error');
+		expect(reply.payload.message).toContain('Betting');
+		expect(gameTable.fairness?.clientSeeds).toEqual([]);
+	});
+
+	it('should refuse while the next round is dealt on from the shoe in play', () => {
+		gameTable.gameState = 'Betting';
+		gameTable.openSeedCommitment();
+		gameTable.roundSeed = 'shoe-in-play';
+		handleAddClientSeed(player.id, { type: 'addClientSeed', payload: { clientSeed: 'c0ffee' } }, player.ws as PlayerWebSocket);
+
+		const [reply] = sentMessages(player);
+		expect(reply.type).toBe('error');
+		expect(reply.payload.message).toContain('not reshuffled');
+		expect(gameTable.fairness?.clientSeeds).toEqual([]);
+	});
+});
+
+describe('handleSetPlayerHand', () => {
+	let gameTable: GameTable;
+	let alice: Player;
+	let bob: Player;
+
+	beforeEach(() => {
+		const tableManager = getTableManager();
+		gameTable = tableManager.createTable('shoe-table', { ...DEFAULT_GAME_SETTINGS, deckCount: 2 });
+		[alice, bob] = ['alice-id', 'bob-id'].map((id) => {
+			const player = new Player(id, createMockWebSocket(id));
+			player.username = id.split('-')[0];
+			player.currentBet = 10;
+			tableManager.registerPlayer(player);
+			tableManager.joinTable(id, gameTable.id);
+			return player;
+		});
+		// Two Aces of Spades and two Kings of Hearts, one of each from either deck
+		alice.currentHand = [
+			{ rank: 'A', suit: 'Spades', id: '1:A:Spades' }, { rank: 'A', suit: 'Spades', id: '2:A:Spades' },
+			{ rank: 'K', suit: 'Hearts', id: '1:K:Hearts' }, { rank: 'K', suit: 'Hearts', id: '2:K:Hearts' },
+			{ rank: '9', suit: 'Clubs', id: '1:9:Clubs' }, { rank: '5', suit: 'Diamonds', id: '2:5:Diamonds' }, { rank: '2', suit: 'Clubs', id: '1:2:Clubs' },
+		];
+		gameTable.gameState = 'PlayerAction';
+	});
+
+	afterEach(() => {
+		const tableManager = getTableManager();
+		[alice, bob].forEach(player => tableManager.unregisterPlayer(player.id));
+		tableManager.removeTable(gameTable.id);
+	});
+
+	it('should match each card of a split to a distinct dealt card by id', () => {
+		const [aceOne, aceTwo, kingOne, kingTwo, nine, five, two] = alice.currentHand ?? [];
+		handleSetPlayerHand(alice.id, { type: 'setPlayerHand', payload: { highHand: [aceOne, aceTwo, kingOne, nine, five], lowHand: [kingTwo, two] } }, alice.ws as PlayerWebSocket);
+
+		expect(sentMessages(alice).map(message => message.type)).toContain('setHandSuccess');
+		expect(alice.setLowHand?.map(c => c.id)).toEqual(['2:K:Hearts', '1:2:Clubs']);
+	});
+
+	it('should reject a dealt card used twice', () => {
+		const [aceOne, , kingOne, kingTwo, nine, five, two] = alice.currentHand ?? [];
+		handleSetPlayerHand(alice.id, { type: 'setPlayerHand', payload: { highHand: [aceOne, aceOne, kingOne, nine, five], lowHand: [kingTwo, two] } }, alice.ws as PlayerWebSocket);
+
+		const [reply] = sentMessages(alice);
+		expect(reply.type).toBe('error');
+		expect(reply.payload.message).toContain('do not match');
+		expect(alice.hasSetHand).toBe(false);
+	});
+
+	it('should accept cards without ids from older clients', () => {
+		const bare = (alice.currentHand ?? []).map(({ rank, suit }) => ({ rank, suit }));
+		handleSetPlayerHand(alice.id, { type: 'setPlayerHand', payload: { highHand: bare.slice(0, 5), lowHand: bare.slice(5) } }, alice.ws as PlayerWebSocket);
+
+		expect(alice.hasSetHand).toBe(true);
+		expect(new Set([...(alice.setHighHand ?? []), ...(alice.setLowHand ?? [])].map(c => c.id)).size).toBe(7); // The dealt cards, ids and all
+	});
+});
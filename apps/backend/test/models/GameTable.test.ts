@@ -3,7 +3,7 @@ import { GameTable } from '../../src/models/GameTable';
 import { Player } from '../../src/models/Player';
 import type { Card } from '../../src/models/Card'; // Import Card type
 import { Deck } from '../../src/utils/Deck';
-import type { WebSocket } from 'ws';
+import { createMockWebSocket } from '../helpers/mockWebSocket';
 import * as houseWayUtils from '../../src/utils/houseWay'; // Import module for spying
 import * as handEvaluatorUtils from '../../src/utils/handEvaluator'; // Import module for spying
 import { HAND_RANK } from '../../src/utils/handEvaluator'; // Import HAND_RANK directly
@@ -12,18 +12,6 @@ import { HAND_RANK } from '../../src/utils/handEvaluator'; // Import HAND_RANK d
 vi.mock('../../src/utils/Deck');
 // We don't need to mock houseWay or handEvaluator globally if we spy on specific methods
 
-
-// Mock WebSocket - we only need the interface, not actual connection
-const createMockWebSocket = (): WebSocket => {
-	// Basic mock satisfying the type, add properties/methods if needed by tested code
-	return {
-		OPEN: 1,
-		readyState: 1, // Mock as open
-		send: vi.fn(),
-		// Add other methods/properties used by GameTable or Player if any
-	} as unknown as WebSocket;
-};
-
 describe('GameTable', () => {
 	let gameTable: GameTable;
 	let mockPlayer1: Player;
@@ -120,12 +108,33 @@ describe('GameTable', () => {
         expect(gameTable.hostId).toBeNull();
     });
 
+    /**
+	 * @test {GameTable#getSummary} - Verify the lobby summary
+	 */
+	it('should summarize host, player count, variant, bet limits and state for the lobby', () => {
+        expect(gameTable.getSummary()).toEqual({
+            id: 'test-table-1',
+            hostName: null,
+            playerCount: 0,
+            variant: 'FaceUp',
+            minBet: 10,
+            maxBet: 500,
+            gameState: 'WaitingForPlayers',
+        });
+
+        gameTable.addPlayer(mockPlayer1);
+        gameTable.addPlayer(mockPlayer3);
+        const summary = gameTable.getSummary();
+        expect(summary.hostName).toBe('Alice');
+        expect(summary.playerCount).toBe(2);
+    });
+
     /**
 	 * @test {GameTable#startNewRound} - Verify dealing logic (Task 5 Verify Step)
 	 */
 	it('should reset deck, shuffle, and deal 7 cards to active players and dealer', () => {
-        mockPlayer1.currentBet = gameTable.gameSettings.fixedBetAmount;
-        mockPlayer2.currentBet = gameTable.gameSettings.fixedBetAmount;
+        mockPlayer1.currentBet = gameTable.gameSettings.minBet;
+        mockPlayer2.currentBet = gameTable.gameSettings.minBet;
         // Player 3 has no username/bet, should not be dealt cards
 
         gameTable.addPlayer(mockPlayer1);
@@ -174,7 +183,7 @@ describe('GameTable', () => {
 	 * @test {GameTable#startNewRound} - Verify dealer hand setting and Ace-High check (Task 6 Verify Step)
 	 */
 	it('should set dealer hand using House Way and check for Ace-High Pai Gow', async () => { // Make test async
-	       mockPlayer1.currentBet = gameTable.gameSettings.fixedBetAmount;
+	       mockPlayer1.currentBet = gameTable.gameSettings.minBet;
 	       gameTable.addPlayer(mockPlayer1);
 
 	       // Spy on the imported modules
@@ -224,7 +233,7 @@ describe('GameTable', () => {
 
 	       // Need to reset player bets/hands if startNewRound modifies them, or use fresh players
 	       mockPlayer1.currentHand = null;
-	       mockPlayer1.currentBet = gameTable.gameSettings.fixedBetAmount; // Ensure player is active again
+	       mockPlayer1.currentBet = gameTable.gameSettings.minBet; // Ensure player is active again
 	       gameTable.dealerHand = { dealtCards: null, highHand: null, lowHand: null, isAceHighPaiGow: false }; // Reset dealer hand state
 
 	       gameTable.startNewRound(); // Call again
@@ -244,7 +253,7 @@ describe('GameTable', () => {
         gameTable.addPlayer(mockPlayer2); // Has username
         gameTable.addPlayer(mockPlayer3); // No username
 
-        mockPlayer1.currentBet = gameTable.gameSettings.fixedBetAmount; // p1 bets
+        mockPlayer1.currentBet = gameTable.gameSettings.minBet; // p1 bets
         mockPlayer2.currentBet = 0; // p2 has zero bet
         // p3 has no bet (null) and no username
 
@@ -296,4 +305,246 @@ describe('GameTable', () => {
         expect(gameTable.gameState).toBe('WaitingForPlayers');
     });
 
-});
\ No newline at end of file
+
+    /**
+	 * @test {GameTable#recordTurn} - Verify the turn history is immutable
+	 */
+    it('should record frozen snapshots that later changes cannot touch', () => {
+        gameTable.addPlayer(mockPlayer1);
+        mockPlayer1.dannyBucks = 100;
+        gameTable.gameState = 'Betting';
+        gameTable.recordTurn();
+
+        mockPlayer1.dannyBucks = 90;
+        const entry = gameTable.turnHistory[0];
+        expect(entry.gameState).toBe('Betting');
+        expect(entry.players[0].dannyBucks).toBe(100);
+        expect(Object.isFrozen(entry.players[0])).toBe(true);
+    });
+
+    /**
+	 * @test {GameTable#stepBack} - Verify bets are refunded when stepping back
+	 */
+    it('should step back to the previous phase, refunding bets and skipping instant phases', () => {
+        gameTable.addPlayer(mockPlayer1);
+        gameTable.addPlayer(mockPlayer2);
+        mockPlayer1.dannyBucks = 100;
+        mockPlayer2.dannyBucks = 100;
+
+        gameTable.gameState = 'Betting';
+        gameTable.recordTurn();
+        mockPlayer1.currentBet = 10; // Bet placed during Betting
+        mockPlayer1.dannyBucks = 90;
+        gameTable.gameState = 'Dealing';
+        gameTable.recordTurn();
+        gameTable.gameState = 'PlayerAction';
+        gameTable.recordTurn();
+
+        expect(gameTable.stepBack()).toBe('Betting');
+        expect(mockPlayer1.dannyBucks).toBe(100);
+        expect(mockPlayer1.currentBet).toBeNull();
+        expect(gameTable.turnHistory).toHaveLength(1);
+        expect(gameTable.hostId).toBe('p1');
+
+        // Betting is now the oldest phase, so there is nothing left to undo
+        expect(gameTable.stepBack()).toBeNull();
+        expect(gameTable.gameState).toBe('Betting');
+    });
+
+    /**
+	 * @test {GameTable#stepBack} - Verify the host is kept when stepping back
+	 */
+    it('should keep the current host when stepping back', () => {
+        gameTable.addPlayer(mockPlayer1);
+        gameTable.addPlayer(mockPlayer2);
+        gameTable.gameState = 'RoundOver';
+        gameTable.recordTurn();
+        gameTable.setHost('p2');
+        gameTable.gameState = 'Betting';
+        gameTable.recordTurn();
+
+        expect(gameTable.stepBack()).toBe('RoundOver');
+        expect(gameTable.hostId).toBe('p2');
+        expect(mockPlayer2.isHost).toBe(true);
+        expect(mockPlayer1.isHost).toBe(false);
+        expect(gameTable.reservedHostUsername).toBeNull();
+    });
+
+    /**
+	 * @test {GameTable#pause} - Verify pause and resume return to the interrupted phase
+	 */
+    it('should pause and resume in exactly the interrupted phase', () => {
+        gameTable.gameState = 'PlayerAction';
+
+        expect(gameTable.pause()).toBe(true);
+        expect(gameTable.gameState).toBe('Paused');
+        expect(gameTable.pausedState).toBe('PlayerAction');
+        expect(gameTable.isPaused()).toBe(true);
+        expect(gameTable.pause()).toBe(false); // Already paused
+
+        expect(gameTable.resume()).toBe(true);
+        expect(gameTable.gameState).toBe('PlayerAction');
+        expect(gameTable.pausedState).toBeNull();
+        expect(gameTable.resume()).toBe(false); // Not paused
+    });
+
+    /**
+	 * @test {GameTable#stepBack} - Verify stepping back keeps a paused table paused
+	 */
+    it('should stay paused when stepping back, resuming in the restored phase', () => {
+        gameTable.addPlayer(mockPlayer1);
+        gameTable.gameState = 'Betting';
+        gameTable.recordTurn();
+        gameTable.gameState = 'PlayerAction';
+        gameTable.recordTurn();
+        gameTable.pause();
+
+        expect(gameTable.stepBack()).toBe('Betting');
+        expect(gameTable.gameState).toBe('Paused');
+        gameTable.resume();
+        expect(gameTable.gameState).toBe('Betting');
+    });
+
+    /**
+	 * @test {GameTable#startNewRound} - Verify the Classic variant plays out an Ace-High dealer hand
+	 */
+    it('should not push on Ace-High in the Classic variant and hide the dealer until showdown', () => {
+        gameTable.gameSettings.variant = 'Classic';
+        mockPlayer1.currentBet = gameTable.gameSettings.minBet;
+        gameTable.addPlayer(mockPlayer1);
+        vi.spyOn(gameTable.deck, 'deal').mockImplementation((numCards: number) =>
+            Array.from({ length: numCards }, (_, i) => ({ rank: `${10 - i}`, suit: 'S' })));
+        vi.spyOn(handEvaluatorUtils, 'evaluate5CardHand')
+            .mockReturnValue({ rank: HAND_RANK.HIGH_CARD, values: [14, 10, 8, 5, 2], isAceHighPaiGow: true });
+
+        gameTable.startNewRound();
+
+        expect(gameTable.dealerHand.isAceHighPaiGow).toBe(false);
+        expect(gameTable.gameState).toBe('PlayerAction');
+        expect(gameTable.isDealerHandHidden()).toBe(true);
+        gameTable.gameState = 'RoundOver';
+        expect(gameTable.isDealerHandHidden()).toBe(false);
+    });
+
+    /**
+	 * @test {GameTable#startNewRound} - Verify a face-down dealer push waits for the showdown
+	 */
+    it('should flag a Queen-high dealer push in Commission-Free without revealing it', () => {
+        gameTable.gameSettings.variant = 'CommissionFree';
+        mockPlayer1.currentBet = gameTable.gameSettings.minBet;
+        gameTable.addPlayer(mockPlayer1);
+        vi.spyOn(gameTable.deck, 'deal').mockImplementation((numCards: number) =>
+            Array.from({ length: numCards }, (_, i) => ({ rank: `${10 - i}`, suit: 'S' })));
+        vi.spyOn(handEvaluatorUtils, 'evaluate5CardHand')
+            .mockReturnValue({ rank: HAND_RANK.HIGH_CARD, values: [12, 10, 8, 5, 2], isAceHighPaiGow: false });
+
+        gameTable.startNewRound();
+
+        expect(gameTable.dealerHand.isAceHighPaiGow).toBe(true); // Pushes at the showdown
+        expect(gameTable.gameState).toBe('PlayerAction'); // Players still set their hands
+        expect(gameTable.isDealerHandHidden()).toBe(true);
+    });
+
+    /**
+	 * @test {GameTable#isDealerHandHidden} - Verify the Face-Up variant always shows the dealer
+	 */
+    it('should never hide the dealer hand in the Face-Up variant', () => {
+        gameTable.gameState = 'PlayerAction';
+        expect(gameTable.isDealerHandHidden()).toBe(false);
+    });
+
+    /**
+	 * @test {GameTable#rotateBanker} - Verify the bank passes around the table in seat order
+	 */
+    it('should rotate the bank among seated players who can cover a minimum bet', () => {
+        gameTable.gameSettings.playerBanking = true;
+        mockPlayer3.username = 'Carol';
+        [mockPlayer1, mockPlayer2, mockPlayer3].forEach(p => gameTable.addPlayer(p));
+        mockPlayer1.dannyBucks = 100;
+        mockPlayer2.dannyBucks = 100;
+        mockPlayer3.dannyBucks = 5; // Cannot cover the 10 DB minimum
+
+        expect(gameTable.rotateBanker()).toBe(mockPlayer1);
+        expect(gameTable.rotateBanker()).toBe(mockPlayer2);
+        expect(gameTable.rotateBanker()).toBe(mockPlayer1); // Carol is skipped
+        expect(gameTable.isBanker(mockPlayer1)).toBe(true);
+
+        gameTable.gameSettings.playerBanking = false;
+        expect(gameTable.rotateBanker()).toBeNull();
+        expect(gameTable.bankerUsername).toBeNull();
+    });
+
+    /**
+	 * @test {GameTable#rotateBanker} - Verify the dealer banks when nobody can
+	 */
+    it('should leave the bank with the dealer when no player is eligible', () => {
+        gameTable.gameSettings.playerBanking = true;
+        gameTable.addPlayer(mockPlayer1);
+        mockPlayer1.dannyBucks = 1000;
+        expect(gameTable.rotateBanker()).toBeNull(); // Nobody to bet against Alice
+
+        gameTable.addPlayer(mockPlayer2);
+        mockPlayer1.dannyBucks = 0;
+        mockPlayer2.dannyBucks = 0;
+        expect(gameTable.rotateBanker()).toBeNull();
+    });
+
+    /**
+	 * @test {GameTable#getOpenBank} - Verify the bank is capped by the banker's balance
+	 */
+    it('should cap the bank at the banker\'s DannyBucks', () => {
+        gameTable.addPlayer(mockPlayer1);
+        gameTable.addPlayer(mockPlayer2);
+        expect(gameTable.getOpenBank('p2')).toBeNull(); // The dealer's bank has no cap
+
+        gameTable.bankerUsername = 'Alice';
+        mockPlayer1.dannyBucks = 100;
+        mockPlayer2.currentBet = 60;
+        expect(gameTable.getOpenBank('p2')).toBe(100); // Bob's own bet can be changed
+        expect(gameTable.getOpenBank('p3')).toBe(40);
+    });
+
+    /**
+	 * @test {GameTable#startNewRound} - Verify the banker's cards replace the dealer hand
+	 */
+    it('should deal the banker\'s 7 cards in place of the dealer hand and keep them hidden', () => {
+        gameTable.addPlayer(mockPlayer1);
+        gameTable.addPlayer(mockPlayer2);
+        gameTable.bankerUsername = 'Alice';
+        mockPlayer2.currentBet = gameTable.gameSettings.minBet;
+        const dealSpy = vi.spyOn(gameTable.deck, 'deal').mockImplementation((numCards: number) =>
+            Array.from({ length: numCards }, (_, i) => ({ rank: `${10 - i}`, suit: 'Spades' })));
+        const houseWaySpy = vi.spyOn(houseWayUtils, 'setDealerHandHouseWay');
+
+        gameTable.startNewRound();
+
+        expect(dealSpy).toHaveBeenCalledTimes(2); // Bob and the banker, no AI dealer hand
+        expect(mockPlayer1.currentHand).toHaveLength(7);
+        expect(gameTable.dealerHand.dealtCards).toEqual(mockPlayer1.currentHand);
+        expect(gameTable.dealerHand.highHand).toBeNull(); // The banker sets it
+        expect(houseWaySpy).not.toHaveBeenCalled();
+        expect(gameTable.gameState).toBe('PlayerAction');
+        expect(gameTable.isDealerHandHidden()).toBe(true);
+    });
+
+    /**
+	 * @test {GameTable#startNewRound} - Verify the round seed replays the deal
+	 */
+    it('should record the round seed so the deal can be replayed exactly', async () => {
+        // This test needs real shuffles, not the mocked Deck
+        const { Deck: RealDeck } = await vi.importActual<typeof import('../../src/utils/Deck')>('../../src/utils/Deck');
+        gameTable.deck = new RealDeck();
+        mockPlayer1.currentBet = gameTable.gameSettings.minBet;
+        gameTable.addPlayer(mockPlayer1);
+
+        gameTable.startNewRound('replay-me');
+
+        expect(gameTable.roundSeed).toBe('replay-me');
+        const replay = RealDeck.fromSeed('replay-me');
+        expect(mockPlayer1.currentHand).toEqual(replay.deal(7));
+        expect(gameTable.dealerHand.dealtCards).toEqual(replay.deal(7));
+
+        gameTable.startNewRound();
+        expect(gameTable.roundSeed).toMatch(/^[0-9a-f]{64}$/); // A fresh random seed each round
+    });
+});
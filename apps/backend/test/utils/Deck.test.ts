@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { Deck } from '../../src/utils/Deck';
 import { Card } from '../../src/models/Card';
+import type { Rng } from '../../src/utils/rng';
 
 describe('Deck', () => {
 	let deck: Deck;
@@ -107,4 +108,73 @@ describe('Deck', () => {
 		const uniqueCardStrings = new Set(cardStrings);
 		expect(uniqueCardStrings.size).toBe(53);
 	});
-});
\ No newline at end of file
+
+	/**
+	 * @test {Deck#shuffle} - Verify the shuffle draws from the injected generator
+	 * @description A generator that always returns 0 swaps each card with the first, rotating the deck by one.
+	 */
+	it('should shuffle with the injected random number generator', () => {
+		const unshuffled = new Deck().getCards();
+		const alwaysZero: Rng = { randomInt: () => 0 };
+		const rotated = new Deck(alwaysZero);
+		rotated.shuffle();
+
+		expect(rotated.getCards()).toEqual([...unshuffled.slice(1), unshuffled[0]]);
+	});
+
+	/**
+	 * @test {Deck.fromSeed} - Verify seeded shuffles can be replayed
+	 * @description The same seed always gives the same order; a different seed gives a different one.
+	 */
+	it('should give the same order for the same seed', () => {
+		expect(Deck.fromSeed('round-42').getCards()).toEqual(Deck.fromSeed('round-42').getCards());
+		expect(Deck.fromSeed('round-42').getCards()).not.toEqual(Deck.fromSeed('round-43').getCards());
+		expect(Deck.fromSeed('round-42').remainingCards()).toBe(53);
+	});
+
+	/**
+	 * @test {Deck} - Verify configurable deck composition
+	 * @description Multi-deck shoes repeat ranks and suits, but every card keeps a unique id.
+	 */
+	it('should build shoes of several decks with 0 to 2 Jokers each', () => {
+		const noJoker = new Deck(undefined, { deckCount: 1, jokersPerDeck: 0, penetrationPercent: 0 });
+		expect(noJoker.remainingCards()).toBe(52);
+		expect(noJoker.getCards().some((card) => card.rank === 'Joker')).toBe(false);
+
+		const shoe = new Deck(undefined, { deckCount: 6, jokersPerDeck: 2, penetrationPercent: 75 });
+		const cards = shoe.getCards();
+		expect(cards).toHaveLength(324);
+		expect(shoe.size()).toBe(324);
+		expect(cards.filter((card) => card.rank === 'A' && card.suit === 'Spades')).toHaveLength(6);
+		expect(cards.filter((card) => card.rank === 'Joker')).toHaveLength(12);
+		expect(new Set(cards.map((card) => card.id)).size).toBe(324);
+	});
+
+	/**
+	 * @test {Deck#isPastCutCard} - Verify the cut card marks the reshuffle point
+	 * @description A shoe is finished once it is dealt past its penetration, or too short for the next deal.
+	 */
+	it('should come to the cut card at its penetration', () => {
+		const shoe = new Deck(undefined, { deckCount: 2, jokersPerDeck: 0, penetrationPercent: 50 });
+		shoe.deal(49);
+		expect(shoe.isPastCutCard()).toBe(false); // 55 of 104 left, the cut card is at 52
+		expect(shoe.isPastCutCard(56)).toBe(true); // But too short for 8 hands
+		shoe.deal(7);
+		expect(shoe.isPastCutCard()).toBe(true);
+
+		expect(deck.isPastCutCard()).toBe(false); // A single deck with no penetration is finished once dealt from
+		deck.deal(7);
+		expect(deck.isPastCutCard()).toBe(true);
+	});
+
+	/**
+	 * @test {Deck#reset} - Verify a reset can change the shoe
+	 */
+	it('should reset to a new composition', () => {
+		deck.reset({ deckCount: 2, jokersPerDeck: 0, penetrationPercent: 0 });
+		expect(deck.remainingCards()).toBe(104);
+		deck.deal(10);
+		deck.reset();
+		expect(deck.remainingCards()).toBe(104); // Keeps the composition
+	});
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { TableManager } from '../../src/TableManager';
+import { Player } from '../../src/models/Player';
+import type { GameTable } from '../../src/models/GameTable';
+import { createMockWebSocket } from '../helpers/mockWebSocket';
+import {
+	autosaveAllTables,
+	autosaveTable,
+	getAutosavePath,
+	restoreAutosavedTables,
+} from '../../src/utils/autosave';
+
+describe('autosave', () => {
+	let dir: string;
+	let tableManager: TableManager;
+	let player: Player;
+	let table: GameTable;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), 'paigow-autosave-'));
+		tableManager = new TableManager();
+		player = new Player('p1', createMockWebSocket());
+		player.username = 'alice';
+		tableManager.registerPlayer(player);
+		table = tableManager.createTable('table-1');
+		tableManager.joinTable('p1', 'table-1');
+		player.dannyBucks = 1234;
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('should write a table snapshot to its own file', () => {
+		expect(autosaveTable(table, dir)).toBe(true);
+
+		const saved = JSON.parse(fs.readFileSync(getAutosavePath('table-1', dir), 'utf8'));
+		expect(saved.tableId).toBe('table-1');
+		expect(saved.players[0]).toMatchObject({ username: 'alice', dannyBucks: 1234 });
+		expect(fs.readdirSync(dir)).toEqual(['table-1.json']); // No temp file left behind
+	});
+
+	it('should keep table IDs from escaping the autosave directory', () => {
+		expect(path.dirname(getAutosavePath('../../etc/passwd', dir))).toBe(dir);
+	});
+
+	it('should restore saved tables so returning players get their balance back', () => {
+		autosaveAllTables(tableManager, dir);
+
+		// Simulate a restart: a fresh manager and a new connection for the same user
+		const freshManager = new TableManager();
+		const restored = restoreAutosavedTables(freshManager, dir);
+		expect(restored.map(t => t.id)).toEqual(['table-1']);
+		expect(restored[0].getSummary().hostName).toBe('alice');
+
+		const returning = new Player('p2', createMockWebSocket());
+		returning.username = 'alice';
+		freshManager.registerPlayer(returning);
+		const gameTable = freshManager.joinTable('p2', 'table-1');
+		expect(gameTable.claimReservedSeat(returning)).toBe(true);
+		expect(returning.dannyBucks).toBe(1234);
+	});
+
+	it('should keep a restored table and its file while other seats are still reserved', () => {
+		const bob = new Player('p2', createMockWebSocket());
+		bob.username = 'bob';
+		tableManager.registerPlayer(bob);
+		tableManager.joinTable('p2', 'table-1');
+		autosaveAllTables(tableManager, dir);
+
+		// After a restart, alice reclaims her seat and leaves before bob comes back
+		const freshManager = new TableManager();
+		restoreAutosavedTables(freshManager, dir);
+		const returning = new Player('p3', createMockWebSocket());
+		returning.username = 'alice';
+		freshManager.registerPlayer(returning);
+		freshManager.joinTable('p3', 'table-1').claimReservedSeat(returning);
+		freshManager.leaveTable('p3');
+
+		const gameTable = freshManager.getTable('table-1');
+		expect(gameTable?.reservedSeats.has('bob')).toBe(true);
+		autosaveAllTables(freshManager, dir);
+		expect(fs.readdirSync(dir)).toEqual(['table-1.json']);
+	});
+
+	it('should delete autosaves of tables that no longer exist', () => {
+		autosaveAllTables(tableManager, dir);
+		tableManager.leaveTable('p1'); // Last player out disposes the table
+		autosaveAllTables(tableManager, dir);
+		expect(fs.readdirSync(dir)).toEqual([]);
+	});
+
+	it('should skip unreadable or invalid files', () => {
+		fs.writeFileSync(path.join(dir, 'broken.json'), '{ not json');
+		fs.writeFileSync(path.join(dir, 'old.json'), JSON.stringify({ version: 0 }));
+		autosaveTable(table, dir);
+		const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		const freshManager = new TableManager();
+		const restored = restoreAutosavedTables(freshManager, dir);
+		expect(restored).toHaveLength(1);
+		expect(errorSpy).toHaveBeenCalledTimes(2);
+		errorSpy.mockRestore();
+
+		// Set aside for inspection, so cleaning up after disposed tables leaves them alone
+		autosaveAllTables(freshManager, dir);
+		expect(fs.readdirSync(dir).sort()).toEqual(['broken.json.invalid', 'old.json.invalid', 'table-1.json']);
+	});
+
+	it('should restore nothing when the directory does not exist', () => {
+		expect(restoreAutosavedTables(new TableManager(), path.join(dir, 'missing'))).toEqual([]);
+	});
+});
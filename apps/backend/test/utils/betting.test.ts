@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCommission, validateBetAmount } from '../../src/utils/betting';
+import { DEFAULT_GAME_SETTINGS, type GameSettings } from '../../src/models/GameSettings';
+
+describe('validateBetAmount', () => {
+	const settings: GameSettings = { ...DEFAULT_GAME_SETTINGS, minBet: 10, maxBet: 100, betIncrement: 5 };
+
+	it('should accept bets within the limits that the player can afford', () => {
+		expect(validateBetAmount(10, settings, 1000)).toBe(10);
+		expect(validateBetAmount(55, settings, 55)).toBe(55);
+		expect(validateBetAmount(100, settings, 1000)).toBe(100);
+	});
+
+	it('should reject amounts that are not whole numbers', () => {
+		expect(() => validateBetAmount(undefined, settings, 1000)).toThrow('whole number');
+		expect(() => validateBetAmount('20', settings, 1000)).toThrow('whole number');
+		expect(() => validateBetAmount(12.5, settings, 1000)).toThrow('whole number');
+	});
+
+	it('should reject bets outside the table limits', () => {
+		expect(() => validateBetAmount(5, settings, 1000)).toThrow('between 10 and 100');
+		expect(() => validateBetAmount(105, settings, 1000)).toThrow('between 10 and 100');
+	});
+
+	it('should reject bets off the bet increment', () => {
+		expect(() => validateBetAmount(12, settings, 1000)).toThrow('multiple of 5');
+	});
+
+	it('should reject bets larger than the available balance', () => {
+		expect(() => validateBetAmount(50, settings, 45)).toThrow('Insufficient funds');
+	});
+});
+
+describe('calculateCommission', () => {
+	it('should take the percentage rounded to whole DannyBucks', () => {
+		expect(calculateCommission(100, 5)).toBe(5);
+		expect(calculateCommission(10, 5)).toBe(1); // 0.5 rounds up
+		expect(calculateCommission(25, 5)).toBe(1); // 1.25 rounds down
+		expect(calculateCommission(50, 0)).toBe(0);
+	});
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { Deck } from '../../src/utils/Deck';
+import { formatCard, formatCards, parseCard, parseCards } from '../../src/utils/cardNotation';
+
+describe('cardNotation', () => {
+	it('should parse short notation, including tens and the Joker', () => {
+		expect(parseCards('As Kh Td Jk')).toEqual([
+			{ rank: 'A', suit: 'Spades' },
+			{ rank: 'K', suit: 'Hearts' },
+			{ rank: '10', suit: 'Diamonds' },
+			{ rank: 'Joker', suit: 'Joker' },
+		]);
+		// Either case, '10' for ten, commas between cards
+		expect(parseCards('as, KH,10c')).toEqual([{ rank: 'A', suit: 'Spades' }, { rank: 'K', suit: 'Hearts' }, { rank: '10', suit: 'Clubs' }]);
+		expect(parseCards('  ')).toEqual([]);
+	});
+
+	it('should parse Unicode notation, with or without the emoji presentation selector', () => {
+		expect(parseCards('A♠ 10♦ 🃏')).toEqual([{ rank: 'A', suit: 'Spades' }, { rank: '10', suit: 'Diamonds' }, { rank: 'Joker', suit: 'Joker' }]);
+		expect(parseCard('Q♥️')).toEqual({ rank: 'Q', suit: 'Hearts' });
+	});
+
+	it('should format cards in both styles', () => {
+		const cards = parseCards('As Kh Td Jk');
+		expect(formatCards(cards)).toBe('As Kh Td Jk');
+		expect(formatCards(cards, 'unicode')).toBe('A♠ K♥ 10♦ 🃏');
+		expect(formatCard({ rank: '10', suit: 'Clubs', id: '1:10:Clubs' })).toBe('Tc');
+	});
+
+	it('should round-trip every card of a shoe in both styles', () => {
+		const cards = new Deck(undefined, { deckCount: 1, jokersPerDeck: 2, penetrationPercent: 0 }).getCards()
+			.map(({ rank, suit }) => ({ rank, suit }));
+		expect(parseCards(formatCards(cards))).toEqual(cards);
+		expect(parseCards(formatCards(cards, 'unicode'))).toEqual(cards);
+	});
+
+	it('should reject malformed cards, naming the bad entry', () => {
+		for (const code of ['A', 'Ax', '1s', '11h', 'Tj', 'Joker', '']) {
+			expect(() => parseCard(code)).toThrow('Invalid card');
+		}
+		expect(() => parseCards('As Kh Xd')).toThrow('Card 3: Invalid card "Xd"');
+		// Writing never throws, so logs survive odd cards
+		expect(formatCard({ rank: '1', suit: 'Spades' })).toBe('?s');
+		expect(formatCard({ rank: 'A', suit: 'Stars' }, 'unicode')).toBe('A?');
+	});
+});
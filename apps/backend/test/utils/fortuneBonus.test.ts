@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { parseCards as hand } from '../../src/utils/cardNotation';
+import { DEFAULT_GAME_SETTINGS } from '../../src/models/GameSettings';
+import { classifyFortuneHand, resolveFortuneBets } from '../../src/utils/fortuneBonus';
+
+describe('classifyFortuneHand', () => {
+	it('should recognise natural and Joker 7-card straight flushes', () => {
+		expect(classifyFortuneHand(hand('8h 9h Th Jh Qh Kh Ah'))).toBe('SevenCardStraightFlush');
+		expect(classifyFortuneHand(hand('As 2s 3s 4s 5s 6s 7s'))).toBe('SevenCardStraightFlush');
+		expect(classifyFortuneHand(hand('3d 4d Jk 6d 7d 8d 9d'))).toBe('SevenCardStraightFlushWithJoker');
+	});
+
+	it('should find the best 5-card hand among the 7 cards', () => {
+		expect(classifyFortuneHand(hand('As Ah Ad Ac Jk 2h 7d'))).toBe('FiveAces');
+		expect(classifyFortuneHand(hand('Ac Kc Qc Jc Tc 2h 7d'))).toBe('RoyalFlush');
+		expect(classifyFortuneHand(hand('9s 9h 9d 9c 2s 5h Kd'))).toBe('FourOfAKind');
+		expect(classifyFortuneHand(hand('Ks Kh Kd 4c 4s 8h 2d'))).toBe('FullHouse');
+		expect(classifyFortuneHand(hand('2s 5s 9s Js Ks 3h 4d'))).toBe('Flush');
+		expect(classifyFortuneHand(hand('7s 7h 7d 2c 9s Jh Kd'))).toBe('ThreeOfAKind');
+		expect(classifyFortuneHand(hand('4s 5h 6d 7c 8s Kh 2d'))).toBe('Straight');
+	});
+
+	it('should return null for hands below a straight', () => {
+		expect(classifyFortuneHand(hand('As Ah Kd Kc 2s 7h 9d'))).toBeNull();
+	});
+
+	it('should require exactly 7 cards', () => {
+		expect(() => classifyFortuneHand(hand('As Ah'))).toThrow('exactly 7 cards');
+	});
+});
+
+describe('resolveFortuneBets', () => {
+	const quads = hand('9s 9h 9d 9c 2s 5h Kd');
+	const trips = hand('7s 7h 7d 2c Ts Jh Kd');
+	const nothing = hand('As Qh 8d 6c 4s 3h 2d');
+
+	it('should pay the paytable odds and return the stake on a winning hand', () => {
+		const results = resolveFortuneBets([{ playerId: 'p1', username: 'alice', cards: trips, sideBet: 10 }], DEFAULT_GAME_SETTINGS);
+		expect(results.get('p1')).toMatchObject({ hand: 'ThreeOfAKind', payout: 30, envyBonus: 0, totalReturn: 40 });
+	});
+
+	it('should lose the stake on a hand below trips', () => {
+		const results = resolveFortuneBets([{ playerId: 'p1', username: 'alice', cards: nothing, sideBet: 10 }], DEFAULT_GAME_SETTINGS);
+		expect(results.get('p1')).toMatchObject({ hand: null, payout: -10, totalReturn: 0 });
+	});
+
+	it('should pay Envy bonuses for other players\' hands only', () => {
+		const results = resolveFortuneBets([
+			{ playerId: 'p1', username: 'alice', cards: quads, sideBet: 5 },
+			{ playerId: 'p2', username: 'bob', cards: nothing, sideBet: 5 },
+			{ playerId: 'p3', username: 'carol', cards: trips, sideBet: null }, // No side bet, no result
+		], DEFAULT_GAME_SETTINGS);
+
+		expect(results.get('p1')).toMatchObject({ hand: 'FourOfAKind', payout: 125, envyBonus: 0 }); // No Envy on your own hand
+		expect(results.get('p2')).toMatchObject({ payout: -5, envyBonus: 5, envyFrom: ['alice'], totalReturn: 5 });
+		expect(results.has('p3')).toBe(false);
+	});
+
+	it('should follow a custom paytable', () => {
+		const settings = {
+			...DEFAULT_GAME_SETTINGS,
+			fortunePaytable: { ...DEFAULT_GAME_SETTINGS.fortunePaytable, ThreeOfAKind: 0 },
+		};
+		const results = resolveFortuneBets([{ playerId: 'p1', username: 'alice', cards: trips, sideBet: 10 }], settings);
+		expect(results.get('p1')).toMatchObject({ hand: 'ThreeOfAKind', payout: -10, totalReturn: 0 });
+	});
+});
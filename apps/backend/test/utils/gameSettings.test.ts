@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { parseGameSettings } from '../../src/utils/gameSettings';
+import { DEFAULT_GAME_SETTINGS } from '../../src/models/GameSettings';
+
+describe('parseGameSettings', () => {
+	it('should return the defaults when no settings are provided', () => {
+		expect(parseGameSettings(undefined)).toEqual(DEFAULT_GAME_SETTINGS);
+		expect(parseGameSettings({})).toEqual(DEFAULT_GAME_SETTINGS);
+	});
+
+	it('should apply valid overrides and keep defaults for the rest', () => {
+		const settings = parseGameSettings({ startingDB: 500 });
+		expect(settings.startingDB).toBe(500);
+		expect(settings.minBet).toBe(DEFAULT_GAME_SETTINGS.minBet);
+		expect(settings.variant).toBe('FaceUp');
+	});
+
+	it('should not share state with the defaults object', () => {
+		const settings = parseGameSettings(undefined);
+		settings.startingDB = 1;
+		expect(DEFAULT_GAME_SETTINGS.startingDB).toBe(1000);
+	});
+
+	it('should reject non-positive or fractional amounts', () => {
+		expect(() => parseGameSettings({ startingDB: 0 })).toThrow("'startingDB'");
+		expect(() => parseGameSettings({ minBet: 2.5 })).toThrow("'minBet'");
+		expect(() => parseGameSettings({ betIncrement: 0 })).toThrow("'betIncrement'");
+		expect(() => parseGameSettings({ startingDB: '1000' })).toThrow("'startingDB'");
+	});
+
+	it('should reject unsupported variants and non-object input', () => {
+		expect(() => parseGameSettings({ variant: 'Texas' })).toThrow("'variant'");
+		expect(() => parseGameSettings('FaceUp')).toThrow('expected an object');
+	});
+
+	it('should reject a table minimum larger than the starting balance', () => {
+		expect(() => parseGameSettings({ startingDB: 50, minBet: 100 })).toThrow("'minBet' cannot exceed 'startingDB'");
+	});
+
+	it('should reject bet limits that are out of order or off the increment', () => {
+		expect(() => parseGameSettings({ minBet: 100, maxBet: 50 })).toThrow("'minBet' cannot exceed 'maxBet'");
+		expect(() => parseGameSettings({ minBet: 12, betIncrement: 5 })).toThrow("multiples of 'betIncrement'");
+		expect(() => parseGameSettings({ maxBet: 502, betIncrement: 5 })).toThrow("multiples of 'betIncrement'");
+		expect(parseGameSettings({ minBet: 25, maxBet: 1000, betIncrement: 25 })).toMatchObject({ minBet: 25, maxBet: 1000, betIncrement: 25 });
+	});
+
+	it('should accept phase timers from 0 (off) up to an hour', () => {
+		const settings = parseGameSettings({ bettingSeconds: 30, handSettingSeconds: 0, resultDisplaySeconds: 3600 });
+		expect(settings.bettingSeconds).toBe(30);
+		expect(settings.handSettingSeconds).toBe(0);
+		expect(settings.resultDisplaySeconds).toBe(3600);
+		expect(() => parseGameSettings({ bettingSeconds: -1 })).toThrow("'bettingSeconds'");
+		expect(() => parseGameSettings({ handSettingSeconds: 3601 })).toThrow("'handSettingSeconds'");
+		expect(() => parseGameSettings({ resultDisplaySeconds: 1.5 })).toThrow("'resultDisplaySeconds'");
+	});
+
+	it('should merge Fortune paytable overrides over the defaults', () => {
+		const settings = parseGameSettings({ fortunePaytable: { Straight: 1 }, envyBonuses: { FourOfAKind: 10 } });
+		expect(settings.fortunePaytable.Straight).toBe(1);
+		expect(settings.fortunePaytable.FiveAces).toBe(DEFAULT_GAME_SETTINGS.fortunePaytable.FiveAces);
+		expect(settings.envyBonuses.FourOfAKind).toBe(10);
+		expect(() => parseGameSettings({ fortunePaytable: { Pair: 1 } })).toThrow("'fortunePaytable.Pair'");
+		expect(() => parseGameSettings({ fortunePaytable: { Flush: -1 } })).toThrow('non-negative');
+		expect(() => parseGameSettings({ envyBonuses: { FullHouse: 5 } })).toThrow("'envyBonuses.FullHouse'");
+	});
+
+	it('should accept the Classic variant with a commission rate', () => {
+		const settings = parseGameSettings({ variant: 'Classic', commissionPercent: 2.5 });
+		expect(settings.variant).toBe('Classic');
+		expect(settings.commissionPercent).toBe(2.5);
+		expect(parseGameSettings({ variant: 'CommissionFree' }).variant).toBe('CommissionFree');
+		expect(() => parseGameSettings({ commissionPercent: -1 })).toThrow("'commissionPercent'");
+		expect(() => parseGameSettings({ commissionPercent: 30 })).toThrow("'commissionPercent'");
+	});
+
+	it('should read the player banking switch', () => {
+		expect(parseGameSettings({}).playerBanking).toBe(false);
+		expect(parseGameSettings({ playerBanking: true }).playerBanking).toBe(true);
+		expect(() => parseGameSettings({ playerBanking: 'yes' })).toThrow("'playerBanking'");
+	});
+
+	it('should accept registered house ways only', () => {
+		expect(parseGameSettings({}).houseWay).toBe('MaximizeLow');
+		expect(parseGameSettings({ houseWay: 'LasVegas' }).houseWay).toBe('LasVegas');
+		expect(() => parseGameSettings({ houseWay: 'Macau' })).toThrow("'houseWay'");
+	});
+
+	it('should read the deck composition within its limits', () => {
+		const settings = parseGameSettings({ deckCount: 6, jokersPerDeck: 2, penetrationPercent: 75 });
+		expect([settings.deckCount, settings.jokersPerDeck, settings.penetrationPercent]).toEqual([6, 2, 75]);
+		expect(parseGameSettings({}).deckCount).toBe(1);
+		expect(parseGameSettings({ jokersPerDeck: 0 }).jokersPerDeck).toBe(0);
+		expect(() => parseGameSettings({ deckCount: 0 })).toThrow("'deckCount'");
+		expect(() => parseGameSettings({ deckCount: 9 })).toThrow("'deckCount'");
+		expect(() => parseGameSettings({ jokersPerDeck: 3 })).toThrow("'jokersPerDeck'");
+		expect(() => parseGameSettings({ penetrationPercent: 95 })).toThrow("'penetrationPercent'");
+		expect(() => parseGameSettings({ penetrationPercent: 50.5 })).toThrow('whole number');
+	});
+});
+
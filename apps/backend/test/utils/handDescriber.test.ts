@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { parseCards as hand } from '../../src/utils/cardNotation';
+import { evaluate2CardHand, evaluate5CardHand } from '../../src/utils/handEvaluator';
+import { describeHand, explainComparison, reportHand } from '../../src/utils/handDescriber';
+
+describe('handDescriber', () => {
+	it('should describe every kind of 5-card hand', () => {
+		const cases: [string, string][] = [
+			['AS AH AD AC JK', 'Five Aces'],
+			['AS KS QS JS 10S', 'Royal Flush'],
+			['9C 8C 7C 6C 5C', 'Straight Flush, Nine high'],
+			['7S 7H 7D 7C KS', 'Four of a Kind, Sevens, King kicker'],
+			['JS JH JD 5C 5S', 'Full House, Jacks over Fives'],
+			['KH QH 9H 6H 2H', 'Flush, King high'],
+			['AS 2H 3D 4C 5S', 'Straight, Five high'],
+			['7S 7H 7D 2C KS', 'Three of a Kind, Sevens, King kicker'],
+			['KS KH 7D 7C AS', 'Two Pair, Kings and Sevens, Ace kicker'],
+			['AS AH 9D 4C 2S', 'Pair of Aces, Nine kicker'],
+			['KS JH 9D 4C 2S', 'King high'],
+		];
+		for (const [cards, description] of cases) {
+			expect(describeHand(evaluate5CardHand(hand(cards)))).toBe(description);
+		}
+	});
+
+	it('should mark 2-card hands as the low hand', () => {
+		expect(describeHand(evaluate2CardHand(hand('AS JK')), 'low')).toBe('Pair of Aces (low hand)');
+		expect(describeHand(evaluate2CardHand(hand('QH AS')), 'low')).toBe('Ace-Queen high (low hand)');
+	});
+
+	it('should explain the difference that decided a comparison, from the winner\'s side', () => {
+		const pairQueenKicker = evaluate5CardHand(hand('KS KH QD 4C 2S'));
+		const pairJackKicker = evaluate5CardHand(hand('KD KC JD 4H 2H'));
+		expect(explainComparison(pairQueenKicker, pairJackKicker)).toBe('higher kicker: Q vs J');
+		expect(explainComparison(pairJackKicker, pairQueenKicker)).toBe('higher kicker: Q vs J');
+
+		expect(explainComparison(evaluate5CardHand(hand('KH QH 9H 6H 2H')), evaluate5CardHand(hand('AS 2H 3D 4C 5S')))).toBe('Flush beats Straight');
+		expect(explainComparison(evaluate5CardHand(hand('KS KH 7D 7C AS')), evaluate5CardHand(hand('KD KC 6D 6C AH')))).toBe('higher second pair: 7 vs 6');
+		expect(explainComparison(evaluate2CardHand(hand('AS QH')), evaluate2CardHand(hand('AH QD')))).toBe('identical hands');
+	});
+
+	it('should report a hand against the dealer\'s', () => {
+		const report = reportHand(evaluate2CardHand(hand('KS 9H')), evaluate2CardHand(hand('QS QD')), 'low');
+		expect(report).toEqual({
+			description: 'King-Nine high (low hand)',
+			versus: 'Pair of Queens (low hand)',
+			outcome: 'Loss',
+			reason: 'One Pair beats High Card',
+		});
+	});
+});
@@ -0,0 +1,29 @@
+import { bench, describe } from 'vitest';
+import type { Card } from '../../src/models/Card';
+import { Deck } from '../../src/utils/Deck';
+import { compareEvaluatedHands, evaluate2CardHand, evaluate5CardHand } from '../../src/utils/handEvaluator';
+import { evaluate2CardHandFast, evaluate5CardHandFast, get2CardStrength, get5CardStrength } from '../../src/utils/lookupEvaluator';
+
+// The same 1000 dealt hands for every benchmark: 7 cards split as the first 5 and the last 2
+const hands: Card[][] = Array.from({ length: 1000 }, (_, index) => Deck.fromSeed(`bench-${index}`).deal(7));
+get5CardStrength(hands[0].slice(0, 5)); // Build the lookup tables before timing
+
+describe('evaluate a 5-card and a 2-card hand', () => {
+	bench('evaluate5CardHand + evaluate2CardHand', () => {
+		for (const hand of hands) {
+			compareEvaluatedHands(evaluate5CardHand(hand.slice(0, 5)), evaluate2CardHand(hand.slice(5)));
+		}
+	});
+
+	bench('evaluate5CardHandFast + evaluate2CardHandFast', () => {
+		for (const hand of hands) {
+			compareEvaluatedHands(evaluate5CardHandFast(hand.slice(0, 5)), evaluate2CardHandFast(hand.slice(5)));
+		}
+	});
+
+	bench('get5CardStrength + get2CardStrength', () => {
+		for (const hand of hands) {
+			get5CardStrength(hand.slice(0, 5)) - get2CardStrength(hand.slice(5));
+		}
+	});
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import type { Card } from '../../src/models/Card';
+import { Deck } from '../../src/utils/Deck';
+import { compareEvaluatedHands, evaluate2CardHand, evaluate5CardHand } from '../../src/utils/handEvaluator';
+import { evaluate2CardHandFast, evaluate5CardHandFast, get2CardStrength, get5CardStrength } from '../../src/utils/lookupEvaluator';
+import { createSeededRng } from '../../src/utils/rng';
+
+/**
+ * Draws seeded random hands from a shoe with duplicate cards and two Jokers per deck, so every kind of hand turns up.
+ */
+function randomHands(seed: string, size: number, count: number): Card[][] {
+	const rng = createSeededRng(seed);
+	const shoe = new Deck(undefined, { deckCount: 2, jokersPerDeck: 2, penetrationPercent: 0 }).getCards();
+	return Array.from({ length: count }, () => {
+		const hand: Card[] = [];
+		const used = new Set<number>();
+		while (hand.length < size) {
+			const index = rng.randomInt(shoe.length);
+			if (!used.has(index)) {
+				used.add(index);
+				hand.push(shoe[index]);
+			}
+		}
+		return hand;
+	});
+}
+
+describe('lookupEvaluator', () => {
+	it('should match the reference evaluator on every hand it is given', () => {
+		for (const hand of randomHands('five', 5, 5000)) {
+			const { strength, ...evaluation } = evaluate5CardHandFast(hand);
+			const { jokerSubstitutions, ...reference } = evaluate5CardHand(hand); // Not kept in the tables
+			expect(evaluation).toEqual(reference);
+			expect(get5CardStrength(hand)).toBe(strength);
+		}
+		for (const hand of randomHands('two', 2, 500)) {
+			const { strength, ...evaluation } = evaluate2CardHandFast(hand);
+			const { jokerSubstitutions, ...reference } = evaluate2CardHand(hand);
+			expect(evaluation).toEqual(reference);
+			expect(get2CardStrength(hand)).toBe(strength);
+		}
+	});
+
+	it('should order hands of both sizes exactly as compareEvaluatedHands does', () => {
+		const fives = randomHands('high', 5, 2000);
+		const twos = randomHands('low', 2, 2000);
+		fives.forEach((high, index) => {
+			const other = fives[(index + 1) % fives.length];
+			const low = twos[index];
+			expect(Math.sign(get5CardStrength(high) - get5CardStrength(other))).toBe(compareEvaluatedHands(evaluate5CardHand(high), evaluate5CardHand(other)));
+			expect(Math.sign(get5CardStrength(high) - get2CardStrength(low))).toBe(compareEvaluatedHands(evaluate5CardHand(high), evaluate2CardHand(low)));
+			expect(compareEvaluatedHands(evaluate5CardHandFast(high), evaluate2CardHandFast(low))).toBe(compareEvaluatedHands(evaluate5CardHand(high), evaluate2CardHand(low)));
+		});
+	});
+
+	it('should reject hands of the wrong size', () => {
+		expect(() => evaluate5CardHandFast(randomHands('short', 4, 1)[0])).toThrow('exactly 5 cards');
+		expect(() => get2CardStrength(randomHands('long', 3, 1)[0])).toThrow('exactly 2 cards');
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { Deck, STANDARD_DECK_CONFIG } from '../../src/utils/Deck';
+import { DEFAULT_GAME_SETTINGS } from '../../src/models/GameSettings';
+import {
+	addClientSeed,
+	combineRoundSeed,
+	createRoundFairness,
+	sha256Hex,
+	validateClientSeed,
+	verifyRound,
+} from '../../src/utils/provablyFair';
+
+describe('provablyFair', () => {
+	it('should commit to the server seed without revealing it', () => {
+		const fairness = createRoundFairness();
+		expect(fairness.seedCommitment).toBe(sha256Hex(fairness.serverSeed));
+		expect(fairness.seedCommitment).not.toContain(fairness.serverSeed);
+		expect(fairness.clientSeeds).toEqual([]);
+	});
+
+	it('should let every client seed change the round seed', () => {
+		const fairness = createRoundFairness();
+		const withoutClients = combineRoundSeed(fairness.serverSeed, []);
+		expect(withoutClients).not.toBe(fairness.seedCommitment); // The commitment never gives the deal away
+		addClientSeed(fairness, 'alice', 'lucky');
+		const withAlice = combineRoundSeed(fairness.serverSeed, fairness.clientSeeds);
+		addClientSeed(fairness, 'alice', 'luckier'); // Replaces her seed, keeps her place
+		addClientSeed(fairness, 'bob', 'seven');
+
+		expect(fairness.clientSeeds).toEqual([{ username: 'alice', clientSeed: 'luckier' }, { username: 'bob', clientSeed: 'seven' }]);
+		expect(new Set([withoutClients, withAlice, combineRoundSeed(fairness.serverSeed, fairness.clientSeeds)]).size).toBe(3);
+	});
+
+	it('should rebuild the deck from the revealed values and check the commitment', () => {
+		const fairness = createRoundFairness();
+		addClientSeed(fairness, 'alice', 'lucky');
+
+		const verification = verifyRound(fairness);
+		expect(verification.commitmentMatches).toBe(true);
+		expect(verification.roundSeed).toBe(combineRoundSeed(fairness.serverSeed, fairness.clientSeeds));
+		expect(verification.deck).toEqual(Deck.fromSeed(verification.roundSeed).getCards());
+		expect(verification.deck).toHaveLength(53);
+
+		// A server seed swapped after the commitment is caught
+		expect(verifyRound({ ...fairness, serverSeed: createRoundFairness().serverSeed }).commitmentMatches).toBe(false);
+	});
+
+	it('should rebuild the same deck as the browser verifier', () => {
+		// The frontend verifier test expects the same first hand for these values
+		const { deck } = verifyRound({
+			serverSeed: 'server-seed',
+			seedCommitment: sha256Hex('server-seed'),
+			clientSeeds: [{ username: 'alice', clientSeed: 'lucky' }],
+			shoe: STANDARD_DECK_CONFIG,
+		});
+		expect(deck.slice(-7).map(card => card.id)).toEqual(['1:4:Diamonds', '1:5:Spades', '1:J:Hearts', '1:K:Clubs', '1:3:Diamonds', '1:7:Hearts', '1:8:Hearts']);
+	});
+
+	it('should rebuild the whole shoe the commitment was made for', () => {
+		const shoe = { deckCount: 2, jokersPerDeck: 2, penetrationPercent: 75 };
+		const fairness = createRoundFairness(shoe);
+
+		const { deck, roundSeed } = verifyRound(fairness);
+		expect(deck).toHaveLength(108);
+		expect(new Set(deck.map(card => card.id)).size).toBe(108);
+		expect(deck).toEqual(Deck.fromSeed(roundSeed, shoe).getCards());
+	});
+
+	it('should keep only the shoe from the table settings it is given', () => {
+		const fairness = createRoundFairness({ ...DEFAULT_GAME_SETTINGS, deckCount: 2 });
+		expect(fairness.shoe).toEqual({
+			deckCount: 2,
+			jokersPerDeck: DEFAULT_GAME_SETTINGS.jokersPerDeck,
+			penetrationPercent: DEFAULT_GAME_SETTINGS.penetrationPercent,
+		});
+	});
+
+	it('should rebuild the same shoe as the browser verifier', () => {
+		// The frontend verifier test expects the same first hand, holding the Ace of Clubs from both decks
+		const { deck } = verifyRound({
+			serverSeed: 'server-seed',
+			seedCommitment: sha256Hex('server-seed'),
+			clientSeeds: [{ username: 'alice', clientSeed: 'lucky' }],
+			shoe: { deckCount: 2, jokersPerDeck: 2, penetrationPercent: 75 },
+		});
+		expect(deck.slice(-7).map(card => card.id)).toEqual(['1:A:Clubs', '1:6:Spades', '2:3:Diamonds', '2:A:Clubs', '2:J:Clubs', '2:10:Diamonds', '1:10:Spades']);
+	});
+
+	it('should reject empty, overlong or non-printable client seeds', () => {
+		expect(validateClientSeed('a1b2c3')).toBe('a1b2c3');
+		expect(() => validateClientSeed('')).toThrow('Client seed');
+		expect(() => validateClientSeed('x'.repeat(65))).toThrow('Client seed');
+		expect(() => validateClientSeed('tab\there')).toThrow('Client seed');
+		expect(() => validateClientSeed(42)).toThrow('Client seed');
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRng, cryptoRng, generateSeed } from '../../src/utils/rng';
+
+describe('rng', () => {
+	it('should repeat the same numbers for the same seed', () => {
+		const draw = (seed: string) => {
+			const rng = createSeededRng(seed);
+			return Array.from({ length: 20 }, () => rng.randomInt(53));
+		};
+		expect(draw('abc')).toEqual(draw('abc'));
+		expect(draw('abc')).not.toEqual(draw('abd'));
+	});
+
+	it('should stay within range and reach every value', () => {
+		const rng = createSeededRng(generateSeed());
+		const seen = new Set<number>();
+		for (let i = 0; i < 500; i++) {
+			const value = rng.randomInt(7);
+			expect(value).toBeGreaterThanOrEqual(0);
+			expect(value).toBeLessThan(7);
+			seen.add(value);
+		}
+		expect(seen.size).toBe(7);
+		expect(cryptoRng.randomInt(1)).toBe(0);
+	});
+
+	it('should reject an empty or fractional range', () => {
+		const rng = createSeededRng('abc');
+		expect(() => rng.randomInt(0)).toThrow();
+		expect(() => rng.randomInt(2.5)).toThrow();
+	});
+
+	it('should generate 32-byte hex seeds', () => {
+		expect(generateSeed()).toMatch(/^[0-9a-f]{64}$/);
+		expect(generateSeed()).not.toBe(generateSeed());
+	});
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { parseCards as cards } from '../../src/utils/cardNotation';
+import { DEFAULT_GAME_SETTINGS } from '../../src/models/GameSettings';
+import { getVariant } from '../../src/variants/registry';
+import { getAllValidSplits } from '../../src/utils/houseWay';
+import { estimateHiddenDealerSplits, type AdvisorOptions } from '../../src/utils/splitAdvisor';
+
+// Small seeded generator (mulberry32) so the sampled dealer hands repeat from run to run
+const seededRandom = (seed: number) => {
+	let state = seed;
+	return () => {
+		state = (state + 0x6d2b79f5) | 0;
+		let t = Math.imul(state ^ (state >>> 15), 1 | state);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+};
+
+const options = (variant: string, overrides: Partial<AdvisorOptions> = {}): AdvisorOptions => ({
+	variant: getVariant(variant),
+	houseWay: 'MaximizeLow',
+	settings: DEFAULT_GAME_SETTINGS,
+	betAmount: 100,
+	dealerPushes: true,
+	timeBudgetMs: 10_000,
+	maxSamples: 400,
+	random: seededRandom(7),
+	...overrides,
+});
+
+describe('estimateHiddenDealerSplits', () => {
+	const playerCards = cards('As Ah Kd Kc 9s 6h 3d');
+
+	it('should estimate every valid split from the sampled dealer hands, best expected value first', async () => {
+		const { splits, samples } = await estimateHiddenDealerSplits(playerCards, options('Classic'));
+
+		expect(samples).toBe(400);
+		expect(splits).toHaveLength(getAllValidSplits(playerCards).length);
+		splits.forEach((split) => {
+			expect(split.winProbability + split.pushProbability + split.lossProbability).toBeCloseTo(1);
+		});
+		splits.slice(1).forEach((split, index) => {
+			expect(split.expectedValue).toBeLessThanOrEqual(splits[index].expectedValue);
+		});
+		// Aces and Kings are strong enough to play together or split, and both beat most dealer hands
+		expect(splits[0].expectedValue).toBeGreaterThan(0);
+	});
+
+	it('should price the commission into the expected value', async () => {
+		const classic = (await estimateHiddenDealerSplits(playerCards, options('Classic'))).splits[0];
+		const free = (await estimateHiddenDealerSplits(playerCards, options('Classic', { settings: { ...DEFAULT_GAME_SETTINGS, commissionPercent: 0 } }))).splits[0];
+
+		expect(free.winProbability).toBe(classic.winProbability); // Same samples, same results
+		expect(free.expectedValue - classic.expectedValue).toBeCloseTo(classic.winProbability * 0.05);
+	});
+
+	it('should count dealer pushes only when the dealer banks', async () => {
+		// Queen-high dealer hands push in the Commission-Free variant, but not a player banker's
+		const dealerBanks = (await estimateHiddenDealerSplits(playerCards, options('CommissionFree'))).splits[0];
+		const playerBanks = (await estimateHiddenDealerSplits(playerCards, options('CommissionFree', { dealerPushes: false }))).splits[0];
+
+		expect(dealerBanks.pushProbability).toBeGreaterThan(playerBanks.pushProbability);
+	});
+
+	it('should give each estimate its sampling error and mark the splits it cannot tell from the best', async () => {
+		const { splits } = await estimateHiddenDealerSplits(playerCards, options('Classic'));
+
+		splits.forEach((split) => {
+			expect(split.standardError).toBeGreaterThan(0);
+			expect(split.standardError).toBeLessThan(0.1); // About 1 / sqrt(400)
+		});
+		expect(splits[0].closeToBest).toBe(true);
+		expect(splits.at(-1)?.closeToBest).toBe(false);
+	});
+
+	it('should let other work run while it samples', async () => {
+		let ranMeanwhile = false;
+		setImmediate(() => { ranMeanwhile = true; });
+		const { samples } = await estimateHiddenDealerSplits(playerCards, options('Classic', { timeBudgetMs: 30, maxSamples: undefined }));
+
+		expect(samples).toBeGreaterThan(0);
+		expect(ranMeanwhile).toBe(true);
+	});
+});
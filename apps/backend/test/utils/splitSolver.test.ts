@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { parseCards as cards } from '../../src/utils/cardNotation';
+import { getAllValidSplits } from '../../src/utils/houseWay';
+import { solveFaceUpSplits } from '../../src/utils/splitSolver';
+
+describe('solveFaceUpSplits', () => {
+	const dealerHand = { highHand: cards('Qs Qh 7d 7c 3s'), lowHand: cards('Jh 5d') };
+	const playerCards = cards('Ks Kh 9d 9c As 8h 2d');
+
+	it('should rank every valid split, wins first and the strongest low hand first', () => {
+		const splits = solveFaceUpSplits(playerCards, dealerHand, 'Dealer');
+
+		expect(splits).toHaveLength(getAllValidSplits(playerCards).length);
+		// Only Kings and 9s beat the dealer's Queens and 7s, leaving A-8 or A-2 to beat J-5
+		expect(splits.filter(split => split.outcome === 'Win').map(split => split.lowHand.map(card => card.rank))).toEqual([['A', '8'], ['A', '2']]);
+		expect(splits[0]).toMatchObject({ highComparison: 1, lowComparison: 1 });
+
+		const order = { Win: 0, Push: 1, Loss: 2 };
+		splits.slice(1).forEach((split, index) => {
+			expect(order[split.outcome]).toBeGreaterThanOrEqual(order[splits[index].outcome]);
+		});
+	});
+
+	it('should apply the table copy rule to copied hands', () => {
+		// Kings and 9s win the high hand; J-5 copies the dealer's low hand
+		const copyCards = cards('Ks Kh 9d 9c Js 5h 2d');
+		const copiedSplit = (copyRule: 'Dealer' | 'Push') => solveFaceUpSplits(copyCards, dealerHand, copyRule)
+			.find(split => split.lowHand.map(card => card.rank).join() === 'J,5');
+
+		expect(copiedSplit('Dealer')).toMatchObject({ highComparison: 1, lowComparison: 0, outcome: 'Push' });
+		expect(copiedSplit('Push')).toMatchObject({ highComparison: 1, lowComparison: 0, outcome: 'Win' });
+	});
+});
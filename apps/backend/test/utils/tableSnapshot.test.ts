@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameTable } from '../../src/models/GameTable';
+import { Player } from '../../src/models/Player';
+import type { Card } from '../../src/models/Card';
+import { DEFAULT_GAME_SETTINGS } from '../../src/models/GameSettings';
+import { createMockWebSocket } from '../helpers/mockWebSocket';
+import {
+	TABLE_SNAPSHOT_VERSION,
+	applyTableSnapshot,
+	createDownloadSnapshot,
+	createTableSnapshot,
+	parseTableSnapshot,
+} from '../../src/utils/tableSnapshot';
+import { combineRoundSeed } from '../../src/utils/provablyFair';
+
+const createPlayer = (id: string, username: string): Player => {
+	const player = new Player(id, createMockWebSocket());
+	player.username = username;
+	return player;
+};
+
+const hand: Card[] = [
+	{ rank: 'A', suit: 'Spades' }, { rank: 'K', suit: 'Spades' }, { rank: 'Q', suit: 'Spades' },
+	{ rank: 'J', suit: 'Spades' }, { rank: '10', suit: 'Spades' }, { rank: '2', suit: 'Hearts' },
+	{ rank: '3', suit: 'Hearts' },
+];
+
+describe('tableSnapshot', () => {
+	let gameTable: GameTable;
+	let alice: Player;
+	let bob: Player;
+
+	beforeEach(() => {
+		gameTable = new GameTable('table-1', { ...DEFAULT_GAME_SETTINGS, startingDB: 500, minBet: 20 });
+		alice = createPlayer('p1', 'alice');
+		bob = createPlayer('p2', 'bob');
+		gameTable.addPlayer(alice); // First player becomes host
+		gameTable.addPlayer(bob);
+		alice.dannyBucks = 480;
+		alice.currentBet = 20;
+		alice.currentHand = hand.map(card => ({ ...card }));
+		bob.dannyBucks = 520;
+		gameTable.gameState = 'PlayerAction';
+		// Remove alice's cards from the deck so the snapshot has no duplicates
+		const handKeys = new Set(hand.map(card => `${card.rank}-${card.suit}`));
+		gameTable.deck.setCards(gameTable.deck.getCards().filter(card => !handKeys.has(`${card.rank}-${card.suit}`)));
+	});
+
+	it('should capture the table by username without connection details', () => {
+		const snapshot = createTableSnapshot(gameTable);
+		expect(snapshot.version).toBe(TABLE_SNAPSHOT_VERSION);
+		expect(snapshot.hostUsername).toBe('alice');
+		expect(snapshot.players.map(p => p.username)).toEqual(['alice', 'bob']);
+		expect(snapshot.players[0]).not.toHaveProperty('id');
+		expect(snapshot.deck).toHaveLength(53 - hand.length);
+	});
+
+	it('should survive a JSON round-trip unchanged', () => {
+		const snapshot = createTableSnapshot(gameTable);
+		const parsed = parseTableSnapshot(JSON.parse(JSON.stringify(snapshot)));
+		expect(parsed).toEqual(snapshot);
+	});
+
+	it('should leave the shoe out of the host download and reshuffle when it is loaded', () => {
+		gameTable.gameState = 'Betting';
+		alice.currentHand = null;
+		gameTable.roundSeed = 'shoe-in-play';
+		const download = createDownloadSnapshot(gameTable);
+		expect(download.deck).toEqual([]);
+		expect(download.roundSeed).toBeNull();
+		expect(download.players[0].dannyBucks).toBe(480);
+
+		const restored = new GameTable('table-2');
+		applyTableSnapshot(restored, parseTableSnapshot(JSON.parse(JSON.stringify(download))));
+		expect(restored.roundSeed).toBeNull(); // The next deal shuffles a new shoe
+		expect(restored.fairness).not.toBeNull();
+	});
+
+	it('should restore the table and reserve seats until players return', () => {
+		const snapshot = parseTableSnapshot(JSON.parse(JSON.stringify(createTableSnapshot(gameTable))));
+		const restored = new GameTable('table-2');
+		applyTableSnapshot(restored, snapshot);
+
+		expect(restored.gameState).toBe('PlayerAction');
+		expect(restored.gameSettings.startingDB).toBe(500);
+		expect(restored.deck.remainingCards()).toBe(53 - hand.length);
+		expect(Array.from(restored.reservedSeats.keys())).toEqual(['alice', 'bob']);
+
+		// Bob comes back first, then alice reclaims both her seat and the host role
+		const newBob = createPlayer('p3', 'bob');
+		restored.addPlayer(newBob);
+		expect(restored.claimReservedSeat(newBob)).toBe(true);
+		expect(newBob.dannyBucks).toBe(520);
+		expect(newBob.isHost).toBe(true);
+
+		const newAlice = createPlayer('p4', 'alice');
+		restored.addPlayer(newAlice);
+		expect(restored.claimReservedSeat(newAlice)).toBe(true);
+		expect(newAlice.dannyBucks).toBe(480);
+		expect(newAlice.currentBet).toBe(20);
+		expect(newAlice.currentHand).toEqual(hand);
+		expect(newAlice.isHost).toBe(true);
+		expect(newBob.isHost).toBe(false);
+		expect(restored.reservedSeats.size).toBe(0);
+	});
+
+	it('should not let a player claim a seat that is not theirs', () => {
+		const restored = new GameTable('table-2');
+		applyTableSnapshot(restored, createTableSnapshot(gameTable));
+		const stranger = createPlayer('p5', 'carol');
+		restored.addPlayer(stranger);
+		expect(restored.claimReservedSeat(stranger)).toBe(false);
+		expect(restored.reservedSeats.size).toBe(2);
+	});
+
+	it('should keep unclaimed seats in the next snapshot', () => {
+		const restored = new GameTable('table-2');
+		applyTableSnapshot(restored, createTableSnapshot(gameTable));
+		const resaved = createTableSnapshot(restored);
+		expect(resaved.players.map(p => p.username).sort()).toEqual(['alice', 'bob']);
+		expect(resaved.hostUsername).toBe('alice');
+	});
+
+	it('should reject unsupported versions and malformed input', () => {
+		const snapshot = createTableSnapshot(gameTable);
+		expect(() => parseTableSnapshot('not a snapshot')).toThrow('expected a JSON object');
+		expect(() => parseTableSnapshot({ ...snapshot, version: 99 })).toThrow('Unsupported snapshot version');
+		expect(() => parseTableSnapshot({ ...snapshot, gameState: 'Lunch' })).toThrow("unknown game state 'Lunch'");
+		expect(() => parseTableSnapshot({ ...snapshot, gameState: 'Dealing' })).toThrow("middle of 'Dealing'");
+		expect(() => parseTableSnapshot({ ...snapshot, gameState: 'Showdown' })).toThrow("middle of 'Showdown'");
+		expect(() => parseTableSnapshot({ ...snapshot, gameSettings: { startingDB: -5 } })).toThrow("'startingDB'");
+	});
+
+	it('should reject invalid players and cards', () => {
+		const snapshot = createTableSnapshot(gameTable);
+		const duplicatePlayers = [...snapshot.players, { ...snapshot.players[1] }];
+		expect(() => parseTableSnapshot({ ...snapshot, players: duplicatePlayers })).toThrow('usernames must be unique');
+
+		const brokeAlice = [{ ...snapshot.players[0], dannyBucks: -1 }, snapshot.players[1]];
+		expect(() => parseTableSnapshot({ ...snapshot, players: brokeAlice })).toThrow("'players[0].dannyBucks'");
+
+		const badDeck = [{ rank: '1', suit: 'Spades' }, ...snapshot.deck.slice(1)];
+		expect(() => parseTableSnapshot({ ...snapshot, deck: badDeck })).toThrow("'deck[0]'");
+	});
+
+	it('should reject a card that appears more than once', () => {
+		const snapshot = createTableSnapshot(gameTable);
+		const deckWithDuplicate = [...snapshot.deck, { rank: 'A', suit: 'Spades' }]; // Already in alice's hand
+		expect(() => parseTableSnapshot({ ...snapshot, deck: deckWithDuplicate })).toThrow('same card appears more than once');
+	});
+
+	it('should tell the cards of a multi-deck shoe apart by id', () => {
+		gameTable.gameSettings = { ...gameTable.gameSettings, deckCount: 2 };
+		const snapshot = createTableSnapshot(gameTable);
+		const secondDeck = [{ rank: 'A', suit: 'Spades', id: '2:A:Spades' }, { rank: 'A', suit: 'Spades', id: '3:A:Spades' }];
+		const parsed = parseTableSnapshot({ ...snapshot, deck: [...snapshot.deck, ...secondDeck] });
+		expect(parsed.deck.slice(-2)).toEqual(secondDeck);
+		expect(() => parseTableSnapshot({ ...snapshot, deck: [...snapshot.deck, secondDeck[0], secondDeck[0]] })).toThrow('same card appears more than once');
+		expect(() => parseTableSnapshot({ ...snapshot, deck: [{ ...secondDeck[0], id: 7 }] })).toThrow("'deck[0]'");
+
+		applyTableSnapshot(gameTable, parsed);
+		expect(gameTable.deck.size()).toBe(106); // The restored shoe keeps its composition
+	});
+
+	it('should save a paused table as the phase it interrupted', () => {
+		gameTable.pause();
+		const snapshot = createTableSnapshot(gameTable);
+		expect(snapshot.gameState).toBe('PlayerAction');
+		expect(() => parseTableSnapshot(snapshot)).not.toThrow();
+	});
+
+	it('should accept seats saved before side bets existed', () => {
+		const snapshot = JSON.parse(JSON.stringify(createTableSnapshot(gameTable)));
+		const { sideBet, ...olderSeat } = snapshot.players[0];
+		snapshot.players[0] = olderSeat;
+		expect(parseTableSnapshot(snapshot).players[0].sideBet).toBeNull();
+		expect(() => parseTableSnapshot({ ...snapshot, players: [{ ...snapshot.players[0], sideBet: -5 }] })).toThrow("'players[0].sideBet'");
+	});
+
+	it('should keep the banker of a player-banked round, whose cards double as the dealer hand', () => {
+		gameTable.bankerUsername = 'alice';
+		gameTable.dealerHand = { dealtCards: hand.map(card => ({ ...card })), highHand: null, lowHand: null, isAceHighPaiGow: false };
+		const snapshot = JSON.parse(JSON.stringify(createTableSnapshot(gameTable)));
+		expect(parseTableSnapshot(snapshot).bankerUsername).toBe('alice');
+
+		applyTableSnapshot(gameTable, parseTableSnapshot(snapshot));
+		expect(gameTable.bankerUsername).toBe('alice');
+		expect(() => parseTableSnapshot({ ...snapshot, bankerUsername: 'mallory' })).toThrow("'bankerUsername'");
+
+		const { bankerUsername, ...olderSnapshot } = snapshot; // Saved before player banking existed
+		olderSnapshot.dealerHand.dealtCards = null;
+		expect(parseTableSnapshot(olderSnapshot).bankerUsername).toBeNull();
+	});
+
+	it('should keep the round seed, which is optional in older files', () => {
+		gameTable.roundSeed = 'seed-1';
+		const snapshot = JSON.parse(JSON.stringify(createTableSnapshot(gameTable)));
+		applyTableSnapshot(gameTable, parseTableSnapshot(snapshot));
+		expect(gameTable.roundSeed).toBe('seed-1');
+		expect(() => parseTableSnapshot({ ...snapshot, roundSeed: 42 })).toThrow("'roundSeed'");
+
+		const { roundSeed, ...olderSnapshot } = snapshot; // Saved before round seeds were recorded
+		expect(parseTableSnapshot(olderSnapshot).roundSeed).toBeNull();
+	});
+
+	it('should never save the secret server seed, and commit to a new one when restored into betting', () => {
+		gameTable.gameState = 'Betting';
+		const { serverSeed } = gameTable.openSeedCommitment();
+		const saved = JSON.stringify(createTableSnapshot(gameTable));
+		expect(saved).not.toContain(serverSeed);
+
+		applyTableSnapshot(gameTable, parseTableSnapshot(JSON.parse(saved)));
+		expect(gameTable.fairness?.serverSeed).not.toBe(serverSeed);
+	});
+
+	it('should keep the commitment of a shoe the table is still dealing from', () => {
+		gameTable.gameState = 'Betting';
+		const { serverSeed, seedCommitment } = gameTable.openSeedCommitment();
+		gameTable.roundSeed = combineRoundSeed(serverSeed, []);
+		applyTableSnapshot(gameTable, parseTableSnapshot(JSON.parse(JSON.stringify(createTableSnapshot(gameTable)))));
+		expect(gameTable.fairness?.seedCommitment).toBe(seedCommitment);
+
+		gameTable.roundSeed = 'some-other-shoe';
+		applyTableSnapshot(gameTable, parseTableSnapshot(JSON.parse(JSON.stringify(createTableSnapshot(gameTable)))));
+		expect(gameTable.fairness?.seedCommitment).not.toBe(seedCommitment);
+		expect(gameTable.roundSeed).toBeNull(); // Reshuffled at the deal
+	});
+});
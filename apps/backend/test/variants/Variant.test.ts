@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_GAME_SETTINGS } from '../../src/models/GameSettings';
+import { HAND_RANK } from '../../src/utils/handEvaluator';
+import { getVariant, getVariantIds } from '../../src/variants/registry';
+import { determineOutcome } from '../../src/variants/Variant';
+
+describe('determineOutcome', () => {
+	it('should give copies to the dealer under the casino rule', () => {
+		expect(determineOutcome(1, 1, 'Dealer')).toBe('Win');
+		expect(determineOutcome(1, -1, 'Dealer')).toBe('Push');
+		expect(determineOutcome(1, 0, 'Dealer')).toBe('Push');
+		expect(determineOutcome(0, 0, 'Dealer')).toBe('Loss');
+		expect(determineOutcome(-1, -1, 'Dealer')).toBe('Loss');
+	});
+
+	it('should let a copied hand count for neither side under the push rule', () => {
+		expect(determineOutcome(1, 0, 'Push')).toBe('Win');
+		expect(determineOutcome(0, -1, 'Push')).toBe('Loss');
+		expect(determineOutcome(0, 0, 'Push')).toBe('Push');
+		expect(determineOutcome(1, -1, 'Push')).toBe('Push');
+	});
+});
+
+describe('variant registry', () => {
+	const highCard = (topValue: number, isAceHighPaiGow = false) => ({ rank: HAND_RANK.HIGH_CARD, values: [topValue, 9, 7, 4, 2], isAceHighPaiGow });
+	const pairLow = { rank: HAND_RANK.ONE_PAIR, values: [5] };
+
+	it('should register every variant under its own id', () => {
+		expect(getVariantIds()).toEqual(['FaceUp', 'Classic', 'CommissionFree']);
+		for (const id of getVariantIds()) {
+			expect(getVariant(id).id).toBe(id);
+		}
+		expect(() => getVariant('Texas')).toThrow("Unknown variant 'Texas'");
+	});
+
+	it('should push Face-Up rounds on a dealer Ace-High Pai Gow and pay even money', () => {
+		const variant = getVariant('FaceUp');
+		expect(variant.hidesDealerHand).toBe(false);
+		expect(variant.isDealerPush(highCard(14, true), pairLow)).toBe(true);
+		expect(variant.isDealerPush(highCard(13), pairLow)).toBe(false);
+		expect(variant.settleWin(100, DEFAULT_GAME_SETTINGS)).toEqual({ winnings: 100, commission: 0 });
+	});
+
+	it('should hide the dealer and charge the table commission in Classic', () => {
+		const variant = getVariant('Classic');
+		expect(variant.hidesDealerHand).toBe(true);
+		expect(variant.isDealerPush(highCard(14, true), pairLow)).toBe(false);
+		expect(variant.settleWin(100, { ...DEFAULT_GAME_SETTINGS, commissionPercent: 5 })).toEqual({ winnings: 95, commission: 5 });
+	});
+
+	it('should push Commission-Free rounds on a dealer Queen-high Pai Gow only', () => {
+		const variant = getVariant('CommissionFree');
+		expect(variant.hidesDealerHand).toBe(true);
+		expect(variant.isDealerPush(highCard(12), pairLow)).toBe(true);
+		expect(variant.isDealerPush(highCard(14, true), pairLow)).toBe(false);
+		expect(variant.isDealerPush({ rank: HAND_RANK.ONE_PAIR, values: [12, 9, 7, 4] }, pairLow)).toBe(false);
+		expect(variant.settleWin(100, DEFAULT_GAME_SETTINGS)).toEqual({ winnings: 100, commission: 0 });
+	});
+});
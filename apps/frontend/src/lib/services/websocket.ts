@@ -20,8 +20,30 @@ import {
 	playerIdStore, // ADDED: Import playerIdStore
 	systemMessagesStore, // ADDED: Import system message store
 	type SystemMessage, // ADDED: Import system message type
+	tableListStore,
+	houseWayOptionsStore,
+	type HouseWayOption,
+	currentTableIdStore,
+	pausedStateStore,
+	phaseDeadlineStore,
+	betLimitsStore,
+	variantRulesStore,
+	bankerUsernameStore,
+	houseWaySuggestionStore,
+	splitAnalysisStore,
+	type SplitAnalysisResult,
+	type HouseWaySuggestion,
+	dealerHandHiddenStore,
+	myBetStore,
+	mySideBetStore,
+	seedCommitmentStore,
+	type BetLimits,
+	type VariantRules,
+	type TableSummary,
+	type FairnessReveal,
 	// PlayerInfo is already imported earlier, removed duplicate
 } from '$lib/stores/game';
+import { downloadJson } from '$lib/utils/download';
 
 // --- Constants for System Messages (Moved from +page.svelte) ---
 const phaseMessages: Partial<Record<GameState, string>> = {
@@ -32,7 +54,9 @@ const phaseMessages: Partial<Record<GameState, string>> = {
 	Showdown: 'Showdown: Revealing hands and determining results...',
 	RoundOver: 'Round Over. Click "Start Next Round" below.',
 	AceHighPush: 'Dealer has Ace-High Pai Gow - Push!',
+	Paused: 'The host paused the game.',
 	NeedsUsername: 'Please enter a username to join.',
+	Lobby: 'Pick a table to join or create a new one.',
 	Connecting: 'Connecting to server...',
 	Disconnected: 'Disconnected from server.',
 	Error: 'An error occurred.'
@@ -54,6 +78,23 @@ function addSystemMessage(text: string) {
 	systemMessagesStore.update((messages) => [...messages, newMessage]);
 }
 
+/**
+ * Keeps the server seed commitment announced for the coming shuffle. When a new one arrives
+ * while betting is open and a new deck or shoe is about to be shuffled, a random client seed
+ * of our own is mixed into the shuffle. A shoe dealt on across rounds keeps its commitment.
+ */
+function handleSeedCommitment(seedCommitment: string, gameState: GameState, newShoe: boolean) {
+	if (get(seedCommitmentStore)?.seedCommitment === seedCommitment) {
+		return; // Already seen, e.g. in a full state update after a bet
+	}
+	seedCommitmentStore.set({ seedCommitment, clientSeed: null });
+	if (gameState === 'Betting' && newShoe) {
+		const bytes = crypto.getRandomValues(new Uint8Array(16));
+		const clientSeed = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+		sendWebSocketMessage({ type: 'addClientSeed', payload: { clientSeed } });
+	}
+}
+
 
 export interface WebSocketMessage {
 	type: string;
@@ -83,6 +124,18 @@ connectionStatus.subscribe((status) => {
 		dealerHandStore.set(null);
 		lastResultStore.set(null);
 		dannyBucksStore.set(0);
+		tableListStore.set([]);
+		currentTableIdStore.set(null);
+		pausedStateStore.set(null);
+		phaseDeadlineStore.set(null);
+		betLimitsStore.set(null);
+		variantRulesStore.set(null);
+		bankerUsernameStore.set(null);
+		splitAnalysisStore.set(null);
+		seedCommitmentStore.set(null);
+		dealerHandHiddenStore.set(false);
+		myBetStore.set(null);
+		mySideBetStore.set(null);
 		messageQueue = []; // Clear queue on close/error
 		// Ensure socket variable is cleared if status becomes closed/error externally
 		if (socket && (status === 'closed' || status === 'error')) {
@@ -257,6 +310,85 @@ function handleWebSocketMessage(message: WebSocketMessage): void {
 				}
 			}
 			playerIdStore.set(message.payload.playerId ?? null); // Store the player ID
+			// Players land in the lobby until they join or create a table
+			if (!get(currentTableIdStore)) {
+				gameStateStore.set('Lobby');
+			}
+			break;
+		case 'tableListUpdate':
+			// Assuming payload is { tables: [{ id, hostName, playerCount, variant, gameState }, ...] }
+			tableListStore.set((message.payload.tables ?? []) as TableSummary[]);
+			if (Array.isArray(message.payload.houseWays)) {
+				houseWayOptionsStore.set(message.payload.houseWays as HouseWayOption[]);
+			}
+			break;
+		case 'joinTableSuccess':
+			currentTableIdStore.set(message.payload.tableId ?? null);
+			if (typeof message.payload.dannyBucks === 'number') {
+				dannyBucksStore.set(message.payload.dannyBucks);
+			}
+			systemMessagesStore.set([]); // Start a fresh log for the new table
+			currentReportedHost = null;
+			addSystemMessage(message.payload.reclaimedSeat ? 'You reclaimed your saved seat.' : 'You joined the table.');
+			break;
+		case 'setHandSuccess':
+			// Also sent when the hand-setting timer runs out and the House Way sets the hand
+			if (message.payload?.message) {
+				addSystemMessage(message.payload.message);
+			}
+			break;
+		case 'houseWaySuggestion':
+			// Payload is { highHand, lowHand, houseWay }; PlayerArea selects the suggested low hand
+			houseWaySuggestionStore.set(message.payload as HouseWaySuggestion);
+			break;
+		case 'splitAnalysis':
+			// Payload is { method, splits }, best split first
+			splitAnalysisStore.set(message.payload as SplitAnalysisResult);
+			break;
+		case 'clientSeedAccepted':
+			// Payload is { clientSeed, seedCommitment }; kept to check it was mixed into the deal
+			seedCommitmentStore.update((current) =>
+				current && current.seedCommitment === message.payload.seedCommitment
+					? { ...current, clientSeed: message.payload.clientSeed as string }
+					: current
+			);
+			break;
+		case 'tableRewound':
+			// The host stepped back: forget results and cards from the undone phases.
+			// The restored state, hand and balance follow in separate messages.
+			lastResultStore.set(null);
+			dealerHandStore.set(null);
+			myHandStore.set(null);
+			splitAnalysisStore.set(null);
+			addSystemMessage(`The host stepped back to ${message.payload.gameState}.`);
+			break;
+		case 'tableSnapshot':
+			// Host asked to save the table: hand the snapshot to the browser as a file
+			if (message.payload.snapshot) {
+				downloadJson(message.payload.fileName ?? 'pai-gow-table.json', message.payload.snapshot);
+				addSystemMessage('Table saved.');
+			}
+			break;
+		case 'leaveTableSuccess':
+			// Back to the lobby: clear everything tied to the old table
+			currentTableIdStore.set(null);
+			pausedStateStore.set(null);
+			phaseDeadlineStore.set(null);
+			betLimitsStore.set(null);
+			variantRulesStore.set(null);
+			bankerUsernameStore.set(null);
+			splitAnalysisStore.set(null);
+			seedCommitmentStore.set(null);
+			dealerHandHiddenStore.set(false);
+			myBetStore.set(null);
+			mySideBetStore.set(null);
+			playersStore.set([]);
+			myHandStore.set(null);
+			dealerHandStore.set(null);
+			lastResultStore.set(null);
+			dannyBucksStore.set(0);
+			currentReportedHost = null;
+			gameStateStore.set('Lobby');
 			break;
 		case 'usernameFailure':
 			// UI should handle showing this error based on the store value
@@ -271,6 +403,18 @@ function handleWebSocketMessage(message: WebSocketMessage): void {
 			} else {
 				console.warn('Received betSuccess message without valid dannyBucks payload.');
 			}
+			if (typeof message.payload.betAmount === 'number') {
+				myBetStore.set(message.payload.betAmount);
+				mySideBetStore.set(message.payload.sideBet ?? null);
+			}
+			break;
+		case 'betWithdrawn':
+			myBetStore.set(null);
+			mySideBetStore.set(null);
+			if (typeof message.payload.dannyBucks === 'number') {
+				dannyBucksStore.set(message.payload.dannyBucks);
+			}
+			addSystemMessage(`Bet withdrawn. ${message.payload.refund} DB returned.`);
 			break;
 		case 'playerListUpdate':
 			// Assuming payload is { players: [{ username: string, id: string, isHost: boolean }, ...] }
@@ -285,6 +429,23 @@ function handleWebSocketMessage(message: WebSocketMessage): void {
 			const newState = receivedPayload.gameState as GameState;
 			console.log('Extracted newState:', newState);
 			gameStateStore.set(newState);
+			pausedStateStore.set((receivedPayload.pausedState as GameState | null) ?? null);
+			phaseDeadlineStore.set(typeof receivedPayload.phaseDeadline === 'number' ? receivedPayload.phaseDeadline : null);
+			if (typeof receivedPayload.dealerHandHidden === 'boolean') {
+				dealerHandHiddenStore.set(receivedPayload.dealerHandHidden);
+			}
+			if (receivedPayload.betLimits) {
+				betLimitsStore.set(receivedPayload.betLimits as BetLimits);
+			}
+			if (receivedPayload.variantRules) {
+				variantRulesStore.set(receivedPayload.variantRules as VariantRules);
+			}
+			if ('bankerUsername' in receivedPayload) {
+				bankerUsernameStore.set((receivedPayload.bankerUsername as string | null) ?? null);
+			}
+			if (typeof receivedPayload.seedCommitment === 'string') {
+				handleSeedCommitment(receivedPayload.seedCommitment, newState, receivedPayload.newShoe !== false);
+			}
 
 			// Add phase message
 			const phaseMessage = phaseMessages[newState];
@@ -320,6 +481,14 @@ function handleWebSocketMessage(message: WebSocketMessage): void {
 				myHandStore.set(null);
 				// Clear dealer hand when starting a new betting round
 				dealerHandStore.set(null);
+				myBetStore.set(null);
+				mySideBetStore.set(null);
+			}
+			// A full state update carries everyone's bet, including ours (e.g., after rejoining a table)
+			if (Array.isArray(receivedPayload.players)) {
+				const me = (receivedPayload.players as PlayerInfo[]).find(p => p.id === get(playerIdStore));
+				myBetStore.set(me?.currentBet ?? null);
+				mySideBetStore.set(me?.sideBet ?? null);
 			}
 			// Update balance if included with state update (redundant if players list is sent, but harmless)
 			if (typeof message.payload.dannyBucks === 'number') {
@@ -330,6 +499,8 @@ function handleWebSocketMessage(message: WebSocketMessage): void {
 		case 'dealHand':
 			// Assuming payload is { hand: Card[] }
 			myHandStore.set(message.payload.hand as Card[]);
+			houseWaySuggestionStore.set(null);
+			splitAnalysisStore.set(null);
 			// Game state likely changes after dealing, expect gameStateUpdate msg
 			break;
 		case 'dealerHandUpdate':
@@ -368,6 +539,14 @@ function handleWebSocketMessage(message: WebSocketMessage): void {
 					lastResultStore.set({
 						outcome: playerResult.outcome,
 						amount: playerResult.winnings ?? 0, // Use winnings, default to 0 if missing
+						commission: playerResult.commission ?? 0,
+						sideBet: playerResult.sideBet ?? null,
+						roundSeed: message.payload.roundSeed ?? null,
+						shoeFinished: message.payload.shoeFinished !== false,
+						fairness: (message.payload.fairness as FairnessReveal | null) ?? null,
+						highHand: (playerResult.playerHighHand as Card[] | null) ?? null,
+						lowHand: (playerResult.playerLowHand as Card[] | null) ?? null,
+						handReports: playerResult.handReports ?? null,
 					} as RoundResult);
 
 				} else {
@@ -381,6 +560,18 @@ function handleWebSocketMessage(message: WebSocketMessage): void {
 				lastResultStore.set(null);
 			}
 
+			// The showdown reveals the dealer's cards, including a hand that was dealt face down
+			if (message.payload.dealerDealtCards && message.payload.dealerHighHand && message.payload.dealerLowHand) {
+				dealerHandStore.set({
+					revealed: message.payload.dealerDealtCards as Card[],
+					highHand: message.payload.dealerHighHand as Card[],
+					lowHand: message.payload.dealerLowHand as Card[],
+					isAceHighPaiGow: !!message.payload.isAceHighPaiGow,
+					descriptions: message.payload.dealerHandDescriptions ?? null,
+				});
+				dealerHandHiddenStore.set(false);
+			}
+
 			// Let gameStateUpdate messages handle state transitions, as the backend sends 'RoundOver' after results.
 			// gameStateStore.set(message.payload.nextState || 'RoundOver');
 			break;
@@ -6,12 +6,22 @@ export type PlayerInfo = {
 	username: string;
 	dannyBucks?: number; // Optional, as not always present
 	isHost?: boolean; // Optional, for future host announcement
+	currentBet?: number | null; // Bet placed this round, null if none
+	sideBet?: number | null; // Fortune bonus side bet, null if none
 	// Add other relevant player info here
 };
 
 export type Card = {
 	rank: string;
 	suit: string;
+	id?: string; // Unique within the table's shoe (e.g. '2:A:Spades'); a multi-deck shoe can deal the same card twice
+	playsAs?: JokerSubstitution; // On a Joker in a hand reported at the showdown
+};
+
+// What a semi-wild Joker played as: an Ace, or the card completing a straight or flush (suit null when it did not matter)
+export type JokerSubstitution = {
+	rank: string;
+	suit: string | null;
 };
 
 export type DealerHand = {
@@ -19,11 +29,50 @@ export type DealerHand = {
 	highHand: Card[] | null;
 	lowHand: Card[] | null;
 	isAceHighPaiGow: boolean;
+	descriptions?: { high: string; low: string } | null; // e.g. "Pair of Queens, Eight kicker", once revealed at the showdown
+};
+
+// How one of my hands fared against the dealer's at the showdown
+export type HandReport = {
+	description: string; // e.g. "Two Pair, Kings and Sevens, Ace kicker"
+	versus: string; // The dealer's (or banker's) hand
+	outcome: 'Win' | 'Loss' | 'Tie';
+	reason: string; // e.g. "higher kicker: Q vs J"
+};
+
+export type HouseWaySuggestion = {
+	highHand: Card[];
+	lowHand: Card[];
+	houseWay: string; // Label of the table's house way
+};
+
+export type SplitAnalysis = {
+	highHand: Card[];
+	lowHand: Card[];
+	outcome: 'Win' | 'Push' | 'Loss';
+	highComparison: number; // 1 beats the dealer's high hand, 0 copies it, -1 loses to it
+	lowComparison: number; // Same for the low hand
 };
 
+export type SplitEstimate = {
+	highHand: Card[];
+	lowHand: Card[];
+	winProbability: number;
+	pushProbability: number;
+	lossProbability: number;
+	expectedValue: number; // Average return per DB bet
+	standardError: number; // Sampling error of expectedValue
+	closeToBest: boolean; // Within sampling error of the best split, so not meaningfully ranked against it
+};
+
+export type SplitAnalysisResult =
+	| { method: 'FaceUp'; splits: SplitAnalysis[] } // Known results against the face-up dealer, best first
+	| { method: 'ExpectedValue'; splits: SplitEstimate[]; samples: number }; // Estimated against a hidden dealer, best first
+
 export type GameState =
 	| 'Connecting'
 	| 'NeedsUsername'
+	| 'Lobby'
 	| 'WaitingForPlayers'
 	| 'Betting'
 	| 'Dealing'
@@ -32,12 +81,79 @@ export type GameState =
 	| 'RoundOver'
 	| 'Disconnected'
 	| 'Error'
-	| 'AceHighPush';
+	| 'AceHighPush'
+	| 'Paused';
+
+export type FortuneBetResult = {
+	betAmount: number;
+	hand: string | null; // Best Fortune hand, e.g. 'FourOfAKind'; null if it paid nothing
+	payout: number; // Net result of the side bet itself
+	envyBonus: number;
+	envyFrom: string[]; // Players whose hands earned the Envy bonus
+};
+
+export type ClientSeed = {
+	username: string;
+	clientSeed: string;
+};
+
+export type DeckConfig = {
+	deckCount: number; // 52-card decks shuffled together
+	jokersPerDeck: number; // 0, 1 or 2
+	penetrationPercent: number; // Share of the shoe dealt before it is reshuffled; 0 reshuffles every round
+};
+
+export type FairnessReveal = {
+	serverSeed: string;
+	seedCommitment: string; // SHA-256 of serverSeed, announced before the deal
+	clientSeeds: ClientSeed[]; // Entropy players mixed into the shuffle, in order
+	shoe: DeckConfig; // What the shuffled deck or shoe was made of
+};
+
+export type SeedCommitment = {
+	seedCommitment: string; // Hash of the server seed of the coming shuffle or the shoe in play
+	clientSeed: string | null; // Our own contribution to that deal, null if none was accepted
+};
 
 export type RoundResult = {
-	outcome: string; // 'Win', 'Loss', 'Push', 'Error'
+	outcome: string; // 'Win', 'Loss', 'Push', 'Bank' (the banker's net result), 'Error'
 	amount: number;
-	// Optionally add hand details if needed for display
+	commission?: number; // Commission taken from a win (e.g. Classic variant), 0 otherwise
+	sideBet?: FortuneBetResult | null; // Fortune side bet result, null without a side bet
+	roundSeed?: string | null; // Seed the deck or shoe was shuffled with, for replaying its deals; null until the shoe is finished
+	shoeFinished?: boolean; // False while the next round is dealt on from the same shoe
+	fairness?: FairnessReveal | null; // Revealed server and client seeds, null until the shoe is finished or if it was not committed to
+	highHand?: Card[] | null; // My hands as played, each Joker marked with what it played as; null if I sat out
+	lowHand?: Card[] | null;
+	handReports?: { high: HandReport; low: HandReport } | null; // Set when my hands were compared with the dealer's
+};
+
+export type TableSummary = {
+	id: string;
+	hostName: string | null;
+	playerCount: number;
+	variant: string;
+	minBet: number;
+	maxBet: number;
+	gameState: string;
+};
+
+export type HouseWayOption = {
+	id: string;
+	label: string;
+};
+
+export type BetLimits = {
+	minBet: number;
+	maxBet: number;
+	betIncrement: number; // Every bet must be a multiple of this amount
+};
+
+export type VariantRules = {
+	id: string;
+	label: string;
+	allowedSideBets: string[]; // Side bets offered at the table, e.g. ['Fortune']
+	dealerPushLabel: string | null; // Dealer hand that pushes every bet, e.g. 'Ace-High Pai Gow'; null if none
 };
 
 export type SystemMessage = {
@@ -57,3 +173,17 @@ export const gameStateStore = writable<GameState>('Disconnected'); // Initial st
 export const lastResultStore = writable<RoundResult | null>(null);
 export const playerIdStore = writable<string | null>(null); // ADDED: Player ID Store
 export const systemMessagesStore = writable<SystemMessage[]>([]); // ADDED: System messages store
+export const tableListStore = writable<TableSummary[]>([]); // Tables shown in the lobby
+export const houseWayOptionsStore = writable<HouseWayOption[]>([{ id: 'MaximizeLow', label: 'Maximize Low Hand' }]); // House ways a new table can use
+export const pausedStateStore = writable<GameState | null>(null); // Phase the host's pause interrupted, null while not paused
+export const phaseDeadlineStore = writable<number | null>(null); // Epoch ms when the current phase ends on its own, null without a timer
+export const dealerHandHiddenStore = writable<boolean>(false); // Dealer cards dealt face down until showdown (e.g. Classic)
+export const betLimitsStore = writable<BetLimits | null>(null); // Bet limits of the current table
+export const variantRulesStore = writable<VariantRules | null>(null); // Rules of the current table's variant
+export const bankerUsernameStore = writable<string | null>(null); // Player banking the round, null when the dealer banks
+export const houseWaySuggestionStore = writable<HouseWaySuggestion | null>(null); // House way split of my hand, until PlayerArea selects it
+export const splitAnalysisStore = writable<SplitAnalysisResult | null>(null); // Hint: every split of my hand, best first
+export const seedCommitmentStore = writable<SeedCommitment | null>(null); // Commitment announced for the deal, kept to verify the reveal
+export const myBetStore = writable<number | null>(null); // This player's bet for the current round, null if none
+export const mySideBetStore = writable<number | null>(null); // This player's Fortune side bet, null if none
+export const currentTableIdStore = writable<string | null>(null); // Table the player is seated at, null while in the lobby
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { formatCard, formatCards, parseCard, parseCards } from './cardNotation';
+
+describe('cardNotation', () => {
+	it('should read and write the same notation as the backend', () => {
+		const cards = parseCards('As Kh Td Jk');
+		expect(cards).toEqual([
+			{ rank: 'A', suit: 'Spades' },
+			{ rank: 'K', suit: 'Hearts' },
+			{ rank: '10', suit: 'Diamonds' },
+			{ rank: 'Joker', suit: 'Joker' },
+		]);
+		expect(formatCards(cards)).toBe('As Kh Td Jk');
+		expect(formatCards(cards, 'unicode')).toBe('A♠ K♥ 10♦ 🃏');
+		expect(parseCards(formatCards(cards, 'unicode'))).toEqual(cards);
+		expect(parseCard('Q♥️')).toEqual({ rank: 'Q', suit: 'Hearts' });
+	});
+
+	it('should reject malformed cards but write odd ones as ?', () => {
+		expect(() => parseCards('As Xd')).toThrow('Card 2: Invalid card "Xd"');
+		expect(formatCard({ rank: 'A', suit: 'Stars' }, 'unicode')).toBe('A?');
+	});
+});
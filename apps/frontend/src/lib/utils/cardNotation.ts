@@ -0,0 +1,95 @@
+/**
+ * @module cardNotation
+ * @description Reads and writes cards in compact notation ("As Kh Td Jk", "A♠ K♥ 10♦ 🃏").
+ * Mirrors the backend's utils/cardNotation.ts, so both sides read and write cards alike.
+ */
+
+import type { Card } from '$lib/stores/game';
+
+/**
+ * How cards are written: 'short' is plain ASCII ("As Td Jk"), 'unicode' uses suit symbols ("A♠ 10♦ 🃏").
+ * Both parse back to the same cards.
+ */
+export type CardNotationStyle = 'short' | 'unicode';
+
+// Rank as written -> rank as stored. Tens are 'T' in short notation, but '10' is read too
+const RANKS_BY_CODE: { [code: string]: string } = {
+	'2': '2', '3': '3', '4': '4', '5': '5', '6': '6', '7': '7', '8': '8', '9': '9',
+	'T': '10', '10': '10', 'J': 'J', 'Q': 'Q', 'K': 'K', 'A': 'A',
+};
+
+const STORED_RANKS = new Set(Object.values(RANKS_BY_CODE));
+
+const SUITS_BY_CODE: { [code: string]: string } = {
+	's': 'Spades', 'h': 'Hearts', 'd': 'Diamonds', 'c': 'Clubs',
+	'♠': 'Spades', '♥': 'Hearts', '♦': 'Diamonds', '♣': 'Clubs',
+};
+
+const SHORT_SUITS: { [suit: string]: string } = { Spades: 's', Hearts: 'h', Diamonds: 'd', Clubs: 'c' };
+const SUIT_SYMBOLS: { [suit: string]: string } = { Spades: '♠', Hearts: '♥', Diamonds: '♦', Clubs: '♣' };
+
+const SHORT_JOKER = 'Jk';
+const UNICODE_JOKER = '🃏';
+
+/**
+ * Reads one card, e.g. "As", "Td", "10♦" or "Jk". Ranks and suit letters may be either case.
+ * @param {string} code - The card as written.
+ * @returns {Card} The card, without an id.
+ * @throws {Error} If the code is not a card.
+ */
+export function parseCard(code: string): Card {
+	const text = code.trim().replace(/\uFE0F/g, ''); // Drop the emoji presentation selector some keyboards add to suit symbols
+	if (text.toLowerCase() === SHORT_JOKER.toLowerCase() || text === UNICODE_JOKER) {
+		return { rank: 'Joker', suit: 'Joker' };
+	}
+	const suitCode = text.slice(-1);
+	const rankCode = text.slice(0, -1).toUpperCase();
+	const suit = SUITS_BY_CODE[suitCode.toLowerCase()];
+	const rank = RANKS_BY_CODE[rankCode];
+	if (!rank || !suit) {
+		throw new Error(`Invalid card "${code}": expected a rank (2-9, T, J, Q, K, A) then a suit (s, h, d, c), or Jk for the Joker.`);
+	}
+	return { rank, suit };
+}
+
+/**
+ * Reads a list of cards separated by spaces or commas, e.g. "As Kh Td Jk".
+ * @param {string} text - The cards as written; blank text is no cards.
+ * @returns {Card[]} The cards in order.
+ * @throws {Error} If any entry is not a card, naming its position.
+ */
+export function parseCards(text: string): Card[] {
+	const codes = text.split(/[\s,]+/).filter(code => code !== '');
+	return codes.map((code, index) => {
+		try {
+			return parseCard(code);
+		} catch (error) {
+			throw new Error(`Card ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	});
+}
+
+/**
+ * Writes one card. It never throws, so it is safe in logs: an unknown rank or suit is written as '?'.
+ * @param {Card} card - The card; its id is not written.
+ * @param {CardNotationStyle} style - 'short' ("Td") or 'unicode' ("10♦").
+ * @returns {string} The card as written.
+ */
+export function formatCard(card: Card, style: CardNotationStyle = 'short'): string {
+	if (card.rank === 'Joker') {
+		return style === 'short' ? SHORT_JOKER : UNICODE_JOKER;
+	}
+	const suit = (style === 'short' ? SHORT_SUITS[card.suit] : SUIT_SYMBOLS[card.suit]) ?? '?';
+	const rank = !STORED_RANKS.has(card.rank) ? '?' : style === 'short' && card.rank === '10' ? 'T' : card.rank;
+	return `${rank}${suit}`;
+}
+
+/**
+ * Writes a list of cards separated by spaces, e.g. "As Kh Td Jk".
+ * @param {Card[]} cards - The cards.
+ * @param {CardNotationStyle} style - 'short' or 'unicode'.
+ * @returns {string} The cards as written.
+ */
+export function formatCards(cards: Card[], style: CardNotationStyle = 'short'): string {
+	return cards.map(card => formatCard(card, style)).join(' ');
+}
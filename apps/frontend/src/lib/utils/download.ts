@@ -0,0 +1,34 @@
+/**
+ * @module download
+ * @description Browser helpers for saving data to and loading data from local files.
+ */
+
+/**
+ * Offers a value to the user as a downloaded, pretty-printed JSON file.
+ * @param {string} fileName - Suggested name for the file.
+ * @param {unknown} data - Any JSON-serializable value.
+ */
+export function downloadJson(fileName: string, data: unknown): void {
+	const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads a user-selected file and parses it as JSON.
+ * @param {File} file - The file picked by the user.
+ * @returns {Promise<unknown>} The parsed JSON.
+ * @throws {Error} If the file is not valid JSON.
+ */
+export async function readJsonFile(file: File): Promise<unknown> {
+	const text = await file.text();
+	try {
+		return JSON.parse(text);
+	} catch {
+		throw new Error(`"${file.name}" is not a valid JSON file.`);
+	}
+}
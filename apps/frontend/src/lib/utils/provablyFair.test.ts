@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { findDealtHand, sha256Hex, verifyRound } from './provablyFair';
+
+const standardDeck = { deckCount: 1, jokersPerDeck: 1, penetrationPercent: 0 };
+
+describe('provablyFair', () => {
+	it('should rebuild the same deck as the server', async () => {
+		// The backend's provablyFair test expects the same first hand for these values
+		const verification = await verifyRound({
+			serverSeed: 'server-seed',
+			seedCommitment: await sha256Hex('server-seed'),
+			clientSeeds: [{ username: 'alice', clientSeed: 'lucky' }],
+			shoe: standardDeck
+		});
+		expect(verification.commitmentMatches).toBe(true);
+		expect(verification.roundSeed).toBe('04cf2095984cd5db61dd1b32428d06295021d57866f63b2a04266898101d1501');
+		expect(verification.deck).toHaveLength(53);
+		expect(verification.deck.slice(-7)).toEqual([
+			{ suit: 'Diamonds', rank: '4', id: '1:4:Diamonds' }, { suit: 'Spades', rank: '5', id: '1:5:Spades' }, { suit: 'Hearts', rank: 'J', id: '1:J:Hearts' },
+			{ suit: 'Clubs', rank: 'K', id: '1:K:Clubs' }, { suit: 'Diamonds', rank: '3', id: '1:3:Diamonds' }, { suit: 'Hearts', rank: '7', id: '1:7:Hearts' },
+			{ suit: 'Hearts', rank: '8', id: '1:8:Hearts' }
+		]);
+	});
+
+	it('should rebuild the same multi-deck shoe as the server', async () => {
+		// The backend's provablyFair test expects the same first hand, with the Ace of Clubs from both decks
+		const { deck } = await verifyRound({
+			serverSeed: 'server-seed',
+			seedCommitment: await sha256Hex('server-seed'),
+			clientSeeds: [{ username: 'alice', clientSeed: 'lucky' }],
+			shoe: { deckCount: 2, jokersPerDeck: 2, penetrationPercent: 75 }
+		});
+		expect(deck).toHaveLength(108);
+		expect(deck.slice(-7).map((card) => card.id)).toEqual(['1:A:Clubs', '1:6:Spades', '2:3:Diamonds', '2:A:Clubs', '2:J:Clubs', '2:10:Diamonds', '1:10:Spades']);
+		expect(findDealtHand(deck, deck.slice(-7).reverse())).toBe(0);
+	});
+
+	it('should catch a server seed that does not match its commitment', async () => {
+		const verification = await verifyRound({ serverSeed: 'server-seed', seedCommitment: await sha256Hex('other-seed'), clientSeeds: [], shoe: standardDeck });
+		expect(verification.commitmentMatches).toBe(false);
+	});
+
+	it('should find which hand of the deck was dealt', async () => {
+		const { deck } = await verifyRound({ serverSeed: 'server-seed', seedCommitment: '', clientSeeds: [], shoe: standardDeck });
+		expect(findDealtHand(deck, deck.slice(-14, -7).reverse())).toBe(1);
+		expect(findDealtHand(deck, [...deck.slice(-6), deck[0]])).toBeNull();
+	});
+});
@@ -0,0 +1,121 @@
+/**
+ * @module provablyFair
+ * @description Checks a round's commit–reveal shuffle in the browser, without trusting the server.
+ * Mirrors the backend's seed combination, seeded generator and Fisher-Yates shuffle exactly.
+ */
+
+import type { Card, DeckConfig, FairnessReveal } from '$lib/stores/game';
+
+/**
+ * The outcome of checking a revealed round.
+ */
+export type RoundVerification = {
+	commitmentMatches: boolean; // The revealed server seed hashes to the revealed commitment
+	roundSeed: string; // Seed the deck was shuffled with
+	deck: Card[]; // The shuffled deck in dealing order (last card is dealt first)
+};
+
+/**
+ * Hashes a value with SHA-256.
+ * @param {string} value - The value to hash.
+ * @returns {Promise<Uint8Array>} The 32-byte digest.
+ */
+async function sha256(value: string): Promise<Uint8Array> {
+	return new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+}
+
+/**
+ * Hashes a value with SHA-256.
+ * @param {string} value - The value to hash.
+ * @returns {Promise<string>} The digest as hex.
+ */
+export async function sha256Hex(value: string): Promise<string> {
+	return Array.from(await sha256(value), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Builds the unshuffled deck or shoe in the server's order: each deck's cards by suit and rank, then its Jokers.
+ * @param {DeckConfig} shoe - How many decks and Jokers it holds.
+ * @returns {Card[]} The cards, with the server's ids.
+ */
+function orderedDeck(shoe: DeckConfig): Card[] {
+	const suits = ['Spades', 'Hearts', 'Diamonds', 'Clubs'];
+	const ranks = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+	const deck: Card[] = [];
+	for (let deckNumber = 1; deckNumber <= shoe.deckCount; deckNumber++) {
+		deck.push(...suits.flatMap((suit) => ranks.map((rank) => ({ suit, rank, id: `${deckNumber}:${rank}:${suit}` }))));
+		for (let joker = 1; joker <= shoe.jokersPerDeck; joker++) {
+			deck.push({ suit: 'Joker', rank: 'Joker', id: `${deckNumber}:Joker:${joker}` });
+		}
+	}
+	return deck;
+}
+
+/**
+ * Shuffles the deck the way the server does for a seed: 32-bit words read from
+ * SHA-256(`${seed}:${block}`), rejection sampled, driving a Fisher-Yates shuffle.
+ * @param {string} seed - The round seed.
+ * @param {DeckConfig} shoe - What the deck or shoe is made of.
+ * @returns {Promise<Card[]>} The deck in dealing order.
+ */
+export async function shuffledDeck(seed: string, shoe: DeckConfig): Promise<Card[]> {
+	let block = 0;
+	let words: number[] = [];
+	const nextWord = async (): Promise<number> => {
+		if (words.length === 0) {
+			const view = new DataView((await sha256(`${seed}:${block++}`)).buffer);
+			words = Array.from({ length: 8 }, (_, index) => view.getUint32(index * 4));
+		}
+		return words.shift()!;
+	};
+	const randomInt = async (maxExclusive: number): Promise<number> => {
+		const limit = Math.floor(2 ** 32 / maxExclusive) * maxExclusive;
+		let word = await nextWord();
+		while (word >= limit) {
+			word = await nextWord();
+		}
+		return word % maxExclusive;
+	};
+
+	const cards = orderedDeck(shoe);
+	let currentIndex = cards.length;
+	while (currentIndex !== 0) {
+		const randomIndex = await randomInt(currentIndex);
+		currentIndex--;
+		[cards[currentIndex], cards[randomIndex]] = [cards[randomIndex], cards[currentIndex]];
+	}
+	return cards;
+}
+
+/**
+ * Checks a revealed round: that the server seed matches its commitment, and rebuilds the deck or shoe it produced.
+ * @param {FairnessReveal} reveal - The server seed, commitment, client seeds and shoe from 'roundResult'.
+ * @returns {Promise<RoundVerification>} Whether the commitment matches, the round seed and the deck order.
+ */
+export async function verifyRound(reveal: FairnessReveal): Promise<RoundVerification> {
+	const parts = [reveal.serverSeed, 'deal', ...reveal.clientSeeds.map((entry) => `${entry.username}=${entry.clientSeed}`)];
+	const roundSeed = await sha256Hex(parts.join(':'));
+	return {
+		commitmentMatches: (await sha256Hex(reveal.serverSeed)) === reveal.seedCommitment,
+		roundSeed,
+		deck: await shuffledDeck(roundSeed, reveal.shoe)
+	};
+}
+
+/**
+ * Finds which 7-card hand of the deck a hand was. Hands are dealt 7 at a time from the end of the deck:
+ * players in seat order, then the dealer, round after round until a shoe is reshuffled.
+ * @param {Card[]} deck - The deck in dealing order.
+ * @param {Card[]} hand - The 7 dealt cards, in any order.
+ * @returns {number | null} The hand's position, from 0 for the first hand dealt, or null if it was not dealt from this deck.
+ */
+export function findDealtHand(deck: Card[], hand: Card[]): number | null {
+	const sameCard = (a: Card, b: Card) => (a.id && b.id ? a.id === b.id : a.rank === b.rank && a.suit === b.suit);
+	for (let position = 0; (position + 1) * 7 <= deck.length; position++) {
+		const dealt = deck.slice(deck.length - (position + 1) * 7, deck.length - position * 7);
+		if (dealt.length === hand.length && dealt.every((card) => hand.some((own) => sameCard(card, own)))) {
+			return position;
+		}
+	}
+	return null;
+}
@@ -9,7 +9,13 @@ import type {
 	PlayerInfo,
 	Card,
 	DealerHand,
-	RoundResult
+	RoundResult,
+	BetLimits,
+	VariantRules,
+	HouseWayOption,
+	HouseWaySuggestion,
+	SplitAnalysisResult,
+	SeedCommitment
 } from '$lib/stores/game';
 import type { ConnectionStatus } from '$lib/services/websocket';
 
@@ -22,6 +28,19 @@ const mockDannyBucksStore = writable<number>(0);
 const mockMyHandStore = writable<Card[] | null>(null);
 const mockDealerHandStore = writable<DealerHand | null>(null);
 const mockLastResultStore = writable<RoundResult | null>(null);
+const mockCurrentTableIdStore = writable<string | null>(null);
+const mockPausedStateStore = writable<GameState | null>(null);
+const mockPhaseDeadlineStore = writable<number | null>(null);
+const mockBetLimitsStore = writable<BetLimits | null>(null);
+const mockMyBetStore = writable<number | null>(null);
+const mockMySideBetStore = writable<number | null>(null);
+const mockDealerHandHiddenStore = writable<boolean>(false);
+const mockVariantRulesStore = writable<VariantRules | null>(null);
+const mockBankerUsernameStore = writable<string | null>(null);
+const mockHouseWayOptionsStore = writable<HouseWayOption[]>([]);
+const mockHouseWaySuggestionStore = writable<HouseWaySuggestion | null>(null);
+const mockSplitAnalysisStore = writable<SplitAnalysisResult | null>(null);
+const mockSeedCommitmentStore = writable<SeedCommitment | null>(null);
 const mockConnectionStatusStore = writable<ConnectionStatus>('closed');
 const mockConnectionErrorStore = writable<string | null>(null);
 
@@ -35,6 +54,19 @@ vi.mock('$lib/stores/game', async () => {
 		myHandStore: mockMyHandStore,
 		dealerHandStore: mockDealerHandStore,
 		lastResultStore: mockLastResultStore,
+		currentTableIdStore: mockCurrentTableIdStore,
+		pausedStateStore: mockPausedStateStore,
+		phaseDeadlineStore: mockPhaseDeadlineStore,
+		betLimitsStore: mockBetLimitsStore,
+		myBetStore: mockMyBetStore,
+		mySideBetStore: mockMySideBetStore,
+		dealerHandHiddenStore: mockDealerHandHiddenStore,
+		variantRulesStore: mockVariantRulesStore,
+		bankerUsernameStore: mockBankerUsernameStore,
+		houseWayOptionsStore: mockHouseWayOptionsStore,
+		houseWaySuggestionStore: mockHouseWaySuggestionStore,
+		splitAnalysisStore: mockSplitAnalysisStore,
+		seedCommitmentStore: mockSeedCommitmentStore,
 	};
 });
 
@@ -74,6 +106,7 @@ async function resetStores() {
 	mockMyHandStore.set(null);
 	mockDealerHandStore.set(null);
 	mockLastResultStore.set(null);
+	mockCurrentTableIdStore.set(null);
 
 
 	// Reset mocks for functions